@@ -0,0 +1,44 @@
+import { NextResponse } from "next/server";
+import { getStorageAdapter } from "@/lib/server/storage";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type RouteContext = { params: { key: string } };
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  const storage = await getStorageAdapter();
+  const blob = await storage.readBlob(params.key);
+  if (!blob) {
+    return NextResponse.json({ error: "Blob not found." }, { status: 404 });
+  }
+  return new Response(blob.stream, {
+    headers: {
+      "Content-Type": blob.contentType,
+      "Content-Length": String(blob.size),
+      "Cache-Control": "private, no-cache"
+    }
+  });
+}
+
+export async function PUT(request: Request, { params }: RouteContext) {
+  if (!request.body) {
+    return NextResponse.json({ error: "Request body is empty." }, { status: 400 });
+  }
+  const storage = await getStorageAdapter();
+  await storage.writeBlob(
+    params.key,
+    request.body,
+    request.headers.get("Content-Type") ?? "application/octet-stream"
+  );
+  return new NextResponse(null, { status: 204 });
+}
+
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  const storage = await getStorageAdapter();
+  const deleted = await storage.deleteBlob(params.key);
+  if (!deleted) {
+    return NextResponse.json({ error: "Blob not found." }, { status: 404 });
+  }
+  return new NextResponse(null, { status: 204 });
+}
@@ -0,0 +1,49 @@
+import http from "node:http";
+import { AddressInfo } from "node:net";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import type { LinkCheckResult } from "@/lib/linkHealth";
+import { POST } from "@/app/api/link-check/route";
+
+async function checkLinks(urls: string[]): Promise<LinkCheckResult[]> {
+  const response = await POST(
+    new Request("http://localhost/api/link-check", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ urls })
+    })
+  );
+  return ((await response.json()) as { results: LinkCheckResult[] }).results;
+}
+
+describe("POST /api/link-check", () => {
+  let server: http.Server;
+  let port: number;
+  let hits = 0;
+
+  beforeAll(async () => {
+    server = http.createServer((request, response) => {
+      hits += 1;
+      response.writeHead(204);
+      response.end();
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    port = (server.address() as AddressInfo).port;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it("does not reveal internal status codes through mapped IPv6 hosts", async () => {
+    const results = await checkLinks([
+      `http://[::ffff:127.0.0.1]:${port}/`,
+      `http://[::ffff:7f00:1]:${port}/`,
+      `http://[::ffff:a9fe:a9fe]:${port}/latest/meta-data/`
+    ]);
+    expect(hits).toBe(0);
+    results.forEach((result) => {
+      expect(result.status).toBeUndefined();
+      expect(result.error).toBe("Private network addresses cannot be fetched.");
+    });
+  });
+});
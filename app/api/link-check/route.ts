@@ -0,0 +1,66 @@
+import { NextResponse } from "next/server";
+import type { LinkCheckResult } from "@/lib/linkHealth";
+import { RemoteFetchError, fetchRemote } from "@/lib/server/remoteFetch";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const MAX_URLS_PER_REQUEST = 25;
+const CONCURRENCY = 4;
+const CHECK_TIMEOUT_MS = 10_000;
+
+async function checkUrl(url: string): Promise<LinkCheckResult> {
+  const checkedAt = new Date().toISOString();
+  try {
+    // Many servers mishandle HEAD, so anything but a success is retried as GET.
+    let remote = await fetchRemote(url, { method: "HEAD", timeoutMs: CHECK_TIMEOUT_MS }).catch(
+      () => null
+    );
+    if (!remote || remote.status >= 400) {
+      remote = await fetchRemote(url, { timeoutMs: CHECK_TIMEOUT_MS });
+    }
+    await remote.body.cancel();
+    return {
+      url,
+      checkedAt,
+      status: remote.status,
+      redirectedTo: remote.url !== new URL(url).toString() ? remote.url : undefined,
+      contentType: remote.contentType,
+      contentLength: remote.contentLength
+    };
+  } catch (error) {
+    return {
+      url,
+      checkedAt,
+      error: error instanceof RemoteFetchError ? error.message : "The check failed."
+    };
+  }
+}
+
+/** Checks a batch of URLs server-side and reports what each one answered. */
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => null);
+  const urls: unknown = body?.urls;
+  if (
+    !Array.isArray(urls) ||
+    !urls.every((url): url is string => typeof url === "string") ||
+    urls.length > MAX_URLS_PER_REQUEST
+  ) {
+    return NextResponse.json(
+      { error: `Body must include up to ${MAX_URLS_PER_REQUEST} urls.` },
+      { status: 400 }
+    );
+  }
+
+  const results: LinkCheckResult[] = new Array(urls.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < urls.length) {
+      const index = next;
+      next += 1;
+      results[index] = await checkUrl(urls[index]);
+    }
+  };
+  await Promise.all(Array.from({ length: CONCURRENCY }, worker));
+  return NextResponse.json({ results });
+}
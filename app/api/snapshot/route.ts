@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server";
+import { RemoteFetchError, fetchRemote } from "@/lib/server/remoteFetch";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * Proxies a remote URL so the browser can snapshot it despite CORS. The body
+ * is streamed back as-is; the upstream status and final URL travel in
+ * headers because this response's own status only reports the proxy.
+ */
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => null);
+  const url = body && typeof body.url === "string" ? body.url.trim() : "";
+  if (!url) {
+    return NextResponse.json({ error: "Body must include a url." }, { status: 400 });
+  }
+
+  try {
+    const remote = await fetchRemote(url);
+    if (remote.status < 200 || remote.status >= 300) {
+      await remote.body.cancel();
+      return NextResponse.json(
+        { error: `The remote server answered ${remote.status}.`, status: remote.status },
+        { status: 502 }
+      );
+    }
+    // No Content-Length: the body has already been decoded if it was compressed.
+    return new Response(remote.body, {
+      headers: {
+        "Content-Type": remote.contentType,
+        "Cache-Control": "no-store",
+        "X-Snapshot-Status": String(remote.status),
+        "X-Snapshot-Url": remote.url
+      }
+    });
+  } catch (error) {
+    if (error instanceof RemoteFetchError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    throw error;
+  }
+}
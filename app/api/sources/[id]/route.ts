@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server";
+import { getStorageAdapter, isSourceRecord } from "@/lib/server/storage";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type RouteContext = { params: { id: string } };
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  const storage = await getStorageAdapter();
+  const source = await storage.getSource(params.id);
+  if (!source) {
+    return NextResponse.json({ error: "Source not found." }, { status: 404 });
+  }
+  return NextResponse.json({ source });
+}
+
+export async function PUT(request: Request, { params }: RouteContext) {
+  const body = await request.json().catch(() => null);
+  if (!isSourceRecord(body) || body.id !== params.id) {
+    return NextResponse.json(
+      { error: "Body must be a source record whose id matches the URL." },
+      { status: 400 }
+    );
+  }
+  const storage = await getStorageAdapter();
+  await storage.putSource(body);
+  return NextResponse.json({ source: body });
+}
+
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  const storage = await getStorageAdapter();
+  const deleted = await storage.deleteSource(params.id);
+  if (!deleted) {
+    return NextResponse.json({ error: "Source not found." }, { status: 404 });
+  }
+  return new NextResponse(null, { status: 204 });
+}
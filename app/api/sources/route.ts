@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server";
+import { getStorageAdapter, isSourceRecord } from "@/lib/server/storage";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  const storage = await getStorageAdapter();
+  return NextResponse.json({ sources: await storage.listSources() });
+}
+
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => null);
+  if (!isSourceRecord(body)) {
+    return NextResponse.json({ error: "Body must be a source record." }, { status: 400 });
+  }
+  const storage = await getStorageAdapter();
+  await storage.putSource(body);
+  return NextResponse.json({ source: body }, { status: 201 });
+}
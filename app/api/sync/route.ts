@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server";
+import { getStorageAdapter, isSourceRecord } from "@/lib/server/storage";
+import { SyncRequest, SyncResponse, SyncResult, isSyncChange } from "@/lib/syncProtocol";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function POST(request: Request) {
+  const body = (await request.json().catch(() => null)) as Partial<SyncRequest> | null;
+  if (
+    !body ||
+    !Number.isInteger(body.cursor) ||
+    (body.cursor as number) < 0 ||
+    !Array.isArray(body.changes)
+  ) {
+    return NextResponse.json(
+      { error: "Body must be { cursor: number, changes: SyncChange[] }." },
+      { status: 400 }
+    );
+  }
+  const invalid = body.changes.find(
+    (change) => !isSyncChange(change) || (!change.deleted && !isSourceRecord(change.record))
+  );
+  if (invalid !== undefined) {
+    return NextResponse.json({ error: "Malformed change in sync request." }, { status: 400 });
+  }
+
+  const storage = await getStorageAdapter();
+  const results: SyncResult[] = [];
+  for (const change of body.changes) {
+    results.push(await storage.applyChange(change));
+  }
+  const { cursor, changes } = await storage.changesSince(body.cursor as number);
+
+  return NextResponse.json({ cursor, results, changes } satisfies SyncResponse);
+}
@@ -0,0 +1,141 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { MediaInfo, SourceRecord, readBlob } from "@/lib/sources";
+import { AudioAnalysis, analyzeAudio, describeMediaInfo } from "@/lib/audio";
+
+type AudioPreviewProps = {
+  source: SourceRecord;
+  objectUrl: string;
+  // Called once the file has been probed, so the record can keep its metadata.
+  onMetadata: (info: MediaInfo) => void;
+};
+
+const WAVEFORM_HEIGHT = 96;
+const PLAYED_COLOR = "#2563eb";
+const UNPLAYED_COLOR = "#cbd5e1";
+
+export default function AudioPreview({ source, objectUrl, onMetadata }: AudioPreviewProps) {
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const onMetadataRef = useRef(onMetadata);
+  // The analysis writes metadata back into the record; reading it through a
+  // ref keeps that update from starting a second analysis.
+  const sourceRef = useRef(source);
+  const [analysis, setAnalysis] = useState<AudioAnalysis | null>(null);
+  const [failed, setFailed] = useState(false);
+  const [progress, setProgress] = useState(0);
+
+  onMetadataRef.current = onMetadata;
+  sourceRef.current = source;
+
+  useEffect(() => {
+    setAnalysis(null);
+    setFailed(false);
+    setProgress(0);
+    if (!source.fileKey) return;
+    if (typeof OfflineAudioContext === "undefined") {
+      setFailed(true);
+      return;
+    }
+    let isCurrent = true;
+    readBlob(source.fileKey)
+      .then((blob) => {
+        if (!blob) throw new Error("Stored file is missing.");
+        return analyzeAudio(sourceRef.current, blob);
+      })
+      .then((result) => {
+        if (!isCurrent) return;
+        setAnalysis(result);
+        onMetadataRef.current(result.info);
+      })
+      .catch((error) => {
+        console.error("Failed to analyze audio", error);
+        if (isCurrent) setFailed(true);
+      });
+    return () => {
+      isCurrent = false;
+    };
+  }, [source.id, source.fileKey]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const peaks = analysis?.peaks;
+    if (!canvas || !peaks?.length) return;
+    const ratio = window.devicePixelRatio || 1;
+    const width = canvas.clientWidth;
+    canvas.width = Math.round(width * ratio);
+    canvas.height = Math.round(WAVEFORM_HEIGHT * ratio);
+    const context = canvas.getContext("2d");
+    if (!context) return;
+    context.scale(ratio, ratio);
+    context.clearRect(0, 0, width, WAVEFORM_HEIGHT);
+
+    const barWidth = width / peaks.length;
+    const middle = WAVEFORM_HEIGHT / 2;
+    peaks.forEach((peak, index) => {
+      const x = index * barWidth;
+      // Silent stretches still show as a thin line.
+      const height = Math.max(1, peak * (WAVEFORM_HEIGHT - 4));
+      context.fillStyle = x / width < progress ? PLAYED_COLOR : UNPLAYED_COLOR;
+      context.fillRect(x, middle - height / 2, Math.max(1, barWidth - 0.5), height);
+    });
+  }, [analysis, progress]);
+
+  const handleLoadedMetadata = () => {
+    const audio = audioRef.current;
+    // Files too large to decode still get a duration from the player.
+    if (!audio || !Number.isFinite(audio.duration) || analysis?.info.duration !== undefined) {
+      return;
+    }
+    onMetadataRef.current({ ...analysis?.info, duration: audio.duration });
+  };
+
+  const handleTimeUpdate = () => {
+    const audio = audioRef.current;
+    if (audio && audio.duration) setProgress(audio.currentTime / audio.duration);
+  };
+
+  const handleSeek = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    const audio = audioRef.current;
+    if (!audio || !audio.duration) return;
+    const bounds = event.currentTarget.getBoundingClientRect();
+    const fraction = (event.clientX - bounds.left) / bounds.width;
+    audio.currentTime = Math.min(Math.max(fraction, 0), 1) * audio.duration;
+    setProgress(audio.currentTime / audio.duration);
+  };
+
+  const info = analysis?.info ?? source.media;
+  const summary = info ? describeMediaInfo(info) : "";
+
+  return (
+    <div style={{ display: "flex", flexDirection: "column", gap: 8 }}>
+      {analysis?.peaks ? (
+        <canvas
+          ref={canvasRef}
+          style={{ width: "100%", height: WAVEFORM_HEIGHT, cursor: "pointer" }}
+          title="Click to seek"
+          onClick={handleSeek}
+        />
+      ) : (
+        <span style={{ fontSize: 13, color: "var(--muted)" }}>
+          {failed
+            ? "Could not decode this file for a waveform."
+            : analysis
+              ? "This file is too large to draw a waveform."
+              : "Drawing waveform…"}
+        </span>
+      )}
+      <audio
+        ref={audioRef}
+        controls
+        preload="metadata"
+        src={objectUrl}
+        style={{ width: "100%" }}
+        onLoadedMetadata={handleLoadedMetadata}
+        onTimeUpdate={handleTimeUpdate}
+      />
+      {summary ? <span style={{ fontSize: 13, color: "var(--muted)" }}>{summary}</span> : null}
+    </div>
+  );
+}
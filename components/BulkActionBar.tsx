@@ -0,0 +1,319 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import type { SourceCategory } from "@/lib/sources";
+import {
+  Collection,
+  buildCollectionTree,
+  flattenCollectionTree
+} from "@/lib/collections";
+
+type BulkActionBarProps = {
+  count: number;
+  filteredCount: number;
+  allFilteredSelected: boolean;
+  categories: { key: SourceCategory; label: string }[];
+  collections: Collection[];
+  tagSuggestions: string[];
+  // Tags carried by at least one selected source.
+  selectionTags: string[];
+  busy: boolean;
+  onSelectAll: () => void;
+  onClear: () => void;
+  onAddTag: (tag: string) => void;
+  onRemoveTag: (tag: string) => void;
+  onSetCategory: (category: SourceCategory) => void;
+  onMoveToCollection: (collectionId: string | null) => void;
+  onTrash: () => void;
+  onDelete: () => void;
+  onExport: () => void;
+  onDownload: () => void;
+};
+
+// Ignore shortcuts while the user is typing somewhere.
+function isEditableTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return (
+    target.isContentEditable ||
+    target.tagName === "INPUT" ||
+    target.tagName === "TEXTAREA" ||
+    target.tagName === "SELECT"
+  );
+}
+
+export default function BulkActionBar({
+  count,
+  filteredCount,
+  allFilteredSelected,
+  categories,
+  collections,
+  tagSuggestions,
+  selectionTags,
+  busy,
+  onSelectAll,
+  onClear,
+  onAddTag,
+  onRemoveTag,
+  onSetCategory,
+  onMoveToCollection,
+  onTrash,
+  onDelete,
+  onExport,
+  onDownload
+}: BulkActionBarProps) {
+  const [tagDraft, setTagDraft] = useState("");
+  const tagInputRef = useRef<HTMLInputElement | null>(null);
+  const categoryRef = useRef<HTMLSelectElement | null>(null);
+  const collectionRef = useRef<HTMLSelectElement | null>(null);
+
+  const flatCollections = useMemo(
+    () => flattenCollectionTree(buildCollectionTree(collections)),
+    [collections]
+  );
+
+  const confirmDelete = () => {
+    if (
+      window.confirm(
+        `Permanently delete ${count} source${count === 1 ? "" : "s"} and their files?`
+      )
+    ) {
+      onDelete();
+    }
+  };
+
+  // Latest handlers for the window listener, which is only attached once.
+  const handlersRef = useRef({ busy, onClear, onTrash, onExport, onDownload, confirmDelete });
+  handlersRef.current = { busy, onClear, onTrash, onExport, onDownload, confirmDelete };
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.defaultPrevented || isEditableTarget(event.target)) return;
+      if (event.ctrlKey || event.metaKey || event.altKey) return;
+      const handlers = handlersRef.current;
+      if (handlers.busy && event.key !== "Escape") return;
+      switch (event.key) {
+        case "Escape":
+          handlers.onClear();
+          break;
+        case "Delete":
+        case "Backspace":
+          if (event.shiftKey) {
+            handlers.confirmDelete();
+          } else {
+            handlers.onTrash();
+          }
+          break;
+        case "t":
+          tagInputRef.current?.focus();
+          break;
+        case "c":
+          categoryRef.current?.focus();
+          break;
+        case "m":
+          collectionRef.current?.focus();
+          break;
+        case "e":
+          handlers.onExport();
+          break;
+        case "d":
+          handlers.onDownload();
+          break;
+        default:
+          return;
+      }
+      event.preventDefault();
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, []);
+
+  const submitTag = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const tag = tagDraft.trim();
+    if (!tag) return;
+    onAddTag(tag);
+    setTagDraft("");
+  };
+
+  return (
+    <div
+      className="card"
+      style={{
+        position: "sticky",
+        top: 12,
+        zIndex: 5,
+        display: "flex",
+        flexDirection: "column",
+        gap: 12,
+        borderColor: "rgba(37,99,235,0.5)"
+      }}
+    >
+      <div
+        style={{
+          display: "flex",
+          justifyContent: "space-between",
+          alignItems: "center",
+          gap: 12
+        }}
+      >
+        <strong>
+          {count} selected
+          {filteredCount ? (
+            <span style={{ fontWeight: 400, color: "var(--muted)" }}>
+              {" "}
+              of {filteredCount} shown
+            </span>
+          ) : null}
+        </strong>
+        <div className="inline-actions">
+          {!allFilteredSelected && filteredCount ? (
+            <button
+              type="button"
+              className="button button-secondary"
+              style={{ padding: "6px 12px" }}
+              title="Ctrl+A"
+              onClick={onSelectAll}
+            >
+              Select all {filteredCount}
+            </button>
+          ) : null}
+          <button
+            type="button"
+            className="button button-secondary"
+            style={{ padding: "6px 12px" }}
+            title="Esc"
+            onClick={onClear}
+          >
+            Clear
+          </button>
+        </div>
+      </div>
+
+      <div className="inline-actions" style={{ fontSize: 13 }}>
+        <form style={{ display: "flex", gap: 6 }} onSubmit={submitTag}>
+          <input
+            ref={tagInputRef}
+            className="input"
+            style={{ width: 140, padding: "6px 10px" }}
+            placeholder="Add tag (t)"
+            list="bulk-tag-suggestions"
+            value={tagDraft}
+            onChange={(event) => setTagDraft(event.target.value)}
+            disabled={busy}
+          />
+          <datalist id="bulk-tag-suggestions">
+            {tagSuggestions.map((tag) => (
+              <option key={tag} value={tag} />
+            ))}
+          </datalist>
+          <button
+            type="submit"
+            className="button button-secondary"
+            style={{ padding: "6px 12px" }}
+            disabled={busy || !tagDraft.trim()}
+          >
+            Add
+          </button>
+        </form>
+        {selectionTags.length ? (
+          <select
+            className="input"
+            style={{ width: "auto", padding: "6px 10px" }}
+            value=""
+            disabled={busy}
+            onChange={(event) => {
+              if (event.target.value) onRemoveTag(event.target.value);
+            }}
+          >
+            <option value="">Remove tag…</option>
+            {selectionTags.map((tag) => (
+              <option key={tag} value={tag}>
+                #{tag}
+              </option>
+            ))}
+          </select>
+        ) : null}
+        <select
+          ref={categoryRef}
+          className="input"
+          style={{ width: "auto", padding: "6px 10px" }}
+          value=""
+          disabled={busy}
+          onChange={(event) => {
+            if (event.target.value) onSetCategory(event.target.value as SourceCategory);
+          }}
+        >
+          <option value="">Set category… (c)</option>
+          {categories.map((option) => (
+            <option key={option.key} value={option.key}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <select
+          ref={collectionRef}
+          className="input"
+          style={{ width: "auto", padding: "6px 10px" }}
+          value=""
+          disabled={busy}
+          onChange={(event) => {
+            const { value } = event.target;
+            if (value) onMoveToCollection(value === "__none__" ? null : value);
+          }}
+        >
+          <option value="">Move to… (m)</option>
+          <option value="__none__">No collection</option>
+          {flatCollections.map((collection) => (
+            <option key={collection.id} value={collection.id}>
+              {"  ".repeat(collection.depth)}
+              {collection.name}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="inline-actions">
+        <button
+          type="button"
+          className="button button-secondary"
+          style={{ padding: "6px 12px" }}
+          title="e"
+          disabled={busy}
+          onClick={onExport}
+        >
+          Export archive
+        </button>
+        <button
+          type="button"
+          className="button button-secondary"
+          style={{ padding: "6px 12px" }}
+          title="d"
+          disabled={busy}
+          onClick={onDownload}
+        >
+          Download files
+        </button>
+        <button
+          type="button"
+          className="button button-secondary"
+          style={{ padding: "6px 12px", color: "var(--danger)" }}
+          title="Delete"
+          disabled={busy}
+          onClick={onTrash}
+        >
+          Move to Trash
+        </button>
+        <button
+          type="button"
+          className="button button-secondary"
+          style={{ padding: "6px 12px", color: "var(--danger)" }}
+          title="Shift+Delete"
+          disabled={busy}
+          onClick={confirmDelete}
+        >
+          Delete forever
+        </button>
+      </div>
+    </div>
+  );
+}
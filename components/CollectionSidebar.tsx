@@ -0,0 +1,190 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import {
+  Collection,
+  SOURCE_DRAG_TYPE,
+  buildCollectionTree,
+  flattenCollectionTree
+} from "@/lib/collections";
+
+type CollectionSidebarProps = {
+  collections: Collection[];
+  activeId: string | null;
+  counts: Record<string, number>;
+  busy: boolean;
+  onSelect: (id: string | null) => void;
+  onCreate: (name: string, parentId?: string) => void;
+  onDelete: (collection: Collection) => void;
+  onDropSources: (collectionId: string, sourceIds: string[]) => void;
+  onSend: (collection: Collection) => void;
+};
+
+export default function CollectionSidebar({
+  collections,
+  activeId,
+  counts,
+  busy,
+  onSelect,
+  onCreate,
+  onDelete,
+  onDropSources,
+  onSend
+}: CollectionSidebarProps) {
+  const [draftName, setDraftName] = useState<string | null>(null);
+  const [draftParentId, setDraftParentId] = useState<string | undefined>();
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null);
+  const rows = useMemo(
+    () => flattenCollectionTree(buildCollectionTree(collections)),
+    [collections]
+  );
+
+  const startDraft = (parentId?: string) => {
+    setDraftParentId(parentId);
+    setDraftName("");
+  };
+
+  const handleSubmit = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!draftName?.trim()) return;
+    onCreate(draftName.trim(), draftParentId);
+    setDraftName(null);
+  };
+
+  const handleDrop = (event: React.DragEvent<HTMLDivElement>, collectionId: string) => {
+    event.preventDefault();
+    setDropTargetId(null);
+    const raw = event.dataTransfer.getData(SOURCE_DRAG_TYPE);
+    if (!raw) return;
+    try {
+      const ids = JSON.parse(raw);
+      if (Array.isArray(ids)) onDropSources(collectionId, ids.map(String));
+    } catch (error) {
+      console.error("Ignoring malformed drop payload", error);
+    }
+  };
+
+  return (
+    <div className="card" style={{ display: "flex", flexDirection: "column", gap: 12 }}>
+      <div
+        style={{
+          display: "flex",
+          justifyContent: "space-between",
+          alignItems: "center"
+        }}
+      >
+        <h2 style={{ margin: 0, fontSize: 20 }}>Collections</h2>
+        <button
+          type="button"
+          className="button button-secondary"
+          style={{ padding: "6px 12px" }}
+          onClick={() => startDraft()}
+        >
+          New collection
+        </button>
+      </div>
+
+      <button
+        type="button"
+        className={`collection-row${activeId === null ? " active" : ""}`}
+        onClick={() => onSelect(null)}
+      >
+        All sources
+      </button>
+
+      {rows.map((collection) => (
+        <div
+          key={collection.id}
+          className={`collection-row${activeId === collection.id ? " active" : ""}${
+            dropTargetId === collection.id ? " drop-target" : ""
+          }`}
+          style={{ paddingLeft: 12 + collection.depth * 18 }}
+          onClick={() => onSelect(collection.id)}
+          onDragOver={(event) => {
+            if (!event.dataTransfer.types.includes(SOURCE_DRAG_TYPE)) return;
+            event.preventDefault();
+            setDropTargetId(collection.id);
+          }}
+          onDragLeave={() => setDropTargetId(null)}
+          onDrop={(event) => handleDrop(event, collection.id)}
+        >
+          <span style={{ flex: 1 }}>
+            {collection.depth > 0 ? "↳ " : ""}
+            {collection.name}
+          </span>
+          <span style={{ fontSize: 12, color: "var(--muted)" }}>
+            {counts[collection.id] ?? 0}
+          </span>
+          <span className="source-actions" style={{ gap: 4 }}>
+            <button
+              type="button"
+              className="collection-action"
+              title="Send collection to assistant"
+              disabled={busy || !counts[collection.id]}
+              onClick={(event) => {
+                event.stopPropagation();
+                onSend(collection);
+              }}
+            >
+              ⇪
+            </button>
+            <button
+              type="button"
+              className="collection-action"
+              title="Add nested collection"
+              onClick={(event) => {
+                event.stopPropagation();
+                startDraft(collection.id);
+              }}
+            >
+              +
+            </button>
+            <button
+              type="button"
+              className="collection-action"
+              title="Delete collection"
+              onClick={(event) => {
+                event.stopPropagation();
+                onDelete(collection);
+              }}
+            >
+              ×
+            </button>
+          </span>
+        </div>
+      ))}
+
+      {draftName !== null ? (
+        <form style={{ display: "flex", gap: 8 }} onSubmit={handleSubmit}>
+          <input
+            className="input"
+            placeholder={
+              draftParentId
+                ? `Inside ${collections.find((item) => item.id === draftParentId)?.name ?? ""}`
+                : "Collection name"
+            }
+            value={draftName}
+            onChange={(event) => setDraftName(event.target.value)}
+            autoFocus
+          />
+          <button className="button button-primary" type="submit">
+            Add
+          </button>
+          <button
+            className="button button-secondary"
+            type="button"
+            onClick={() => setDraftName(null)}
+          >
+            Cancel
+          </button>
+        </form>
+      ) : null}
+
+      {collections.length === 0 && draftName === null ? (
+        <p style={{ margin: 0, fontSize: 13, color: "var(--muted)" }}>
+          Create a collection, then drag sources onto it.
+        </p>
+      ) : null}
+    </div>
+  );
+}
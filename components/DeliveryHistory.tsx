@@ -0,0 +1,183 @@
+"use client";
+
+import { useState } from "react";
+import type { SourceRecord } from "@/lib/sources";
+import { OutboxEntry, OutboxStatus, pendingSourceIds } from "@/lib/outbox";
+
+type DeliveryHistoryProps = {
+  entries: OutboxEntry[];
+  sources: SourceRecord[];
+  busy: boolean;
+  onResend: (entry: OutboxEntry) => void;
+  onRetryNow: (entry: OutboxEntry) => void;
+};
+
+const STATUS_LABELS: Record<OutboxStatus, string> = {
+  pending: "Pending",
+  delivered: "Delivered",
+  failed: "Retrying",
+  abandoned: "Failed"
+};
+
+const STATUS_COLORS: Record<OutboxStatus, string> = {
+  pending: "rgb(37,99,235)",
+  delivered: "rgb(22,163,74)",
+  failed: "rgb(217,119,6)",
+  abandoned: "rgb(220,38,38)"
+};
+
+export default function DeliveryHistory({
+  entries,
+  sources,
+  busy,
+  onResend,
+  onRetryNow
+}: DeliveryHistoryProps) {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const sourceName = (id: string) =>
+    sources.find((source) => source.id === id)?.name ?? "Removed source";
+
+  return (
+    <div className="card" style={{ display: "flex", flexDirection: "column", gap: 16 }}>
+      <h3 style={{ margin: 0, fontSize: 18 }}>Delivery history</h3>
+      {entries.length === 0 ? (
+        <p style={{ margin: 0, fontSize: 13, color: "var(--muted)" }}>
+          Batches you send will be logged here and retried if they fail.
+        </p>
+      ) : (
+        <div style={{ display: "flex", flexDirection: "column", gap: 12 }}>
+          {entries.map((entry) => {
+            const lastAttempt = entry.attempts[entry.attempts.length - 1];
+            const pending = pendingSourceIds(entry).length;
+            const isExpanded = expandedId === entry.id;
+            return (
+              <div
+                key={entry.id}
+                style={{
+                  display: "flex",
+                  flexDirection: "column",
+                  gap: 8,
+                  paddingBottom: 12,
+                  borderBottom: "1px solid var(--border)"
+                }}
+              >
+                <div
+                  style={{
+                    display: "flex",
+                    justifyContent: "space-between",
+                    alignItems: "center",
+                    gap: 8
+                  }}
+                >
+                  <button
+                    type="button"
+                    onClick={() => setExpandedId(isExpanded ? null : entry.id)}
+                    style={{
+                      background: "none",
+                      border: "none",
+                      padding: 0,
+                      cursor: "pointer",
+                      textAlign: "left",
+                      display: "flex",
+                      flexDirection: "column",
+                      gap: 4
+                    }}
+                  >
+                    <span style={{ fontSize: 14, fontWeight: 600 }}>
+                      {entry.sourceIds.length} source
+                      {entry.sourceIds.length === 1 ? "" : "s"} ·{" "}
+                      {new Date(entry.createdAt).toLocaleString()}
+                    </span>
+                    <span style={{ fontSize: 12, color: "var(--muted)" }}>
+                      {entry.endpoint}
+                    </span>
+                  </button>
+                  <span
+                    className="pill"
+                    style={{ color: STATUS_COLORS[entry.status], whiteSpace: "nowrap" }}
+                  >
+                    {STATUS_LABELS[entry.status]}
+                    {lastAttempt?.status ? ` · ${lastAttempt.status}` : ""}
+                  </span>
+                </div>
+
+                {entry.status === "failed" && entry.nextAttemptAt ? (
+                  <span style={{ fontSize: 12, color: "var(--muted)" }}>
+                    {pending} pending · next retry{" "}
+                    {new Date(entry.nextAttemptAt).toLocaleTimeString()}
+                  </span>
+                ) : null}
+
+                <div className="inline-actions">
+                  {entry.status === "failed" || entry.status === "abandoned" ? (
+                    <button
+                      type="button"
+                      className="button button-secondary"
+                      style={{ padding: "4px 10px", fontSize: 12 }}
+                      onClick={() => onRetryNow(entry)}
+                      disabled={busy}
+                    >
+                      Retry now
+                    </button>
+                  ) : null}
+                  <button
+                    type="button"
+                    className="button button-secondary"
+                    style={{ padding: "4px 10px", fontSize: 12 }}
+                    onClick={() => onResend(entry)}
+                    disabled={busy}
+                  >
+                    Re-send batch
+                  </button>
+                </div>
+
+                {isExpanded ? (
+                  <div style={{ display: "flex", flexDirection: "column", gap: 8 }}>
+                    {entry.attempts.length === 0 ? (
+                      <span style={{ fontSize: 12, color: "var(--muted)" }}>
+                        No attempts recorded yet.
+                      </span>
+                    ) : (
+                      entry.attempts.map((attempt, index) => (
+                        <div
+                          key={`${attempt.sourceId}-${attempt.at}-${index}`}
+                          style={{ fontSize: 12, display: "flex", flexDirection: "column", gap: 4 }}
+                        >
+                          <span>
+                            <strong>{sourceName(attempt.sourceId)}</strong> ·{" "}
+                            {new Date(attempt.at).toLocaleTimeString()} ·{" "}
+                            {attempt.status ?? "no response"}
+                          </span>
+                          {attempt.error ? (
+                            <span style={{ color: "var(--danger)" }}>{attempt.error}</span>
+                          ) : null}
+                          {attempt.body ? (
+                            <pre
+                              style={{
+                                margin: 0,
+                                padding: 8,
+                                borderRadius: 8,
+                                backgroundColor: "var(--surface-elevated)",
+                                whiteSpace: "pre-wrap",
+                                wordBreak: "break-word",
+                                maxHeight: 120,
+                                overflowY: "auto"
+                              }}
+                            >
+                              {attempt.body}
+                            </pre>
+                          ) : null}
+                        </div>
+                      ))
+                    )}
+                  </div>
+                ) : null}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
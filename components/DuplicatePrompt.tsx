@@ -0,0 +1,85 @@
+"use client";
+
+import { useState } from "react";
+import type { SourceRecord } from "@/lib/sources";
+import type { DuplicateChoice } from "@/lib/dedup";
+
+type DuplicatePromptProps = {
+  file: File;
+  existing: SourceRecord;
+  // Files still waiting in the same batch.
+  remaining: number;
+  onAnswer: (choice: DuplicateChoice, applyToRest: boolean) => void;
+};
+
+export default function DuplicatePrompt({
+  file,
+  existing,
+  remaining,
+  onAnswer
+}: DuplicatePromptProps) {
+  const [applyToRest, setApplyToRest] = useState(false);
+
+  return (
+    <div
+      className="card"
+      role="alertdialog"
+      aria-label="Duplicate file"
+      style={{
+        display: "flex",
+        flexDirection: "column",
+        gap: 12,
+        borderColor: "rgba(234,179,8,0.6)",
+        backgroundColor: "rgba(254,252,232,0.8)"
+      }}
+    >
+      <strong>{`"${file.name}" is already in your library`}</strong>
+      <span style={{ fontSize: 13, color: "var(--muted)" }}>
+        {`Same content as "${existing.name}", added `}
+        {new Date(existing.createdAt).toLocaleString()}
+        {existing.deletedAt ? " (currently in Trash)" : ""}.
+      </span>
+      <div className="inline-actions">
+        <button
+          type="button"
+          className="button button-secondary"
+          onClick={() => onAnswer("skip", applyToRest)}
+          autoFocus
+        >
+          Skip
+        </button>
+        <button
+          type="button"
+          className="button button-secondary"
+          title="Add a second source that shares the stored file"
+          onClick={() => onAnswer("keep", applyToRest)}
+        >
+          Keep both
+        </button>
+        <button
+          type="button"
+          className="button button-primary"
+          title={
+            existing.deletedAt
+              ? "Restore the existing source and note this file name on it"
+              : "Note this file name on the existing source"
+          }
+          onClick={() => onAnswer("merge", applyToRest)}
+        >
+          Merge
+        </button>
+      </div>
+      {remaining > 0 ? (
+        <label style={{ display: "flex", alignItems: "center", gap: 8, fontSize: 13 }}>
+          <input
+            type="checkbox"
+            checked={applyToRest}
+            onChange={(event) => setApplyToRest(event.target.checked)}
+          />
+          Do the same for other duplicates in this batch ({remaining} file
+          {remaining === 1 ? "" : "s"} left)
+        </label>
+      ) : null}
+    </div>
+  );
+}
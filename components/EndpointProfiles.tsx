@@ -0,0 +1,316 @@
+"use client";
+
+import { useState } from "react";
+import {
+  EndpointHeader,
+  EndpointProfile,
+  createEndpointId
+} from "@/lib/endpoints";
+import { DEFAULT_PAYLOAD_FORMAT, listPayloadFormatters } from "@/lib/formatters";
+
+type EndpointProfilesProps = {
+  profiles: EndpointProfile[];
+  onSave: (profile: EndpointProfile) => Promise<void>;
+  onDelete: (profile: EndpointProfile) => Promise<void>;
+  onSetDefault: (profileId: string) => void;
+};
+
+function emptyProfile(isDefault: boolean): EndpointProfile {
+  return {
+    id: createEndpointId(),
+    name: "",
+    url: "",
+    headers: [],
+    isDefault
+  };
+}
+
+export default function EndpointProfiles({
+  profiles,
+  onSave,
+  onDelete,
+  onSetDefault
+}: EndpointProfilesProps) {
+  const [draft, setDraft] = useState<EndpointProfile | null>(null);
+  const [saving, setSaving] = useState(false);
+  const isExisting = draft ? profiles.some((profile) => profile.id === draft.id) : false;
+
+  const updateHeader = (index: number, patch: Partial<EndpointHeader>) => {
+    setDraft((state) =>
+      state
+        ? {
+            ...state,
+            headers: state.headers.map((header, position) =>
+              position === index ? { ...header, ...patch } : header
+            )
+          }
+        : state
+    );
+  };
+
+  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!draft || !draft.name.trim() || !draft.url.trim()) return;
+    const wasSigned = profiles.some((profile) => profile.id === draft.id && profile.signed);
+    if (draft.signed && !draft.signingSecret && !wasSigned) return;
+    setSaving(true);
+    try {
+      await onSave({
+        ...draft,
+        name: draft.name.trim(),
+        url: draft.url.trim(),
+        headers: draft.headers.filter((header) => header.name.trim())
+      });
+      setDraft(null);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div
+      className="card"
+      style={{ display: "flex", flexDirection: "column", gap: "14px" }}
+    >
+      <div
+        style={{
+          display: "flex",
+          justifyContent: "space-between",
+          alignItems: "center"
+        }}
+      >
+        <label style={{ fontWeight: 600, fontSize: 14 }}>Assistant endpoints</label>
+        {!draft ? (
+          <button
+            type="button"
+            className="button button-secondary"
+            style={{ padding: "6px 12px" }}
+            onClick={() => setDraft(emptyProfile(profiles.length === 0))}
+          >
+            Add endpoint
+          </button>
+        ) : null}
+      </div>
+
+      {profiles.length === 0 && !draft ? (
+        <p style={{ margin: 0, fontSize: 13, color: "var(--muted)" }}>
+          Add a staging, production or local endpoint to push sources to.
+        </p>
+      ) : null}
+
+      {profiles.map((profile) => (
+        <div
+          key={profile.id}
+          style={{
+            display: "flex",
+            justifyContent: "space-between",
+            alignItems: "center",
+            gap: 12
+          }}
+        >
+          <div style={{ display: "flex", flexDirection: "column", gap: 2 }}>
+            <span style={{ fontWeight: 600, fontSize: 14 }}>
+              {profile.name}
+              {profile.isDefault ? (
+                <span className="chip" style={{ marginLeft: 8 }}>
+                  Default
+                </span>
+              ) : null}
+            </span>
+            <span style={{ fontSize: 12, color: "var(--muted)" }}>
+              {profile.url}
+              {profile.signed ? " · signed" : ""}
+              {profile.headers.length
+                ? ` · ${profile.headers.length} header${
+                    profile.headers.length > 1 ? "s" : ""
+                  }`
+                : ""}
+            </span>
+          </div>
+          <div className="source-actions">
+            {!profile.isDefault ? (
+              <button
+                type="button"
+                className="button button-secondary"
+                style={{ padding: "6px 12px" }}
+                onClick={() => onSetDefault(profile.id)}
+              >
+                Make default
+              </button>
+            ) : null}
+            <button
+              type="button"
+              className="button button-secondary"
+              style={{ padding: "6px 12px" }}
+              onClick={() => setDraft(profile)}
+            >
+              Edit
+            </button>
+            <button
+              type="button"
+              className="button button-secondary"
+              style={{ padding: "6px 12px", color: "var(--danger)" }}
+              onClick={() => void onDelete(profile)}
+            >
+              Remove
+            </button>
+          </div>
+        </div>
+      ))}
+
+      {draft ? (
+        <form className="inline-form" onSubmit={handleSubmit}>
+          <input
+            className="input"
+            placeholder="Name (e.g. Staging agent)"
+            value={draft.name}
+            onChange={(event) => setDraft({ ...draft, name: event.target.value })}
+            required
+          />
+          <input
+            className="input"
+            placeholder="https://api.your-agent.com/sources"
+            value={draft.url}
+            onChange={(event) => setDraft({ ...draft, url: event.target.value })}
+            required
+          />
+          <select
+            className="input"
+            value={draft.format ?? DEFAULT_PAYLOAD_FORMAT}
+            onChange={(event) => setDraft({ ...draft, format: event.target.value })}
+          >
+            {listPayloadFormatters().map((formatter) => (
+              <option key={formatter.id} value={formatter.id}>
+                {formatter.label}
+              </option>
+            ))}
+          </select>
+          {draft.headers.map((header, index) => (
+            <div key={index} style={{ display: "flex", gap: 8, alignItems: "center" }}>
+              <input
+                className="input"
+                placeholder="Header"
+                value={header.name}
+                onChange={(event) => updateHeader(index, { name: event.target.value })}
+              />
+              <input
+                className="input"
+                type={header.secret ? "password" : "text"}
+                placeholder={
+                  header.secret && isExisting ? "•••••• (unchanged)" : "Value"
+                }
+                value={header.value}
+                onChange={(event) => updateHeader(index, { value: event.target.value })}
+              />
+              <label
+                style={{
+                  display: "flex",
+                  alignItems: "center",
+                  gap: 4,
+                  fontSize: 12,
+                  color: "var(--muted)"
+                }}
+              >
+                <input
+                  type="checkbox"
+                  checked={header.secret}
+                  onChange={(event) => updateHeader(index, { secret: event.target.checked })}
+                />
+                Secret
+              </label>
+              <button
+                type="button"
+                className="button button-secondary"
+                style={{ padding: "6px 10px" }}
+                onClick={() =>
+                  setDraft({
+                    ...draft,
+                    headers: draft.headers.filter((_, position) => position !== index)
+                  })
+                }
+              >
+                ×
+              </button>
+            </div>
+          ))}
+          <div className="inline-actions">
+            <button
+              type="button"
+              className="button button-secondary"
+              onClick={() =>
+                setDraft({
+                  ...draft,
+                  headers: [
+                    ...draft.headers,
+                    { name: "Authorization", value: "", secret: true }
+                  ]
+                })
+              }
+            >
+              Add header
+            </button>
+            <label
+              style={{
+                display: "flex",
+                alignItems: "center",
+                gap: 6,
+                fontSize: 13
+              }}
+            >
+              <input
+                type="checkbox"
+                checked={draft.isDefault}
+                onChange={(event) => setDraft({ ...draft, isDefault: event.target.checked })}
+              />
+              Default endpoint
+            </label>
+            <label
+              style={{
+                display: "flex",
+                alignItems: "center",
+                gap: 6,
+                fontSize: 13
+              }}
+            >
+              <input
+                type="checkbox"
+                checked={Boolean(draft.signed)}
+                onChange={(event) => setDraft({ ...draft, signed: event.target.checked })}
+              />
+              Sign requests (HMAC-SHA256)
+            </label>
+          </div>
+          {draft.signed ? (
+            <input
+              className="input"
+              type="password"
+              placeholder={
+                isExisting && profiles.find((profile) => profile.id === draft.id)?.signed
+                  ? "•••••• (unchanged)"
+                  : "Shared signing secret"
+              }
+              value={draft.signingSecret ?? ""}
+              onChange={(event) => setDraft({ ...draft, signingSecret: event.target.value })}
+            />
+          ) : null}
+          <p style={{ margin: 0, fontSize: 12, color: "var(--muted)" }}>
+            Secret header values and the signing secret are encrypted in this
+            browser and never written to localStorage.
+          </p>
+          <div className="inline-actions">
+            <button className="button button-primary" type="submit" disabled={saving}>
+              {saving ? "Saving…" : "Save endpoint"}
+            </button>
+            <button
+              className="button button-secondary"
+              type="button"
+              onClick={() => setDraft(null)}
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      ) : null}
+    </div>
+  );
+}
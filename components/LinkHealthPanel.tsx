@@ -0,0 +1,96 @@
+"use client";
+
+import type { SourceRecord } from "@/lib/sources";
+import { LINK_CHECK_INTERVAL_OPTIONS, LinkHealth, linkHealth } from "@/lib/linkHealth";
+
+type LinkHealthPanelProps = {
+  // Live URL sources only.
+  sources: SourceRecord[];
+  intervalHours: number;
+  // URLs checked so far in the running check, if any.
+  progress: { done: number; total: number } | null;
+  onCheckAll: () => void;
+  onIntervalChange: (hours: number) => void;
+};
+
+const HEALTH_LABELS: Record<LinkHealth, string> = {
+  ok: "OK",
+  changed: "Changed",
+  broken: "Broken",
+  unchecked: "Not checked"
+};
+
+function intervalLabel(hours: number): string {
+  if (hours === 0) return "Never";
+  if (hours === 168) return "Weekly";
+  if (hours === 24) return "Daily";
+  return `Every ${hours} hours`;
+}
+
+export default function LinkHealthPanel({
+  sources,
+  intervalHours,
+  progress,
+  onCheckAll,
+  onIntervalChange
+}: LinkHealthPanelProps) {
+  const counts: Record<LinkHealth, number> = { ok: 0, changed: 0, broken: 0, unchecked: 0 };
+  sources.forEach((source) => {
+    counts[linkHealth(source)] += 1;
+  });
+
+  return (
+    <div className="card" style={{ display: "flex", flexDirection: "column", gap: 14 }}>
+      <div
+        style={{
+          display: "flex",
+          justifyContent: "space-between",
+          alignItems: "center"
+        }}
+      >
+        <h2 style={{ margin: 0, fontSize: 20 }}>Link health</h2>
+        <button
+          type="button"
+          className="button button-secondary"
+          style={{ padding: "6px 12px" }}
+          disabled={progress !== null || !sources.length}
+          onClick={onCheckAll}
+        >
+          {progress ? `Checking ${progress.done}/${progress.total}…` : "Check all links"}
+        </button>
+      </div>
+
+      {sources.length ? (
+        <div className="chip-row">
+          {(Object.keys(HEALTH_LABELS) as LinkHealth[])
+            .filter((health) => counts[health])
+            .map((health) => (
+              <span key={health} className={`link-badge ${health}`}>
+                {HEALTH_LABELS[health]}: {counts[health]}
+              </span>
+            ))}
+        </div>
+      ) : (
+        <p style={{ margin: 0, fontSize: 13, color: "var(--muted)" }}>
+          Linked remote sources are checked here for dead or moved URLs.
+        </p>
+      )}
+
+      <label style={{ display: "flex", alignItems: "center", gap: 8, fontSize: 13 }}>
+        Recheck links
+        <select
+          className="input"
+          style={{ width: "auto", padding: "6px 10px" }}
+          value={intervalHours}
+          onChange={(event) => onIntervalChange(Number(event.target.value))}
+        >
+          {LINK_CHECK_INTERVAL_OPTIONS.map((hours) => (
+            <option key={hours} value={hours}>
+              {intervalLabel(hours)}
+            </option>
+          ))}
+        </select>
+      </label>
+    </div>
+  );
+}
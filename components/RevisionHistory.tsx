@@ -0,0 +1,224 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import type { SourceRecord } from "@/lib/sources";
+import { diffLines } from "@/lib/diff";
+import {
+  RetentionPolicy,
+  Revision,
+  RevisionField,
+  metadataOf,
+  textAtRevision
+} from "@/lib/revisions";
+
+type RevisionHistoryProps = {
+  source: SourceRecord;
+  currentText?: string;
+  revisions: Revision[];
+  retention: RetentionPolicy;
+  busy: boolean;
+  onRestore: (revision: Revision, text?: string) => void;
+  onRetentionChange: (policy: RetentionPolicy) => void;
+};
+
+const FIELD_LABELS: Record<RevisionField, string> = {
+  name: "Name",
+  description: "Description",
+  tags: "Tags",
+  text: "Text"
+};
+
+export default function RevisionHistory({
+  source,
+  currentText,
+  revisions,
+  retention,
+  busy,
+  onRestore,
+  onRetentionChange
+}: RevisionHistoryProps) {
+  const [selectedRevisionId, setSelectedRevisionId] = useState<string | null>(null);
+  // Edited locally and applied explicitly, since lowering a limit deletes history.
+  const [retentionDraft, setRetentionDraft] = useState(retention);
+  const selectedIndex = revisions.findIndex((revision) => revision.id === selectedRevisionId);
+  const selectedRevision = selectedIndex >= 0 ? revisions[selectedIndex] : undefined;
+  const isNote = currentText !== undefined;
+
+  const revisionText =
+    selectedRevision && isNote
+      ? textAtRevision(revisions, selectedIndex, currentText ?? "")
+      : undefined;
+
+  const rows = useMemo(
+    () =>
+      revisionText !== undefined && revisionText !== currentText
+        ? diffLines(revisionText, currentText ?? "")
+        : [],
+    [revisionText, currentText]
+  );
+
+  const current = metadataOf(source);
+
+  return (
+    <div style={{ display: "flex", flexDirection: "column", gap: 14 }}>
+      {revisions.length === 0 ? (
+        <p style={{ margin: 0, fontSize: 13, color: "var(--muted)" }}>
+          No earlier versions yet. Edits to the name, description, tags or note
+          text are recorded here.
+        </p>
+      ) : (
+        <div style={{ display: "flex", flexDirection: "column", gap: 6 }}>
+          {revisions.map((revision) => (
+            <button
+              key={revision.id}
+              type="button"
+              className={`collection-row${revision.id === selectedRevisionId ? " active" : ""}`}
+              onClick={() =>
+                setSelectedRevisionId(revision.id === selectedRevisionId ? null : revision.id)
+              }
+            >
+              <span style={{ flex: 1, textAlign: "left" }}>
+                {new Date(revision.createdAt).toLocaleString()}
+              </span>
+              <span style={{ fontSize: 12, color: "var(--muted)" }}>
+                {revision.changed.map((field) => FIELD_LABELS[field]).join(", ")}
+              </span>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {selectedRevision ? (
+        <div style={{ display: "flex", flexDirection: "column", gap: 12 }}>
+          <div className="diff-grid">
+            <div className="diff-heading">This version</div>
+            <div className="diff-heading">Current</div>
+            {(["name", "description", "tags"] as const).map((field) => {
+              const before =
+                field === "tags"
+                  ? selectedRevision.metadata.tags.map((tag) => `#${tag}`).join(" ")
+                  : selectedRevision.metadata[field] ?? "";
+              const after =
+                field === "tags"
+                  ? current.tags.map((tag) => `#${tag}`).join(" ")
+                  : current[field] ?? "";
+              const type = before === after ? "" : " changed";
+              return [
+                <div key={`${field}-before`} className={`diff-cell${type}`}>
+                  <span className="diff-label">{FIELD_LABELS[field]}</span>
+                  {before || "—"}
+                </div>,
+                <div key={`${field}-after`} className={`diff-cell${type}`}>
+                  <span className="diff-label">{FIELD_LABELS[field]}</span>
+                  {after || "—"}
+                </div>
+              ];
+            })}
+          </div>
+
+          {isNote ? (
+            rows.length ? (
+              <div className="diff-grid diff-text">
+                {rows.map((row, index) => [
+                  <div
+                    key={`${index}-left`}
+                    className={`diff-cell ${row.type === "added" ? "empty" : row.type}`}
+                  >
+                    {"left" in row ? (
+                      <>
+                        <span className="diff-number">{row.left.number}</span>
+                        {row.left.text}
+                      </>
+                    ) : null}
+                  </div>,
+                  <div
+                    key={`${index}-right`}
+                    className={`diff-cell ${row.type === "removed" ? "empty" : row.type}`}
+                  >
+                    {"right" in row ? (
+                      <>
+                        <span className="diff-number">{row.right.number}</span>
+                        {row.right.text}
+                      </>
+                    ) : null}
+                  </div>
+                ])}
+              </div>
+            ) : (
+              <p style={{ margin: 0, fontSize: 13, color: "var(--muted)" }}>
+                The note text is the same as the current version.
+              </p>
+            )
+          ) : null}
+
+          <button
+            type="button"
+            className="button button-primary"
+            disabled={busy}
+            onClick={() => onRestore(selectedRevision, revisionText)}
+          >
+            Restore this version
+          </button>
+        </div>
+      ) : null}
+
+      <details>
+        <summary style={{ cursor: "pointer", fontSize: 13, color: "var(--muted)" }}>
+          Retention
+        </summary>
+        <div className="inline-actions" style={{ marginTop: 10, fontSize: 13 }}>
+          <label style={{ display: "flex", alignItems: "center", gap: 6 }}>
+            Keep last
+            <input
+              className="input"
+              type="number"
+              min={0}
+              style={{ width: 80, padding: "6px 8px" }}
+              value={retentionDraft.maxRevisions}
+              onChange={(event) =>
+                setRetentionDraft((prev) => ({
+                  ...prev,
+                  maxRevisions: Math.max(0, Number(event.target.value) || 0)
+                }))
+              }
+            />
+            versions
+          </label>
+          <label style={{ display: "flex", alignItems: "center", gap: 6 }}>
+            for
+            <input
+              className="input"
+              type="number"
+              min={0}
+              style={{ width: 80, padding: "6px 8px" }}
+              value={retentionDraft.maxAgeDays}
+              onChange={(event) =>
+                setRetentionDraft((prev) => ({
+                  ...prev,
+                  maxAgeDays: Math.max(0, Number(event.target.value) || 0)
+                }))
+              }
+            />
+            days
+          </label>
+          <button
+            type="button"
+            className="button button-secondary"
+            style={{ padding: "6px 12px" }}
+            disabled={
+              busy ||
+              (retentionDraft.maxRevisions === retention.maxRevisions &&
+                retentionDraft.maxAgeDays === retention.maxAgeDays)
+            }
+            onClick={() => onRetentionChange(retentionDraft)}
+          >
+            Apply
+          </button>
+        </div>
+        <p style={{ margin: "8px 0 0", fontSize: 12, color: "var(--muted)" }}>
+          Use 0 for no limit. Versions outside these limits are deleted.
+        </p>
+      </details>
+    </div>
+  );
+}
@@ -0,0 +1,100 @@
+"use client";
+
+import { useState } from "react";
+import type { SourceRecord } from "@/lib/sources";
+import TagEditor from "@/components/TagEditor";
+
+export type SourceEdit = {
+  name: string;
+  description: string;
+  tags: string[];
+  // Only set for text notes.
+  text?: string;
+};
+
+type SourceEditorProps = {
+  source: SourceRecord;
+  text?: string;
+  tagSuggestions: string[];
+  saving: boolean;
+  onSave: (edit: SourceEdit) => void;
+  onCancel: () => void;
+};
+
+export default function SourceEditor({
+  source,
+  text,
+  tagSuggestions,
+  saving,
+  onSave,
+  onCancel
+}: SourceEditorProps) {
+  const isNote = source.kind === "text" && Boolean(source.textKey);
+  const [draft, setDraft] = useState<SourceEdit>({
+    name: source.name,
+    description: source.description ?? "",
+    tags: source.tags,
+    text: isNote ? text ?? "" : undefined
+  });
+
+  const handleSubmit = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!draft.name.trim()) return;
+    if (isNote && !draft.text?.trim()) return;
+    onSave({
+      name: draft.name.trim(),
+      description: draft.description.trim(),
+      tags: draft.tags,
+      text: isNote ? draft.text?.trim() : undefined
+    });
+  };
+
+  return (
+    <form className="inline-form" onSubmit={handleSubmit}>
+      <input
+        className="input"
+        placeholder="Name"
+        value={draft.name}
+        onChange={(event) => setDraft((prev) => ({ ...prev, name: event.target.value }))}
+        required
+      />
+      <textarea
+        className="textarea"
+        placeholder="Description"
+        rows={3}
+        value={draft.description}
+        onChange={(event) =>
+          setDraft((prev) => ({ ...prev, description: event.target.value }))
+        }
+      />
+      <TagEditor
+        tags={draft.tags}
+        suggestions={tagSuggestions}
+        onChange={(tags) => setDraft((prev) => ({ ...prev, tags }))}
+      />
+      {isNote ? (
+        <textarea
+          className="textarea"
+          placeholder="Note text"
+          rows={8}
+          value={draft.text}
+          onChange={(event) => setDraft((prev) => ({ ...prev, text: event.target.value }))}
+          required
+        />
+      ) : null}
+      <div className="inline-actions">
+        <button className="button button-primary" type="submit" disabled={saving}>
+          {saving ? "Saving…" : "Save changes"}
+        </button>
+        <button
+          className="button button-secondary"
+          type="button"
+          onClick={onCancel}
+          disabled={saving}
+        >
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
+}
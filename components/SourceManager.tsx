@@ -2,56 +2,210 @@
 
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import {
+  MediaInfo,
   SourceCategory,
   SourceRecord,
+  StorageMode,
+  SyncStatus,
+  contentBlobKey,
   createSourceId,
   deleteBlob,
   detectCategory,
   detectCategoryFromUrl,
-  loadSources,
+  formatBytes,
+  getSourceStore,
+  loadStorageMode,
+  localSourceStore,
   persistBlob,
-  persistSources,
-  readBlob
+  persistStorageMode,
+  readBlob,
+  setSourceStore,
+  sourceBlobKeys
 } from "@/lib/sources";
+import { createServerSourceStore } from "@/lib/serverSourceStore";
+import {
+  UploadBatch,
+  UploadProgress,
+  createUploadBatch,
+  isBatchFormat,
+  uploadBatchRequest,
+  uploadSource
+} from "@/lib/assistantTransport";
+import {
+  OutboxEntry,
+  createOutboxEntry,
+  isRetryDue,
+  loadOutbox,
+  pendingSourceIds,
+  persistOutbox,
+  recordDeliveryAttempt,
+  settleOutboxEntry
+} from "@/lib/outbox";
+import {
+  EndpointProfile,
+  deleteProfileSecrets,
+  getDefaultProfile,
+  loadEndpointProfiles,
+  persistEndpointProfiles,
+  resolveProfileHeaders,
+  resolveSigningSecret,
+  saveProfileSecrets
+} from "@/lib/endpoints";
+import {
+  SnippetSegment,
+  buildSnippets,
+  extractText,
+  indexSourceText,
+  readIndexedText,
+  removeSourceText,
+  searchIndex
+} from "@/lib/textIndex";
+import { collectTextTerms, evaluateQuery, parseQuery } from "@/lib/query";
+import {
+  SmartCollection,
+  createSmartCollectionId,
+  loadSmartCollections,
+  persistSmartCollections
+} from "@/lib/smartCollections";
+import {
+  StoredEmbedding,
+  embedSource,
+  embedText,
+  embeddingSignature,
+  loadEmbeddings,
+  rankBySimilarity,
+  removeEmbedding
+} from "@/lib/embeddings";
+import {
+  Collection,
+  SOURCE_DRAG_TYPE,
+  addToCollection,
+  collectionSubtree,
+  createCollectionId,
+  isInCollection,
+  moveToCollection,
+  loadCollections,
+  persistCollections,
+  removeFromCollection
+} from "@/lib/collections";
+import {
+  ImportMode,
+  WorkspaceArchive,
+  exportSourceFiles,
+  exportWorkspace,
+  importWorkspace
+} from "@/lib/workspace";
+import CollectionSidebar from "@/components/CollectionSidebar";
+import WorkspaceTransfer from "@/components/WorkspaceTransfer";
+import SourceEditor, { SourceEdit } from "@/components/SourceEditor";
+import RevisionHistory from "@/components/RevisionHistory";
+import TrashPanel from "@/components/TrashPanel";
+import BulkActionBar from "@/components/BulkActionBar";
+import StorageDashboard from "@/components/StorageDashboard";
+import { checkIngest } from "@/lib/quota";
+import DuplicatePrompt from "@/components/DuplicatePrompt";
+import SourceThumbnail from "@/components/SourceThumbnail";
+import { deleteThumbnail, ensureThumbnail, thumbnailKey } from "@/lib/thumbnails";
+import { PreviewCache, PreviewEntry, createPreviewCache } from "@/lib/previewCache";
+import VirtualList from "@/components/VirtualList";
+import { fetchSnapshot, storeSnapshot } from "@/lib/snapshot";
+import { detectFileType } from "@/lib/mime";
+import LinkHealthPanel from "@/components/LinkHealthPanel";
+import AudioPreview from "@/components/AudioPreview";
+import TranscriptionPanel from "@/components/TranscriptionPanel";
+import VideoPreview from "@/components/VideoPreview";
+import { analyzeAudio, formatDuration } from "@/lib/audio";
+import { baseName, formatTimestamp, probeVideo } from "@/lib/video";
+import {
+  TranscriptionError,
+  TranscriptionSettings,
+  canTranscribe,
+  createTranscriptSource,
+  getTranscriptionProvider
+} from "@/lib/transcription";
+import {
+  LinkCheckResult,
+  applyLinkCheck,
+  checkLinks,
+  describeLinkCheck,
+  isCheckableLink,
+  isLinkCheckDue,
+  linkHealth,
+  loadLinkCheckIntervalHours,
+  persistLinkCheckIntervalHours
+} from "@/lib/linkHealth";
+import {
+  DuplicateChoice,
+  findDuplicate,
+  hashFile,
+  hashStoredFile,
+  mergeDuplicate
+} from "@/lib/dedup";
+import {
+  expiredTrash,
+  isTrashed,
+  loadTrashRetentionDays,
+  persistTrashRetentionDays
+} from "@/lib/trash";
+import {
+  RetentionPolicy,
+  Revision,
+  deleteRevisions,
+  listRevisions,
+  loadRetentionPolicy,
+  persistRetentionPolicy,
+  pruneRevisions,
+  recordRevision
+} from "@/lib/revisions";
+import DeliveryHistory from "@/components/DeliveryHistory";
+import EndpointProfiles from "@/components/EndpointProfiles";
 
-type PreviewEntry = {
-  objectUrl?: string;
-  text?: string;
-};
-
-const ASSISTANT_ENDPOINT_KEY = "agentic-source-hub::assistant-endpoint";
+const OUTBOX_POLL_INTERVAL_MS = 15_000;
+const CONTENT_SEARCH_DEBOUNCE_MS = 200;
+const SEMANTIC_MIN_SCORE = 0.2;
+const RELATED_MIN_SCORE = 0.35;
+const RELATED_LIMIT = 5;
+// How often to look for links due a scheduled check.
+const LINK_CHECK_POLL_MS = 60_000;
+// Pause after a failed scheduled check, e.g. when the server is unreachable.
+const LINK_CHECK_BACKOFF_MS = 60 * 60 * 1000;
 
 const CATEGORY_OPTIONS: { key: SourceCategory | "all"; label: string }[] = [
   { key: "all", label: "All" },
   { key: "video", label: "Video" },
   { key: "image", label: "Image" },
+  { key: "audio", label: "Audio" },
   { key: "pdf", label: "PDF" },
+  { key: "document", label: "Document" },
+  { key: "spreadsheet", label: "Spreadsheet" },
   { key: "text", label: "Text" },
+  { key: "code", label: "Code" },
+  { key: "archive", label: "Archive" },
   { key: "other", label: "Other" }
 ];
 
-function formatBytes(bytes?: number): string {
-  if (!bytes || bytes === 0) return "—";
-  const units = ["B", "KB", "MB", "GB"];
-  const index = Math.min(Math.floor(Math.log(bytes) / Math.log(1024)), units.length - 1);
-  return `${(bytes / Math.pow(1024, index)).toFixed(1)} ${units[index]}`;
+// Categories a source can be assigned to, without the "All" filter.
+const SOURCE_CATEGORY_OPTIONS = CATEGORY_OPTIONS.filter(
+  (option): option is { key: SourceCategory; label: string } => option.key !== "all"
+);
+
+function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
 }
 
+// Stable identity for VirtualList, which memoizes on it.
+const sourceKey = (source: SourceRecord) => source.id;
+
 function formatDate(dateIso: string): string {
   const date = new Date(dateIso);
   return date.toLocaleString();
 }
 
-async function blobToBase64(blob: Blob): Promise<string> {
-  const buffer = await blob.arrayBuffer();
-  const bytes = new Uint8Array(buffer);
-  let binary = "";
-  bytes.forEach((b) => {
-    binary += String.fromCharCode(b);
-  });
-  return btoa(binary);
-}
-
 function parseTags(value: string): string[] {
   return value
     .split(",")
@@ -60,14 +214,52 @@ function parseTags(value: string): string[] {
     .slice(0, 12);
 }
 
+async function extractAndIndex(
+  id: string,
+  file: File,
+  category: SourceCategory
+): Promise<string | undefined> {
+  try {
+    const text = await extractText(file, category, file.name);
+    if (!text) return undefined;
+    const extractKey = `extract::${id}`;
+    await persistBlob(extractKey, new Blob([text], { type: "text/plain" }));
+    await indexSourceText(id, text);
+    return extractKey;
+  } catch (error) {
+    console.error(`Failed to extract text from ${file.name}`, error);
+    return undefined;
+  }
+}
+
 export default function SourceManager() {
   const [sources, setSources] = useState<SourceRecord[]>([]);
-  const [previews, setPreviews] = useState<Record<string, PreviewEntry>>({});
-  const [assistantUrl, setAssistantUrl] = useState("");
+  const [selectedPreview, setSelectedPreview] = useState<PreviewEntry | undefined>();
+  const [profiles, setProfiles] = useState<EndpointProfile[]>([]);
+  const [activeProfileId, setActiveProfileId] = useState<string | null>(null);
   const [query, setQuery] = useState("");
+  const [contentMatches, setContentMatches] = useState<Map<string, Set<string>>>(
+    new Map()
+  );
+  const [searchMode, setSearchMode] = useState<"keyword" | "semantic">("keyword");
+  const [embeddings, setEmbeddings] = useState<Map<string, StoredEmbedding>>(
+    new Map()
+  );
+  const [semanticScores, setSemanticScores] = useState<Map<string, number> | null>(
+    null
+  );
+  const [embeddingStatus, setEmbeddingStatus] = useState<string | null>(null);
+  // Set when the model failed to load; embedding waits for the user to retry.
+  const [embeddingFailed, setEmbeddingFailed] = useState(false);
+  const [collections, setCollections] = useState<Collection[]>([]);
+  const [activeCollectionId, setActiveCollectionId] = useState<string | null>(null);
+  const [smartCollections, setSmartCollections] = useState<SmartCollection[]>([]);
+  const [smartCollectionName, setSmartCollectionName] = useState<string | null>(null);
+  const [contentSnippets, setContentSnippets] = useState<SnippetSegment[][]>([]);
   const [categoryFilter, setCategoryFilter] = useState<SourceCategory | "all">(
     "all"
   );
+  const [brokenLinksOnly, setBrokenLinksOnly] = useState(false);
   const [isDragging, setIsDragging] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
   const [selectedId, setSelectedId] = useState<string | null>(null);
@@ -76,130 +268,414 @@ export default function SourceManager() {
   const [statusTone, setStatusTone] = useState<"success" | "error" | "info">(
     "info"
   );
+  // Optional button shown in the banner while its message is still up.
+  const [statusAction, setStatusAction] = useState<{
+    message: string;
+    label: string;
+    run: () => void;
+  } | null>(null);
   const [sending, setSending] = useState(false);
+  const [isTransferring, setIsTransferring] = useState(false);
+  const [storageMode, setStorageMode] = useState<StorageMode>("local");
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isSavingEdit, setIsSavingEdit] = useState(false);
+  const [inspectorTab, setInspectorTab] = useState<"details" | "history">("details");
+  const [revisions, setRevisions] = useState<Revision[]>([]);
+  const [retention, setRetention] = useState<RetentionPolicy>(loadRetentionPolicy);
+  const [trashRetentionDays, setTrashRetentionDays] = useState(loadTrashRetentionDays);
+  const [isPurging, setIsPurging] = useState(false);
+  const [isBulkWorking, setIsBulkWorking] = useState(false);
+  // Source ids with a snapshot fetch in flight.
+  const [snapshotting, setSnapshotting] = useState<Set<string>>(new Set());
+  // Source ids with a transcription request in flight.
+  const [transcribing, setTranscribing] = useState<Set<string>>(new Set());
+  const [linkCheckIntervalHours, setLinkCheckIntervalHours] = useState(
+    loadLinkCheckIntervalHours
+  );
+  const [linkCheckProgress, setLinkCheckProgress] = useState<{
+    done: number;
+    total: number;
+  } | null>(null);
+  const [sourceView, setSourceView] = useState<"list" | "grid">("list");
+  const [duplicatePrompt, setDuplicatePrompt] = useState<{
+    file: File;
+    existing: SourceRecord;
+    remaining: number;
+  } | null>(null);
+  const [syncStatuses, setSyncStatuses] = useState<Record<string, SyncStatus>>({});
+  const [uploadBatch, setUploadBatch] = useState<UploadBatch | null>(null);
+  const [uploads, setUploads] = useState<Record<string, UploadProgress>>({});
+  const [outbox, setOutbox] = useState<OutboxEntry[]>([]);
   const [urlForm, setUrlForm] = useState({
     url: "",
     name: "",
     tags: "",
-    description: ""
+    description: "",
+    snapshot: false
   });
   const [textForm, setTextForm] = useState({
     title: "",
     content: "",
     tags: ""
   });
-  const objectUrlRef = useRef<Record<string, string>>({});
+  const previewCacheRef = useRef<PreviewCache | null>(null);
   const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const sourcesRef = useRef<SourceRecord[]>([]);
+  const outboxRef = useRef<OutboxEntry[]>([]);
+  const inFlightRef = useRef<Set<string>>(new Set());
+  const profilesRef = useRef<EndpointProfile[]>([]);
+  const embeddingsRef = useRef<Map<string, StoredEmbedding>>(new Map());
+  const embeddingRunRef = useRef(false);
+  // Sources are only written back once the active store has been read.
+  const hydratedRef = useRef(false);
+  const saveQueueRef = useRef<Promise<void>>(Promise.resolve());
+  const purgingRef = useRef(false);
+  const linkCheckRunningRef = useRef(false);
+  // Scheduled checks wait until this time after a failure.
+  const linkCheckBackoffRef = useRef(0);
+  // Last source toggled without Shift; the other end of a Shift+click range.
+  const selectionAnchorRef = useRef<string | null>(null);
+  const duplicateAnswerRef = useRef<
+    ((answer: { choice: DuplicateChoice; applyToRest: boolean }) => void) | null
+  >(null);
+  // Records whose stored file could not be hashed, so the backfill skips them.
+  const unhashableRef = useRef<Set<string>>(new Set());
+  const hashBackfillRef = useRef(false);
 
   useEffect(() => {
     if (typeof window === "undefined") return;
-    const initialSources = loadSources();
-    setSources(initialSources);
-    const storedEndpoint = window.localStorage.getItem(ASSISTANT_ENDPOINT_KEY);
-    if (storedEndpoint) {
-      setAssistantUrl(storedEndpoint);
-    }
+    const mode = loadStorageMode();
+    setStorageMode(mode);
+    setSourceStore(mode === "server" ? createServerSourceStore() : localSourceStore);
+    void hydrateSources();
+    outboxRef.current = loadOutbox();
+    setOutbox(outboxRef.current);
+    setSmartCollections(loadSmartCollections());
+    setCollections(loadCollections());
+    loadEmbeddings()
+      .then((stored) => {
+        embeddingsRef.current = stored;
+        setEmbeddings(stored);
+      })
+      .catch((error) => {
+        console.error("Failed to load embeddings", error);
+      });
+    const storedProfiles = loadEndpointProfiles();
+    setProfiles(storedProfiles);
+    setActiveProfileId(getDefaultProfile(storedProfiles)?.id ?? null);
   }, []);
 
   useEffect(() => {
     if (typeof window === "undefined") return;
-    persistSources(sources);
+    sourcesRef.current = sources;
+    if (!hydratedRef.current) return;
+    const store = getSourceStore();
+    saveQueueRef.current = saveQueueRef.current
+      .then(() => store.saveSources(sources))
+      .catch((error) => {
+        console.error("Failed to save sources", error);
+        setStatusTone("error");
+        setStatusMessage(
+          error instanceof Error ? `Could not save: ${error.message}` : "Could not save sources."
+        );
+        setTimeout(() => setStatusMessage(null), 5000);
+      });
   }, [sources]);
 
   useEffect(() => {
     if (typeof window === "undefined") return;
-    window.localStorage.setItem(ASSISTANT_ENDPOINT_KEY, assistantUrl);
-  }, [assistantUrl]);
+    persistOutbox(outbox);
+  }, [outbox]);
 
   useEffect(() => {
-    let isCurrent = true;
-
-    const loadPreviews = async () => {
-      const next: Record<string, PreviewEntry> = {};
-      const existingIds = new Set(sources.map((source) => source.id));
-
-      Object.entries(objectUrlRef.current).forEach(([id, url]) => {
-        if (!existingIds.has(id)) {
-          URL.revokeObjectURL(url);
-          delete objectUrlRef.current[id];
-        }
-      });
-
-      for (const source of sources) {
-        if (source.fileKey) {
-          const blob = await readBlob(source.fileKey);
-          if (!blob) continue;
-          if (!objectUrlRef.current[source.id]) {
-            objectUrlRef.current[source.id] = URL.createObjectURL(blob);
-          }
-          next[source.id] = { objectUrl: objectUrlRef.current[source.id] };
-        } else if (source.textKey) {
-          const blob = await readBlob(source.textKey);
-          if (!blob) continue;
-          const text = await blob.text();
-          next[source.id] = { text };
-        } else {
-          next[source.id] = {};
-        }
-      }
-
-      if (isCurrent) {
-        setPreviews(next);
-      }
-    };
-
-    loadPreviews().catch((error) => {
-      console.error("Failed to prepare previews", error);
-    });
-
-    return () => {
-      isCurrent = false;
-    };
-  }, [sources]);
+    if (typeof window === "undefined") return;
+    profilesRef.current = profiles;
+    persistEndpointProfiles(profiles);
+  }, [profiles]);
 
   useEffect(() => {
+    const cache = createPreviewCache();
+    previewCacheRef.current = cache;
     return () => {
-      Object.values(objectUrlRef.current).forEach((url) => {
-        URL.revokeObjectURL(url);
-      });
-      objectUrlRef.current = {};
+      cache.clear();
+      previewCacheRef.current = null;
     };
   }, []);
 
+  // Everything except what sits in the Trash.
+  const liveSources = useMemo(() => sources.filter((source) => !isTrashed(source)), [sources]);
+
   useEffect(() => {
     if (selectedId) {
-      const exists = sources.some((source) => source.id === selectedId);
+      const exists = liveSources.some((source) => source.id === selectedId);
       if (!exists) {
         setSelectedId(null);
       }
     }
 
     setSelectedIds((prev) => {
-      const next = new Set(Array.from(prev).filter((id) => sources.some((s) => s.id === id)));
+      const next = new Set(
+        Array.from(prev).filter((id) => liveSources.some((s) => s.id === id))
+      );
       return next;
     });
-  }, [sources, selectedId]);
+  }, [liveSources, selectedId]);
+
+  useEffect(() => {
+    if (typeof window === "undefined") return;
+    persistSmartCollections(smartCollections);
+  }, [smartCollections]);
+
+  useEffect(() => {
+    if (typeof window === "undefined") return;
+    persistCollections(collections);
+  }, [collections]);
+
+  const parsedQuery = useMemo(
+    () => (searchMode === "semantic" ? { ast: null } : parseQuery(query)),
+    [query, searchMode]
+  );
+  const textTerms = useMemo(
+    () => Array.from(new Set(collectTextTerms(parsedQuery.ast))),
+    [parsedQuery]
+  );
+
+  useEffect(() => {
+    let isCurrent = true;
+    const timer = window.setTimeout(() => {
+      Promise.all(
+        textTerms.map(async (term) => [term, await searchIndex(term)] as const)
+      )
+        .then((entries) => {
+          if (isCurrent) setContentMatches(new Map(entries));
+        })
+        .catch((error) => {
+          console.error("Full-text search failed", error);
+        });
+    }, CONTENT_SEARCH_DEBOUNCE_MS);
+    return () => {
+      isCurrent = false;
+      window.clearTimeout(timer);
+    };
+  }, [textTerms]);
+
+  // Embeds sources lazily while semantic mode is on. Runs one source at a time
+  // and re-reads the refs each round so sources added mid-run are picked up.
+  useEffect(() => {
+    if (searchMode !== "semantic" || embeddingFailed || embeddingRunRef.current) return;
+
+    const nextStale = () =>
+      sourcesRef.current.find(
+        (source) =>
+          !isTrashed(source) &&
+          embeddingsRef.current.get(source.id)?.signature !== embeddingSignature(source)
+      );
+    if (!nextStale()) return;
+
+    embeddingRunRef.current = true;
+    (async () => {
+      let done = 0;
+      for (let source = nextStale(); source; source = nextStale()) {
+        setEmbeddingStatus(`Embedding sources… ${done} done`);
+        const embedding = await embedSource(source);
+        embeddingsRef.current = new Map(embeddingsRef.current).set(source.id, embedding);
+        setEmbeddings(embeddingsRef.current);
+        done += 1;
+      }
+      setEmbeddingStatus(null);
+    })()
+      .catch((error) => {
+        console.error("Failed to compute embeddings", error);
+        setEmbeddingStatus("Semantic model unavailable. Check that /models is deployed.");
+        setEmbeddingFailed(true);
+      })
+      .finally(() => {
+        embeddingRunRef.current = false;
+      });
+  }, [sources, searchMode, embeddingFailed]);
+
+  useEffect(() => {
+    if (searchMode !== "semantic" || !query.trim() || embeddingFailed) {
+      setSemanticScores(null);
+      return;
+    }
+    let isCurrent = true;
+    const timer = window.setTimeout(() => {
+      embedText(query)
+        .then((vector) => {
+          if (!isCurrent) return;
+          const ranked = rankBySimilarity(vector, embeddings, {
+            minScore: SEMANTIC_MIN_SCORE
+          });
+          setSemanticScores(new Map(ranked.map((entry) => [entry.id, entry.score])));
+        })
+        .catch((error) => {
+          console.error("Semantic search failed", error);
+        });
+    }, CONTENT_SEARCH_DEBOUNCE_MS);
+    return () => {
+      isCurrent = false;
+      window.clearTimeout(timer);
+    };
+  }, [query, searchMode, embeddings, embeddingFailed]);
 
   const filteredSources = useMemo(() => {
-    const lowerQuery = query.toLowerCase();
-    return sources.filter((source) => {
+    const { ast } = parsedQuery;
+    const matches = liveSources.filter((source) => {
       const matchesCategory =
         categoryFilter === "all" ? true : source.category === categoryFilter;
+      const matchesLinkHealth = brokenLinksOnly ? linkHealth(source) === "broken" : true;
+      const matchesCollection = activeCollectionId
+        ? isInCollection(source, collections, activeCollectionId)
+        : true;
       const matchesQuery =
-        lowerQuery.length === 0 ||
-        source.name.toLowerCase().includes(lowerQuery) ||
-        (source.description &&
-          source.description.toLowerCase().includes(lowerQuery)) ||
-        source.tags.some((tag) => tag.toLowerCase().includes(lowerQuery));
-      return matchesCategory && matchesQuery;
+        searchMode === "semantic"
+          ? !semanticScores || semanticScores.has(source.id)
+          : ast
+          ? evaluateQuery(ast, source, { contentMatches })
+          : true;
+      return matchesCategory && matchesLinkHealth && matchesCollection && matchesQuery;
     });
-  }, [sources, categoryFilter, query]);
+    if (searchMode === "semantic" && semanticScores) {
+      matches.sort(
+        (a, b) => (semanticScores.get(b.id) ?? 0) - (semanticScores.get(a.id) ?? 0)
+      );
+    }
+    return matches;
+  }, [
+    liveSources,
+    categoryFilter,
+    brokenLinksOnly,
+    parsedQuery,
+    contentMatches,
+    searchMode,
+    semanticScores,
+    activeCollectionId,
+    collections
+  ]);
+
+  const collectionCounts = useMemo(() => {
+    const counts: Record<string, number> = {};
+    collections.forEach((collection) => {
+      const subtree = collectionSubtree(collections, collection.id);
+      counts[collection.id] = liveSources.filter((source) =>
+        source.collectionIds?.some((id) => subtree.has(id))
+      ).length;
+    });
+    return counts;
+  }, [collections, liveSources]);
+
+  const handleCreateCollection = (name: string, parentId?: string) => {
+    setCollections((prev) => [
+      ...prev,
+      { id: createCollectionId(), name, parentId, createdAt: new Date().toISOString() }
+    ]);
+  };
+
+  const handleDeleteCollection = (collection: Collection) => {
+    // Nested collections move up one level instead of being deleted with it.
+    setCollections((prev) =>
+      prev
+        .filter((item) => item.id !== collection.id)
+        .map((item) =>
+          item.parentId === collection.id ? { ...item, parentId: collection.parentId } : item
+        )
+    );
+    setSources((prev) => prev.map((source) => removeFromCollection(source, collection.id)));
+    if (activeCollectionId === collection.id) {
+      setActiveCollectionId(null);
+    }
+  };
+
+  const handleDropOnCollection = (collectionId: string, sourceIds: string[]) => {
+    setSources((prev) =>
+      prev.map((source) =>
+        sourceIds.includes(source.id) ? addToCollection(source, collectionId) : source
+      )
+    );
+    const collection = collections.find((item) => item.id === collectionId);
+    setStatusTone("success");
+    setStatusMessage(
+      `Added ${sourceIds.length} source${sourceIds.length > 1 ? "s" : ""} to ${
+        collection?.name ?? "collection"
+      }.`
+    );
+    setTimeout(() => setStatusMessage(null), 3200);
+  };
+
+  const handleSaveSmartCollection = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const name = smartCollectionName?.trim();
+    if (!name || !query.trim() || parsedQuery.error) return;
+    setSmartCollections((prev) => [
+      ...prev,
+      { id: createSmartCollectionId(), name, query: query.trim() }
+    ]);
+    setSmartCollectionName(null);
+  };
 
   const selectedSources = useMemo(
-    () => sources.filter((source) => selectedIds.has(source.id)),
-    [sources, selectedIds]
+    () => liveSources.filter((source) => selectedIds.has(source.id)),
+    [liveSources, selectedIds]
   );
 
+  // Resolves once the user answers the duplicate prompt for this file.
+  const askAboutDuplicate = (file: File, existing: SourceRecord, remaining: number) =>
+    new Promise<{ choice: DuplicateChoice; applyToRest: boolean }>((resolve) => {
+      duplicateAnswerRef.current = resolve;
+      setDuplicatePrompt({ file, existing, remaining });
+    });
+
+  const handleDuplicateAnswer = (choice: DuplicateChoice, applyToRest: boolean) => {
+    const answer = duplicateAnswerRef.current;
+    duplicateAnswerRef.current = null;
+    setDuplicatePrompt(null);
+    answer?.({ choice, applyToRest });
+  };
+
+  // Records from before content hashing learn their file hash in the background.
+  useEffect(() => {
+    if (!hydratedRef.current || hashBackfillRef.current) return;
+    const pending = sources.filter(
+      (source) => source.fileKey && !source.sha256 && !unhashableRef.current.has(source.id)
+    );
+    if (!pending.length) return;
+    hashBackfillRef.current = true;
+    (async () => {
+      const hashes = new Map<string, string>();
+      for (const source of pending) {
+        const sha256 = await hashStoredFile(source).catch(() => undefined);
+        if (sha256) {
+          hashes.set(source.id, sha256);
+        } else {
+          unhashableRef.current.add(source.id);
+        }
+      }
+      if (hashes.size) {
+        setSources((prev) =>
+          prev.map((source) =>
+            hashes.has(source.id) && !source.sha256
+              ? { ...source, sha256: hashes.get(source.id) }
+              : source
+          )
+        );
+      }
+    })().finally(() => {
+      hashBackfillRef.current = false;
+    });
+  }, [sources]);
+
+  // Probed metadata describes the file, not an edit, so updatedAt stays as it is.
+  const updateMediaInfo = useCallback((id: string, info: MediaInfo) => {
+    setSources((prev) => {
+      const current = prev.find((source) => source.id === id);
+      if (!current) return prev;
+      const media = { ...current.media, ...info };
+      if (JSON.stringify(media) === JSON.stringify(current.media ?? {})) return prev;
+      return prev.map((source) => (source.id === id ? { ...source, media } : source));
+    });
+  }, []);
+
   const handleFiles = useCallback(
     async (files: FileList | File[]) => {
       const fileArray = Array.from(files);
@@ -207,34 +683,165 @@ export default function SourceManager() {
 
       setIsProcessing(true);
       const additions: SourceRecord[] = [];
+      const { accepted, rejected } = await checkIngest(fileArray);
+      const failures = rejected.map(({ error }) => error.message);
+      // Files whose extension disagrees with their content.
+      const warnings: string[] = [];
+      // Audio and video files to probe for metadata once they are added.
+      const mediaFiles: [SourceRecord, File][] = [];
 
-      for (const file of fileArray) {
+      const merged = new Map<string, SourceRecord>();
+      let skipped = 0;
+      let batchChoice: DuplicateChoice | null = null;
+
+      for (const [index, file] of accepted.entries()) {
         const id = createSourceId();
-        const category = detectCategory(file);
-        const fileKey = `file::${id}`;
-        await persistBlob(fileKey, file);
-        additions.push({
+        const { mimeType, category, mismatch } = await detectFileType(file).catch((error) => {
+          console.error(`Failed to read ${file.name}`, error);
+          return { mimeType: file.type, category: detectCategory(file), mismatch: undefined };
+        });
+        if (mismatch) {
+          warnings.push(
+            `"${file.name}" has a .${mismatch.extension} name (${mismatch.expected}) ` +
+              `but contains ${mimeType}; filed as ${category}.`
+          );
+        }
+        const sha256 = await hashFile(file).catch((error) => {
+          console.error(`Failed to hash ${file.name}`, error);
+          return undefined;
+        });
+        const known = [
+          ...additions,
+          ...sourcesRef.current.map((source) => merged.get(source.id) ?? source)
+        ];
+        const existing = sha256 ? findDuplicate(known, sha256) : undefined;
+
+        if (existing) {
+          let choice: DuplicateChoice | null = batchChoice;
+          if (!choice) {
+            const answer = await askAboutDuplicate(file, existing, accepted.length - index - 1);
+            choice = answer.choice;
+            if (answer.applyToRest) batchChoice = choice;
+          }
+          if (choice === "skip") {
+            skipped += 1;
+            continue;
+          }
+          if (choice === "merge") {
+            const addition = additions.findIndex((source) => source.id === existing.id);
+            if (addition >= 0) {
+              additions[addition] = mergeDuplicate(existing, file);
+            } else {
+              merged.set(existing.id, mergeDuplicate(existing, file));
+            }
+            continue;
+          }
+          // Keep both: a second record over the same stored file and extract.
+          const extract = existing.extractKey ? await readBlob(existing.extractKey) : undefined;
+          if (extract) {
+            await indexSourceText(id, await extract.text()).catch((error) => {
+              console.error("Failed to index duplicate source", error);
+            });
+          }
+          additions.push({
+            id,
+            name: file.name,
+            kind: "file",
+            category,
+            createdAt: new Date().toISOString(),
+            size: file.size,
+            mimeType,
+            tags: [],
+            description: "",
+            fileKey: existing.fileKey,
+            sha256,
+            extractKey: existing.extractKey
+          });
+          continue;
+        }
+
+        const fileKey = sha256 ? contentBlobKey(sha256) : `file::${id}`;
+        try {
+          await persistBlob(fileKey, file);
+        } catch (error) {
+          console.error(`Failed to store ${file.name}`, error);
+          failures.push(
+            error instanceof DOMException && error.name === "QuotaExceededError"
+              ? `Browser storage ran out while saving "${file.name}".`
+              : `Could not save "${file.name}".`
+          );
+          continue;
+        }
+        const extractKey = await extractAndIndex(id, file, category);
+        const source: SourceRecord = {
           id,
           name: file.name,
           kind: "file",
           category,
           createdAt: new Date().toISOString(),
           size: file.size,
-          mimeType: file.type,
+          mimeType,
           tags: [],
           description: "",
-          fileKey
+          fileKey,
+          sha256,
+          extractKey
+        };
+        additions.push(source);
+        // Built from the file in hand so the list never has to read it back.
+        void ensureThumbnail(source, file).catch((error) => {
+          console.error(`Failed to create a thumbnail for ${file.name}`, error);
         });
+        if (category === "audio" || category === "video") mediaFiles.push([source, file]);
       }
 
-      setSources((prev) => [...additions, ...prev]);
-      setSelectedId(additions[0]?.id ?? null);
-      setStatusTone("success");
-      setStatusMessage(`Added ${additions.length} source${additions.length > 1 ? "s" : ""}.`);
-      setTimeout(() => setStatusMessage(null), 3500);
+      setSources((prev) => [
+        ...additions,
+        ...prev.map((source) => merged.get(source.id) ?? source)
+      ]);
+      // One file at a time: decoding audio holds the whole signal in memory.
+      void (async () => {
+        for (const [source, file] of mediaFiles) {
+          const probe =
+            source.category === "audio"
+              ? analyzeAudio(source, file).then(({ info }) => info)
+              : probeVideo(file);
+          await probe
+            .then((info) => updateMediaInfo(source.id, info))
+            .catch((error) => {
+              console.error(`Failed to analyze ${source.name}`, error);
+            });
+        }
+      })();
+      const firstTouched = additions[0]?.id ?? Array.from(merged.keys())[0];
+      if (firstTouched) {
+        setSelectedId(firstTouched);
+      }
+      const summary = [
+        additions.length
+          ? `Added ${additions.length} source${additions.length > 1 ? "s" : ""}.`
+          : "",
+        merged.size
+          ? `Merged ${merged.size} duplicate${merged.size > 1 ? "s" : ""} into existing sources.`
+          : "",
+        skipped ? `Skipped ${skipped} duplicate${skipped > 1 ? "s" : ""}.` : ""
+      ];
+      if (failures.length) {
+        setStatusTone("error");
+        setStatusMessage([...summary, ...failures, ...warnings].filter(Boolean).join(" "));
+        setTimeout(() => setStatusMessage(null), 8000);
+      } else if (warnings.length) {
+        setStatusTone("info");
+        setStatusMessage([...summary, ...warnings].filter(Boolean).join(" "));
+        setTimeout(() => setStatusMessage(null), 8000);
+      } else {
+        setStatusTone(additions.length || merged.size ? "success" : "info");
+        setStatusMessage(summary.filter(Boolean).join(" ") || "Nothing was added.");
+        setTimeout(() => setStatusMessage(null), 3500);
+      }
       setIsProcessing(false);
     },
-    []
+    [updateMediaInfo]
   );
 
   const handleDrop = useCallback(
@@ -260,6 +867,173 @@ export default function SourceManager() {
     [handleFiles]
   );
 
+  /**
+   * Fetches a URL source into local content. On failure the source stays a
+   * plain link and the error is reported; nothing stored is lost.
+   */
+  const snapshotSource = async (source: SourceRecord): Promise<string | null> => {
+    if (!source.url) return null;
+    setSnapshotting((prev) => new Set(prev).add(source.id));
+    try {
+      const updated = await storeSnapshot(source, await fetchSnapshot(source.url));
+      const previous = sourcesRef.current.find((item) => item.id === source.id) ?? source;
+      setSources((prev) => prev.map((item) => (item.id === source.id ? updated : item)));
+      // A refreshed snapshot may leave the old copy unused.
+      const kept = new Set(sourceBlobKeys(updated));
+      const inUse = new Set(
+        sourcesRef.current.filter((item) => item.id !== source.id).flatMap(sourceBlobKeys)
+      );
+      for (const key of sourceBlobKeys(previous)) {
+        if (!kept.has(key) && !inUse.has(key)) {
+          await deleteBlob(key).catch((error) => {
+            console.error("Failed to drop previous snapshot", error);
+          });
+        }
+      }
+      previewCacheRef.current?.evict(source.id);
+      void ensureThumbnail(updated).catch((error) => {
+        console.error(`Failed to create a thumbnail for ${updated.name}`, error);
+      });
+      return null;
+    } catch (error) {
+      console.error(`Failed to snapshot ${source.url}`, error);
+      return error instanceof Error ? error.message : "The snapshot failed.";
+    } finally {
+      setSnapshotting((prev) => {
+        const next = new Set(prev);
+        next.delete(source.id);
+        return next;
+      });
+    }
+  };
+
+  const handleSnapshotSource = async (source: SourceRecord) => {
+    const failure = await snapshotSource(source);
+    setStatusTone(failure ? "error" : "success");
+    setStatusMessage(
+      failure
+        ? `Could not snapshot "${source.name}": ${failure}`
+        : `Saved a snapshot of "${source.name}".`
+    );
+    setTimeout(() => setStatusMessage(null), failure ? 8000 : 3200);
+  };
+
+  const handleTranscribe = async (source: SourceRecord, settings: TranscriptionSettings) => {
+    if (!source.fileKey) return;
+    setTranscribing((prev) => new Set(prev).add(source.id));
+    try {
+      const audio = await readBlob(source.fileKey);
+      if (!audio) throw new TranscriptionError("The stored file is missing.");
+      const transcript = await getTranscriptionProvider(settings.providerId).transcribe(
+        audio,
+        source.name,
+        settings
+      );
+      if (!transcript.text) throw new TranscriptionError("No speech was recognised.");
+      const note = await createTranscriptSource(source, transcript);
+      setSources((prev) => [note, ...prev]);
+      setSelectedId(note.id);
+      setStatusTone("success");
+      setStatusMessage(`Saved a transcript of "${source.name}".`);
+      setTimeout(() => setStatusMessage(null), 3200);
+    } catch (error) {
+      console.error(`Failed to transcribe ${source.name}`, error);
+      setStatusTone("error");
+      setStatusMessage(
+        `Could not transcribe "${source.name}": ${
+          error instanceof Error ? error.message : "the request failed."
+        }`
+      );
+      setTimeout(() => setStatusMessage(null), 8000);
+    } finally {
+      setTranscribing((prev) => {
+        const next = new Set(prev);
+        next.delete(source.id);
+        return next;
+      });
+    }
+  };
+
+  /** Stores a file made from another source (a clip or a frame) as a new source. */
+  const addDerivedSource = async (
+    parent: SourceRecord,
+    blob: Blob,
+    details: Pick<SourceRecord, "name" | "category" | "description"> & Partial<SourceRecord>
+  ): Promise<SourceRecord> => {
+    const file = new File([blob], details.name, { type: blob.type });
+    const { accepted, rejected } = await checkIngest([file]);
+    if (!accepted.length) throw rejected[0].error;
+    const id = createSourceId();
+    const sha256 = await hashFile(file).catch(() => undefined);
+    const fileKey = sha256 ? contentBlobKey(sha256) : `file::${id}`;
+    await persistBlob(fileKey, file);
+    const source: SourceRecord = {
+      id,
+      kind: "file",
+      createdAt: new Date().toISOString(),
+      size: file.size,
+      mimeType: blob.type,
+      tags: parent.tags,
+      collectionIds: parent.collectionIds,
+      fileKey,
+      sha256,
+      ...details
+    };
+    void ensureThumbnail(source, file).catch((error) => {
+      console.error(`Failed to create a thumbnail for ${source.name}`, error);
+    });
+    setSources((prev) => [source, ...prev]);
+    return source;
+  };
+
+  const handleVideoFrame = async (video: SourceRecord, frame: Blob, time: number) => {
+    try {
+      await addDerivedSource(video, frame, {
+        name: `${baseName(video)}-frame-${time.toFixed(1)}s.png`,
+        category: "image",
+        description: `Frame at ${formatTimestamp(time)} from "${video.name}".`,
+        frameOf: video.id
+      });
+      setStatusTone("success");
+      setStatusMessage(`Captured the frame at ${formatTimestamp(time)} as a new image source.`);
+      setTimeout(() => setStatusMessage(null), 3200);
+    } catch (error) {
+      console.error("Failed to save frame", error);
+      setStatusTone("error");
+      setStatusMessage(
+        error instanceof Error ? error.message : "Could not save the captured frame."
+      );
+      setTimeout(() => setStatusMessage(null), 8000);
+    }
+  };
+
+  const handleVideoClip = async (
+    video: SourceRecord,
+    clip: Blob,
+    start: number,
+    end: number
+  ) => {
+    const extension = clip.type === "video/mp4" ? "mp4" : "webm";
+    try {
+      await addDerivedSource(video, clip, {
+        name: `${baseName(video)}-clip-${start.toFixed(1)}s-${end.toFixed(1)}s.${extension}`,
+        category: "video",
+        description:
+          `Clip from ${formatTimestamp(start)} to ${formatTimestamp(end)} ` +
+          `of "${video.name}".`,
+        clipOf: video.id
+      });
+      setStatusTone("success");
+      setStatusMessage(`Saved a ${formatDuration(end - start)} clip as a new video source.`);
+      setTimeout(() => setStatusMessage(null), 3200);
+    } catch (error) {
+      console.error("Failed to save clip", error);
+      setStatusTone("error");
+      setStatusMessage(error instanceof Error ? error.message : "Could not save the clip.");
+      setTimeout(() => setStatusMessage(null), 8000);
+    }
+  };
+
   const handleUrlSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
     event.preventDefault();
     if (!urlForm.url.trim()) return;
@@ -281,10 +1055,17 @@ export default function SourceManager() {
 
     setSources((prev) => [newSource, ...prev]);
     setSelectedId(id);
-    setUrlForm({ url: "", name: "", tags: "", description: "" });
-    setStatusTone("success");
-    setStatusMessage("Linked remote source.");
-    setTimeout(() => setStatusMessage(null), 3200);
+    setUrlForm((state) => ({ ...state, url: "", name: "", tags: "", description: "" }));
+    const failure = urlForm.snapshot ? await snapshotSource(newSource) : null;
+    setStatusTone(failure ? "error" : "success");
+    setStatusMessage(
+      failure
+        ? `Linked remote source, but the snapshot failed: ${failure}`
+        : urlForm.snapshot
+          ? "Linked remote source and saved a snapshot."
+          : "Linked remote source."
+    );
+    setTimeout(() => setStatusMessage(null), failure ? 8000 : 3200);
   };
 
   const handleTextSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
@@ -296,6 +1077,11 @@ export default function SourceManager() {
       textKey,
       new Blob([textForm.content.trim()], { type: "text/plain" })
     );
+    try {
+      await indexSourceText(id, textForm.content.trim());
+    } catch (error) {
+      console.error("Failed to index text note", error);
+    }
 
     const newSource: SourceRecord = {
       id,
@@ -316,21 +1102,396 @@ export default function SourceManager() {
     setTimeout(() => setStatusMessage(null), 3200);
   };
 
-  const handleDelete = async (source: SourceRecord) => {
-    if (source.fileKey) {
-      await deleteBlob(source.fileKey);
+  const handleTrash = (targets: SourceRecord[]) => {
+    if (!targets.length) return;
+    const ids = new Set(targets.map((source) => source.id));
+    const deletedAt = new Date().toISOString();
+    setSources((prev) =>
+      prev.map((source) => (ids.has(source.id) ? { ...source, deletedAt } : source))
+    );
+    setSelectedIds((prev) => new Set(Array.from(prev).filter((id) => !ids.has(id))));
+    if (selectedId && ids.has(selectedId)) {
+      setSelectedId(null);
     }
-    if (source.textKey) {
-      await deleteBlob(source.textKey);
+
+    const message =
+      targets.length === 1
+        ? `Moved "${targets[0].name}" to Trash.`
+        : `Moved ${targets.length} sources to Trash.`;
+    setStatusTone("info");
+    setStatusMessage(message);
+    setStatusAction({
+      message,
+      label: "Undo",
+      run: () => handleRestoreFromTrash(Array.from(ids))
+    });
+    setTimeout(() => {
+      setStatusMessage((current) => (current === message ? null : current));
+    }, 8000);
+  };
+
+  const handleRestoreFromTrash = (ids: string[]) => {
+    const restore = new Set(ids);
+    setSources((prev) =>
+      prev.map((source) =>
+        restore.has(source.id) ? { ...source, deletedAt: undefined } : source
+      )
+    );
+    setStatusAction(null);
+    setStatusTone("success");
+    setStatusMessage(
+      `Restored ${ids.length} source${ids.length === 1 ? "" : "s"} from Trash.`
+    );
+    setTimeout(() => setStatusMessage(null), 3200);
+  };
+
+  // Permanent removal: blobs, search index, embedding and history go with the record.
+  const purgeSources = async (targets: SourceRecord[]) => {
+    const ids = new Set(targets.map((source) => source.id));
+    // Blobs shared with a remaining source (identical files) stay in place.
+    const remaining = sourcesRef.current.filter((source) => !ids.has(source.id));
+    const inUse = new Set(remaining.flatMap(sourceBlobKeys));
+    const thumbnailsInUse = new Set(remaining.map(thumbnailKey));
+    for (const source of targets) {
+      for (const key of sourceBlobKeys(source)) {
+        if (!inUse.has(key)) {
+          await deleteBlob(key);
+        }
+      }
+      previewCacheRef.current?.evict(source.id);
+      if (!thumbnailsInUse.has(thumbnailKey(source))) {
+        await deleteThumbnail(thumbnailKey(source)).catch((error) => {
+          console.error("Failed to drop thumbnail", error);
+        });
+      }
+      await removeSourceText(source.id).catch((error) => {
+        console.error("Failed to drop source from search index", error);
+      });
+      await removeEmbedding(source.id).catch((error) => {
+        console.error("Failed to drop source embedding", error);
+      });
+      await deleteRevisions(source.id).catch((error) => {
+        console.error("Failed to drop source history", error);
+      });
     }
-    setSources((prev) => prev.filter((item) => item.id !== source.id));
-    setSelectedIds((prev) => {
-      const next = new Set(prev);
-      next.delete(source.id);
-      return next;
+    if (targets.some((source) => embeddingsRef.current.has(source.id))) {
+      embeddingsRef.current = new Map(embeddingsRef.current);
+      ids.forEach((id) => embeddingsRef.current.delete(id));
+      setEmbeddings(embeddingsRef.current);
+    }
+    setSources((prev) => prev.filter((item) => !ids.has(item.id)));
+  };
+
+  const handlePurgeSources = async (targets: SourceRecord[]) => {
+    setIsPurging(true);
+    try {
+      await purgeSources(targets);
+      setStatusTone("success");
+      setStatusMessage(
+        `Permanently deleted ${targets.length} source${targets.length === 1 ? "" : "s"}.`
+      );
+    } catch (error) {
+      console.error(error);
+      setStatusTone("error");
+      setStatusMessage("Some files could not be deleted. Try again.");
+    } finally {
+      setIsPurging(false);
+      setTimeout(() => setStatusMessage(null), 3500);
+    }
+  };
+
+  const handleTrashRetentionChange = (days: number) => {
+    setTrashRetentionDays(days);
+    persistTrashRetentionDays(days);
+  };
+
+  // Sources left in the Trash past the retention window are purged for good.
+  useEffect(() => {
+    if (!hydratedRef.current || purgingRef.current) return;
+    const expired = expiredTrash(sources, trashRetentionDays);
+    if (!expired.length) return;
+    purgingRef.current = true;
+    purgeSources(expired)
+      .catch((error) => {
+        console.error("Failed to purge expired trash", error);
+      })
+      .finally(() => {
+        purgingRef.current = false;
+      });
+  }, [sources, trashRetentionDays]);
+
+  const linkSources = useMemo(() => liveSources.filter(isCheckableLink), [liveSources]);
+  const brokenLinkCount = useMemo(
+    () => linkSources.filter((source) => linkHealth(source) === "broken").length,
+    [linkSources]
+  );
+
+  const runLinkCheck = async (targets: SourceRecord[]): Promise<LinkCheckResult[]> => {
+    const urls = Array.from(new Set(targets.flatMap((source) => source.url ?? [])));
+    if (!urls.length) return [];
+    linkCheckRunningRef.current = true;
+    setLinkCheckProgress({ done: 0, total: urls.length });
+    try {
+      const results = await checkLinks(urls, (done) =>
+        setLinkCheckProgress({ done, total: urls.length })
+      );
+      const byUrl = new Map(results.map((result) => [result.url, result]));
+      const ids = new Set(targets.map((source) => source.id));
+      setSources((prev) =>
+        prev.map((source) => {
+          const result = ids.has(source.id) && source.url ? byUrl.get(source.url) : undefined;
+          return result ? applyLinkCheck(source, result) : source;
+        })
+      );
+      return results;
+    } finally {
+      linkCheckRunningRef.current = false;
+      setLinkCheckProgress(null);
+    }
+  };
+
+  const handleCheckLinks = async (targets: SourceRecord[]) => {
+    if (linkCheckRunningRef.current) return;
+    try {
+      const results = await runLinkCheck(targets);
+      const broken = results.filter(
+        (result) => result.error || (result.status ?? 0) >= 400
+      ).length;
+      setStatusTone(broken ? "error" : "success");
+      setStatusMessage(
+        targets.length === 1
+          ? `"${targets[0].name}": ${describeLinkCheck(results[0])}.`
+          : `Checked ${results.length} link${results.length === 1 ? "" : "s"}${
+              broken ? `; ${broken} broken` : "; all reachable"
+            }.`
+      );
+    } catch (error) {
+      console.error("Link check failed", error);
+      setStatusTone("error");
+      setStatusMessage(
+        error instanceof Error ? `Link check failed: ${error.message}` : "Link check failed."
+      );
+    } finally {
+      setTimeout(() => setStatusMessage(null), 5000);
+    }
+  };
+
+  const handleLinkCheckIntervalChange = (hours: number) => {
+    setLinkCheckIntervalHours(hours);
+    persistLinkCheckIntervalHours(hours);
+  };
+
+  // Links whose last check is older than the interval are rechecked quietly.
+  useEffect(() => {
+    if (!linkCheckIntervalHours) return;
+    const checkDueLinks = () => {
+      if (!hydratedRef.current || linkCheckRunningRef.current) return;
+      if (Date.now() < linkCheckBackoffRef.current) return;
+      const due = sourcesRef.current.filter(
+        (source) => !isTrashed(source) && isLinkCheckDue(source, linkCheckIntervalHours)
+      );
+      if (!due.length) return;
+      runLinkCheck(due).catch((error) => {
+        console.error("Scheduled link check failed", error);
+        linkCheckBackoffRef.current = Date.now() + LINK_CHECK_BACKOFF_MS;
+      });
+    };
+    checkDueLinks();
+    const timer = window.setInterval(checkDueLinks, LINK_CHECK_POLL_MS);
+    return () => window.clearInterval(timer);
+  }, [linkCheckIntervalHours]);
+
+  async function hydrateSources() {
+    hydratedRef.current = false;
+    const loaded = await getSourceStore().loadSources();
+    sourcesRef.current = loaded;
+    setSources(loaded);
+    hydratedRef.current = true;
+  }
+
+  useEffect(() => {
+    const store = getSourceStore();
+    if (!store.subscribe) {
+      setSyncStatuses({});
+      return;
+    }
+    return store.subscribe((update) => {
+      if (update.sources) {
+        sourcesRef.current = update.sources;
+        setSources(update.sources);
+      }
+      setSyncStatuses(update.statuses);
     });
-    if (selectedId === source.id) {
-      setSelectedId(null);
+  }, [storageMode]);
+
+  const handleResolveConflict = async (id: string, keep: "local" | "server") => {
+    try {
+      await getSourceStore().resolveConflict?.(id, keep);
+    } catch (error) {
+      console.error("Failed to resolve sync conflict", error);
+    }
+  };
+
+  const handleStorageModeChange = async (mode: StorageMode) => {
+    if (mode === storageMode) return;
+    await saveQueueRef.current;
+    getSourceStore().dispose?.();
+    persistStorageMode(mode);
+    setStorageMode(mode);
+    setSourceStore(mode === "server" ? createServerSourceStore() : localSourceStore);
+    setSelectedId(null);
+    setActiveCollectionId(null);
+    await hydrateSources();
+    setStatusTone("info");
+    setStatusMessage(
+      mode === "server"
+        ? "Now using the shared server library."
+        : "Now using the library stored in this browser."
+    );
+    setTimeout(() => setStatusMessage(null), 3200);
+  };
+
+  const handleExportWorkspace = async () => {
+    setIsTransferring(true);
+    try {
+      const archive = await exportWorkspace({ sources, collections, smartCollections });
+      downloadBlob(archive, `agentic-source-hub-${new Date().toISOString().slice(0, 10)}.zip`);
+      setStatusTone("success");
+      setStatusMessage(`Exported ${sources.length} source${sources.length === 1 ? "" : "s"}.`);
+    } catch (error) {
+      console.error("Failed to export workspace", error);
+      setStatusTone("error");
+      setStatusMessage(
+        error instanceof Error ? `Export failed: ${error.message}` : "Export failed."
+      );
+    } finally {
+      setIsTransferring(false);
+      setTimeout(() => setStatusMessage(null), 3500);
+    }
+  };
+
+  const handleImportWorkspace = async (archive: WorkspaceArchive, mode: ImportMode) => {
+    setIsTransferring(true);
+    try {
+      const result = await importWorkspace(
+        archive,
+        { sources: sourcesRef.current, collections, smartCollections },
+        mode
+      );
+      const staleIds = [...result.removed, ...result.added].map((source) => source.id);
+      if (staleIds.some((id) => embeddingsRef.current.has(id))) {
+        embeddingsRef.current = new Map(embeddingsRef.current);
+        staleIds.forEach((id) => embeddingsRef.current.delete(id));
+        setEmbeddings(embeddingsRef.current);
+      }
+      setSources(result.sources);
+      setCollections(result.collections);
+      setSmartCollections(result.smartCollections);
+      if (mode === "replace") {
+        setSelectedId(null);
+        setActiveCollectionId(null);
+      }
+      setStatusTone("success");
+      setStatusMessage(
+        [
+          `Imported ${result.added.length} source${result.added.length === 1 ? "" : "s"}`,
+          result.skipped ? `${result.skipped} already present` : null,
+          result.conflicts ? `${result.conflicts} conflicting kept as copies` : null
+        ]
+          .filter(Boolean)
+          .join(", ") + "."
+      );
+    } catch (error) {
+      console.error("Failed to import workspace", error);
+      setStatusTone("error");
+      setStatusMessage(
+        error instanceof Error ? `Import failed: ${error.message}` : "Import failed."
+      );
+    } finally {
+      setIsTransferring(false);
+      setTimeout(() => setStatusMessage(null), 5000);
+    }
+  };
+
+  const allTags = useMemo(
+    () => Array.from(new Set(liveSources.flatMap((source) => source.tags))).sort(),
+    [liveSources]
+  );
+
+  const handleUpdateSource = async (source: SourceRecord, edit: SourceEdit) => {
+    setIsSavingEdit(true);
+    try {
+      const previousText =
+        edit.text !== undefined && source.textKey
+          ? await (await readBlob(source.textKey))?.text()
+          : undefined;
+      await recordRevision(
+        source,
+        { name: edit.name, description: edit.description, tags: edit.tags },
+        edit.text !== undefined ? { before: previousText ?? "", after: edit.text } : undefined,
+        retention
+      ).catch((error) => {
+        console.error("Failed to record revision", error);
+      });
+      if (edit.text !== undefined && source.textKey) {
+        await persistBlob(source.textKey, new Blob([edit.text], { type: "text/plain" }));
+        await indexSourceText(source.id, edit.text).catch((error) => {
+          console.error("Failed to re-index edited note", error);
+        });
+      }
+      const updatedAt = new Date().toISOString();
+      setSources((prev) =>
+        prev.map((item) =>
+          item.id === source.id
+            ? {
+                ...item,
+                name: edit.name,
+                description: edit.description,
+                tags: edit.tags,
+                updatedAt
+              }
+            : item
+        )
+      );
+      setEditingId(null);
+      setStatusTone("success");
+      setStatusMessage("Saved changes.");
+    } catch (error) {
+      console.error("Failed to save source changes", error);
+      setStatusTone("error");
+      setStatusMessage("Could not save changes.");
+    } finally {
+      setIsSavingEdit(false);
+      setTimeout(() => setStatusMessage(null), 3200);
+    }
+  };
+
+  const handleRestoreRevision = async (
+    source: SourceRecord,
+    revision: Revision,
+    text?: string
+  ) => {
+    // Restoring is itself an edit, so the version being replaced stays in history.
+    await handleUpdateSource(source, {
+      name: revision.metadata.name,
+      description: revision.metadata.description ?? "",
+      tags: revision.metadata.tags,
+      text: source.kind === "text" ? text : undefined
+    });
+  };
+
+  const handleRetentionChange = async (policy: RetentionPolicy) => {
+    setRetention(policy);
+    persistRetentionPolicy(policy);
+    try {
+      for (const source of sourcesRef.current) {
+        await pruneRevisions(source.id, policy);
+      }
+      if (selectedId) {
+        setRevisions(await listRevisions(selectedId));
+      }
+    } catch (error) {
+      console.error("Failed to prune revisions", error);
     }
   };
 
@@ -346,121 +1507,607 @@ export default function SourceManager() {
     });
   };
 
-  const handleSendToAssistant = async () => {
-    if (!assistantUrl.trim()) {
+  const handleSelectionClick = (id: string, shiftKey: boolean) => {
+    const anchor = selectionAnchorRef.current;
+    const anchorIndex = anchor ? filteredSources.findIndex((source) => source.id === anchor) : -1;
+    const index = filteredSources.findIndex((source) => source.id === id);
+    if (!shiftKey || anchorIndex < 0 || index < 0) {
+      selectionAnchorRef.current = id;
+      toggleSelection(id);
+      return;
+    }
+    // The range takes the state of the anchor, like file managers do.
+    const select = selectedIds.has(anchor as string);
+    const range = filteredSources
+      .slice(Math.min(anchorIndex, index), Math.max(anchorIndex, index) + 1)
+      .map((source) => source.id);
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      range.forEach((rangeId) => (select ? next.add(rangeId) : next.delete(rangeId)));
+      return next;
+    });
+  };
+
+  // Dragging a selected source drags the whole selection.
+  const handleSourceDragStart = (event: React.DragEvent<HTMLElement>, id: string) => {
+    const ids = selectedIds.has(id) ? Array.from(selectedIds) : [id];
+    event.dataTransfer.setData(SOURCE_DRAG_TYPE, JSON.stringify(ids));
+    event.dataTransfer.effectAllowed = "copy";
+  };
+
+  const handleSelectAllFiltered = () => {
+    setSelectedIds(new Set(filteredSources.map((source) => source.id)));
+  };
+
+  const filteredSourcesRef = useRef<SourceRecord[]>([]);
+  filteredSourcesRef.current = filteredSources;
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.key.toLowerCase() !== "a") return;
+      const target = event.target;
+      if (
+        target instanceof HTMLElement &&
+        (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName))
+      ) {
+        return;
+      }
+      event.preventDefault();
+      setSelectedIds(new Set(filteredSourcesRef.current.map((source) => source.id)));
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, []);
+
+  const selectionTags = useMemo(
+    () => Array.from(new Set(selectedSources.flatMap((source) => source.tags))).sort(),
+    [selectedSources]
+  );
+
+  // Applies the same edit to every selected source. Tag changes go through the
+  // revision log like single edits do.
+  const applyBulkEdit = async (
+    update: (source: SourceRecord) => SourceRecord,
+    message: string,
+    recordTags = false
+  ) => {
+    const updatedAt = new Date().toISOString();
+    const changed = new Map<string, SourceRecord>();
+    selectedSources.forEach((source) => {
+      const next = update(source);
+      if (next !== source) changed.set(source.id, { ...next, updatedAt });
+    });
+    if (!changed.size) return;
+    setIsBulkWorking(true);
+    try {
+      if (recordTags) {
+        for (const source of selectedSources) {
+          const next = changed.get(source.id);
+          if (!next) continue;
+          await recordRevision(
+            source,
+            { name: next.name, description: next.description ?? "", tags: next.tags },
+            undefined,
+            retention
+          ).catch((error) => {
+            console.error("Failed to record revision", error);
+          });
+        }
+      }
+      setSources((prev) => prev.map((source) => changed.get(source.id) ?? source));
+      setStatusTone("success");
+      setStatusMessage(
+        `${message} (${changed.size} source${changed.size === 1 ? "" : "s"}).`
+      );
+    } finally {
+      setIsBulkWorking(false);
+      setTimeout(() => setStatusMessage(null), 3200);
+    }
+  };
+
+  const handleBulkAddTag = (tag: string) =>
+    applyBulkEdit(
+      (source) =>
+        source.tags.includes(tag) || source.tags.length >= 12
+          ? source
+          : { ...source, tags: [...source.tags, tag] },
+      `Tagged #${tag}`,
+      true
+    );
+
+  const handleBulkRemoveTag = (tag: string) =>
+    applyBulkEdit(
+      (source) =>
+        source.tags.includes(tag)
+          ? { ...source, tags: source.tags.filter((item) => item !== tag) }
+          : source,
+      `Removed #${tag}`,
+      true
+    );
+
+  const handleBulkSetCategory = (category: SourceCategory) =>
+    applyBulkEdit(
+      (source) => (source.category === category ? source : { ...source, category }),
+      `Set category to ${category}`
+    );
+
+  const handleBulkMove = (collectionId: string | null) => {
+    const collection = collections.find((item) => item.id === collectionId);
+    return applyBulkEdit(
+      (source) =>
+        (source.collectionIds ?? []).join() === (collectionId ?? "")
+          ? source
+          : moveToCollection(source, collectionId),
+      collection ? `Moved to ${collection.name}` : "Removed from collections"
+    );
+  };
+
+  const handleBulkExport = async () => {
+    setIsBulkWorking(true);
+    try {
+      const archive = await exportWorkspace({
+        sources: selectedSources,
+        collections,
+        smartCollections: []
+      });
+      downloadBlob(
+        archive,
+        `agentic-source-hub-selection-${new Date().toISOString().slice(0, 10)}.zip`
+      );
+      setStatusTone("success");
+      setStatusMessage(
+        `Exported ${selectedSources.length} source${selectedSources.length === 1 ? "" : "s"}.`
+      );
+    } catch (error) {
+      console.error("Failed to export selection", error);
+      setStatusTone("error");
+      setStatusMessage(
+        error instanceof Error ? `Export failed: ${error.message}` : "Export failed."
+      );
+    } finally {
+      setIsBulkWorking(false);
+      setTimeout(() => setStatusMessage(null), 3500);
+    }
+  };
+
+  const handleBulkDownload = async () => {
+    setIsBulkWorking(true);
+    try {
+      const { archive, count } = await exportSourceFiles(selectedSources);
+      if (!count) {
+        setStatusTone("info");
+        setStatusMessage("The selection has no stored files to download.");
+        return;
+      }
+      downloadBlob(
+        archive,
+        `agentic-source-hub-files-${new Date().toISOString().slice(0, 10)}.zip`
+      );
+      const skipped = selectedSources.length - count;
+      setStatusTone("success");
+      setStatusMessage(
+        `Downloaded ${count} file${count === 1 ? "" : "s"}${
+          skipped ? `; skipped ${skipped} without a stored file` : ""
+        }.`
+      );
+    } catch (error) {
+      console.error("Failed to download files", error);
+      setStatusTone("error");
+      setStatusMessage("Could not bundle the selected files.");
+    } finally {
+      setIsBulkWorking(false);
+      setTimeout(() => setStatusMessage(null), 3500);
+    }
+  };
+
+  const activeProfile =
+    profiles.find((profile) => profile.id === activeProfileId) ??
+    getDefaultProfile(profiles);
+
+  const handleSaveProfile = async (profile: EndpointProfile) => {
+    const previous = profiles.find((item) => item.id === profile.id);
+    const saved = await saveProfileSecrets(profile, previous);
+    setProfiles((prev) => {
+      const exists = prev.some((item) => item.id === saved.id);
+      const next = exists
+        ? prev.map((item) => (item.id === saved.id ? saved : item))
+        : [...prev, saved];
+      return saved.isDefault
+        ? next.map((item) => ({ ...item, isDefault: item.id === saved.id }))
+        : next;
+    });
+    if (!activeProfileId || saved.isDefault) {
+      setActiveProfileId(saved.id);
+    }
+  };
+
+  const handleDeleteProfile = async (profile: EndpointProfile) => {
+    await deleteProfileSecrets(profile);
+    setProfiles((prev) => {
+      const next = prev.filter((item) => item.id !== profile.id);
+      if (profile.isDefault && next.length) {
+        next[0] = { ...next[0], isDefault: true };
+      }
+      return next;
+    });
+    if (activeProfileId === profile.id) {
+      setActiveProfileId(null);
+    }
+  };
+
+  const handleSetDefaultProfile = (profileId: string) => {
+    setProfiles((prev) =>
+      prev.map((item) => ({ ...item, isDefault: item.id === profileId }))
+    );
+  };
+
+  const activeCollection = activeCollectionId
+    ? collections.find((collection) => collection.id === activeCollectionId)
+    : undefined;
+
+  const handleSendToAssistant = async () => {
+    const targets = selectedSources.length
+      ? selectedSources
+      : selectedId
+      ? liveSources.filter((source) => source.id === selectedId)
+      : activeCollection
+      ? liveSources.filter((source) => isInCollection(source, collections, activeCollection.id))
+      : [];
+    await sendSources(targets);
+  };
+
+  const handleSendCollection = async (collection: Collection) => {
+    await sendSources(
+      liveSources.filter((source) => isInCollection(source, collections, collection.id))
+    );
+  };
+
+  const sendSources = async (targets: SourceRecord[]) => {
+    if (!activeProfile) {
+      setStatusTone("error");
+      setStatusMessage("Add an assistant endpoint first.");
+      setTimeout(() => setStatusMessage(null), 3500);
+      return;
+    }
+
+    if (!targets.length) {
+      setStatusTone("info");
+      setStatusMessage("Select at least one source to send.");
+      setTimeout(() => setStatusMessage(null), 3200);
+      return;
+    }
+
+    await startDelivery(
+      activeProfile.url,
+      targets,
+      activeProfile.id,
+      activeProfile.format
+    );
+  };
+
+  const updateOutboxEntry = useCallback((entry: OutboxEntry) => {
+    outboxRef.current = outboxRef.current.map((item) =>
+      item.id === entry.id ? entry : item
+    );
+    setOutbox(outboxRef.current);
+  }, []);
+
+  const deliverEntry = useCallback(
+    async (
+      entry: OutboxEntry,
+      onlyIds?: string[]
+    ): Promise<OutboxEntry> => {
+      inFlightRef.current.add(entry.id);
+      let current: OutboxEntry = {
+        ...entry,
+        status: "pending",
+        sourceIds: entry.sourceIds.filter((id) =>
+          sourcesRef.current.some((source) => source.id === id)
+        )
+      };
+      const targetIds = pendingSourceIds(current).filter(
+        (id) => !onlyIds || onlyIds.includes(id)
+      );
+
+      try {
+        updateOutboxEntry(current);
+        const profile = profilesRef.current.find((item) => item.id === entry.profileId);
+        const headers = profile ? await resolveProfileHeaders(profile) : {};
+        const signingSecret = profile ? await resolveSigningSecret(profile) : undefined;
+        const found = targetIds
+          .map((id) => sourcesRef.current.find((item) => item.id === id))
+          .filter((source): source is SourceRecord => Boolean(source));
+        // Trashed sources are not sent. They fail instead, so the entry retries
+        // and delivers them if they are restored before the retries run out.
+        found.filter(isTrashed).forEach((source) => {
+          current = recordDeliveryAttempt(current, source.id, {
+            at: new Date().toISOString(),
+            error: "Source is in the trash."
+          });
+        });
+        const targets = found.filter((source) => !isTrashed(source));
+
+        if (isBatchFormat(current)) {
+          try {
+            await uploadBatchRequest(current, targets, {
+              headers,
+              signingSecret,
+              onProgress: (progress) =>
+                setUploads((prev) => ({
+                  ...prev,
+                  ...Object.fromEntries(targets.map((source) => [source.id, progress]))
+                })),
+              onAttempt: (attempt) => {
+                targets.forEach((source) => {
+                  current = recordDeliveryAttempt(current, source.id, attempt);
+                });
+                updateOutboxEntry(current);
+              }
+            });
+          } catch (error) {
+            console.error(error);
+          }
+        } else {
+          for (const source of targets) {
+            try {
+              await uploadSource(current, source, {
+                headers,
+                signingSecret,
+                onProgress: (progress) =>
+                  setUploads((prev) => ({ ...prev, [source.id]: progress })),
+                onAttempt: (attempt) => {
+                  current = recordDeliveryAttempt(current, source.id, attempt);
+                  updateOutboxEntry(current);
+                }
+              });
+            } catch (error) {
+              console.error(error);
+            }
+          }
+        }
+      } catch (error) {
+        // Nothing was sent, e.g. the vault could not be read; log it against
+        // every target so the outbox shows why the batch failed.
+        console.error("Failed to prepare delivery", error);
+        const attempt = {
+          at: new Date().toISOString(),
+          error: error instanceof Error ? error.message : "Could not prepare the delivery."
+        };
+        targetIds.forEach((id) => {
+          current = recordDeliveryAttempt(current, id, attempt);
+        });
+        setUploads((prev) => ({
+          ...prev,
+          ...Object.fromEntries(
+            targetIds
+              .filter((id) => prev[id])
+              .map((id) => [id, { ...prev[id], status: "error", error: attempt.error }])
+          )
+        }));
+      } finally {
+        current = settleOutboxEntry(current);
+        updateOutboxEntry(current);
+        inFlightRef.current.delete(entry.id);
+      }
+      return current;
+    },
+    [updateOutboxEntry]
+  );
+
+  useEffect(() => {
+    const timer = window.setInterval(() => {
+      outboxRef.current
+        .filter((entry) => isRetryDue(entry) && !inFlightRef.current.has(entry.id))
+        .forEach((entry) => {
+          void deliverEntry(entry);
+        });
+    }, OUTBOX_POLL_INTERVAL_MS);
+    return () => window.clearInterval(timer);
+  }, [deliverEntry]);
+
+  const startDelivery = async (
+    endpoint: string,
+    targets: SourceRecord[],
+    profileId?: string,
+    format?: string
+  ) => {
+    setSending(true);
+    setStatusTone("info");
+    setStatusMessage("Sending payload to assistant…");
+
+    let settled: OutboxEntry;
+    try {
+      const entry = createOutboxEntry(
+        await createUploadBatch(endpoint, targets, profileId, format)
+      );
+      outboxRef.current = [entry, ...outboxRef.current];
+      setOutbox(outboxRef.current);
+      setUploadBatch(entry);
+      setUploads(
+        Object.fromEntries(
+          targets.map((source) => [
+            source.id,
+            { status: "queued", loaded: 0, total: source.size ?? 0, attempts: 0 }
+          ])
+        )
+      );
+      settled = await deliverEntry(entry);
+    } catch (error) {
+      // Hashing the sources failed, so the batch never reached the outbox.
+      console.error("Failed to prepare upload batch", error);
       setStatusTone("error");
-      setStatusMessage("Add assistant endpoint URL first.");
-      setTimeout(() => setStatusMessage(null), 3500);
+      setStatusMessage(
+        error instanceof Error
+          ? `Could not prepare the upload: ${error.message}`
+          : "Could not prepare the upload."
+      );
+      setTimeout(() => setStatusMessage(null), 8000);
       return;
+    } finally {
+      setSending(false);
     }
 
-    const targets = selectedSources.length
-      ? selectedSources
-      : selectedId
-      ? sources.filter((source) => source.id === selectedId)
-      : [];
+    const failures = pendingSourceIds(settled).length;
+    if (failures === 0) {
+      setStatusTone("success");
+      setStatusMessage("Assistant synced successfully.");
+      setTimeout(() => setStatusMessage(null), 3500);
+    } else {
+      setStatusTone("error");
+      setStatusMessage(
+        `${failures} of ${targets.length} source${
+          targets.length > 1 ? "s" : ""
+        } failed to upload. They are queued in the outbox for retry.`
+      );
+      setTimeout(() => setStatusMessage(null), 4000);
+    }
+  };
+
+  const handleRetryUpload = async (source: SourceRecord) => {
+    const entry = outboxRef.current.find((item) => item.id === uploadBatch?.id);
+    if (!entry || inFlightRef.current.has(entry.id)) return;
+    setSending(true);
+    const settled = await deliverEntry(entry, [source.id]);
+    setSending(false);
+    const delivered = settled.deliveredIds.includes(source.id);
+    setStatusTone(delivered ? "success" : "error");
+    setStatusMessage(
+      delivered
+        ? `Delivered "${source.name}".`
+        : `Unable to deliver "${source.name}".`
+    );
+    setTimeout(() => setStatusMessage(null), 3500);
+  };
+
+  const handleRetryOutboxEntry = async (entry: OutboxEntry) => {
+    if (inFlightRef.current.has(entry.id)) return;
+    setSending(true);
+    setUploadBatch(entry);
+    await deliverEntry({ ...entry, retryCount: 0 });
+    setSending(false);
+  };
 
+  const handleResendBatch = async (entry: OutboxEntry) => {
+    const targets = liveSources.filter((source) => entry.sourceIds.includes(source.id));
     if (!targets.length) {
       setStatusTone("info");
-      setStatusMessage("Select at least one source to send.");
+      setStatusMessage("None of the sources in that batch exist anymore.");
       setTimeout(() => setStatusMessage(null), 3200);
       return;
     }
+    await startDelivery(entry.endpoint, targets, entry.profileId, entry.format);
+  };
 
-    setSending(true);
-    setStatusTone("info");
-    setStatusMessage("Sending payload to assistant…");
-
-    try {
-      const payload = [];
-
-      for (const source of targets) {
-        if (source.fileKey) {
-          const blob = await readBlob(source.fileKey);
-          if (!blob) continue;
-          const base64 = await blobToBase64(blob);
-          payload.push({
-            id: source.id,
-            name: source.name,
-            type: source.category,
-            kind: source.kind,
-            tags: source.tags,
-            createdAt: source.createdAt,
-            size: source.size,
-            mimeType: source.mimeType,
-            description: source.description,
-            data: {
-              encoding: "base64",
-              value: base64
-            }
-          });
-        } else if (source.textKey) {
-          const blob = await readBlob(source.textKey);
-          const text = blob ? await blob.text() : "";
-          payload.push({
-            id: source.id,
-            name: source.name,
-            type: source.category,
-            kind: source.kind,
-            tags: source.tags,
-            createdAt: source.createdAt,
-            description: source.description,
-            data: {
-              encoding: "text",
-              value: text
-            }
-          });
-        } else if (source.url) {
-          payload.push({
-            id: source.id,
-            name: source.name,
-            type: source.category,
-            kind: source.kind,
-            tags: source.tags,
-            createdAt: source.createdAt,
-            description: source.description,
-            data: {
-              encoding: "url",
-              value: source.url
-            }
-          });
-        }
-      }
+  const selectedSource = useMemo(
+    () => (selectedId ? liveSources.find((source) => source.id === selectedId) : undefined),
+    [liveSources, selectedId]
+  );
 
-      const response = await fetch(assistantUrl.trim(), {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json"
-        },
-        body: JSON.stringify({
-          timestamp: new Date().toISOString(),
-          sourceCount: payload.length,
-          sources: payload
-        })
+  // Only the source open in the Inspector has its file or note text loaded.
+  useEffect(() => {
+    const cache = previewCacheRef.current;
+    if (!selectedSource || !cache) {
+      setSelectedPreview(undefined);
+      return;
+    }
+    const cached = cache.peek(selectedSource);
+    setSelectedPreview(cached);
+    if (cached) return;
+    let isCurrent = true;
+    cache
+      .load(selectedSource)
+      .then((entry) => {
+        if (isCurrent) setSelectedPreview(entry);
+      })
+      .catch((error) => {
+        console.error("Failed to load preview", error);
       });
+    return () => {
+      isCurrent = false;
+    };
+    // Edits that keep the stored content hit the cache, so they cost no reload.
+  }, [selectedSource]);
+  const selectedSourceId = selectedSource?.id;
+  const selectedUpdatedAt = selectedSource?.updatedAt;
 
-      if (!response.ok) {
-        throw new Error(`Assistant request failed (${response.status})`);
-      }
-
-      setStatusTone("success");
-      setStatusMessage("Assistant synced successfully.");
-      setTimeout(() => setStatusMessage(null), 3500);
-    } catch (error) {
-      console.error(error);
-      setStatusTone("error");
-      setStatusMessage("Unable to reach assistant endpoint.");
-      setTimeout(() => setStatusMessage(null), 4000);
-    } finally {
-      setSending(false);
+  useEffect(() => {
+    if (inspectorTab !== "history" || !selectedSourceId) {
+      setRevisions([]);
+      return;
     }
-  };
+    let isCurrent = true;
+    listRevisions(selectedSourceId)
+      .then((stored) => {
+        if (isCurrent) setRevisions(stored);
+      })
+      .catch((error) => {
+        console.error("Failed to load revisions", error);
+      });
+    return () => {
+      isCurrent = false;
+    };
+  }, [inspectorTab, selectedSourceId, selectedUpdatedAt]);
+
+  const selectedConflict =
+    selectedSource && syncStatuses[selectedSource.id] === "conflict"
+      ? getSourceStore().getConflict?.(selectedSource.id)
+      : undefined;
+  const selectedHasContentMatch = Boolean(
+    selectedSource &&
+      Array.from(contentMatches.values()).some((ids) => ids.has(selectedSource.id))
+  );
+  const snippetQuery = textTerms.join(" ");
 
-  const selectedPreview = selectedId ? previews[selectedId] : undefined;
-  const selectedSource = selectedId
-    ? sources.find((source) => source.id === selectedId)
+  // The recording a transcript, clip or captured frame was made from.
+  const parentLink = selectedSource?.transcriptOf
+    ? { id: selectedSource.transcriptOf, label: "Transcript of" }
+    : selectedSource?.clipOf
+      ? { id: selectedSource.clipOf, label: "Clip of" }
+      : selectedSource?.frameOf
+        ? { id: selectedSource.frameOf, label: "Frame from" }
+        : undefined;
+  const parentSource = parentLink
+    ? liveSources.find((source) => source.id === parentLink.id)
     : undefined;
 
+  const relatedSources = useMemo(() => {
+    const embedding = selectedSource ? embeddings.get(selectedSource.id) : undefined;
+    if (!selectedSource || !embedding) return [];
+    return rankBySimilarity(embedding.vector, embeddings, {
+      exclude: selectedSource.id,
+      limit: RELATED_LIMIT,
+      minScore: RELATED_MIN_SCORE
+    })
+      .map((entry) => ({
+        source: liveSources.find((source) => source.id === entry.id),
+        score: entry.score
+      }))
+      .filter(
+        (entry): entry is { source: SourceRecord; score: number } =>
+          Boolean(entry.source)
+      );
+  }, [selectedSource, embeddings, liveSources]);
+
+  useEffect(() => {
+    if (!selectedSource || !selectedHasContentMatch) {
+      setContentSnippets([]);
+      return;
+    }
+    let isCurrent = true;
+    readIndexedText(selectedSource.extractKey, selectedSource.textKey)
+      .then((text) => {
+        if (isCurrent) {
+          setContentSnippets(text ? buildSnippets(text, snippetQuery) : []);
+        }
+      })
+      .catch((error) => {
+        console.error("Failed to load content snippets", error);
+      });
+    return () => {
+      isCurrent = false;
+    };
+  }, [selectedSource, selectedHasContentMatch, snippetQuery]);
+
   return (
     <div className="main-shell">
       <header className="card shadow-soft" style={{ gap: "18px" }}>
@@ -477,23 +2124,12 @@ export default function SourceManager() {
             click.
           </p>
         </div>
-        <div
-          className="card"
-          style={{ display: "flex", flexDirection: "column", gap: "14px" }}
-        >
-          <label style={{ fontWeight: 600, fontSize: 14 }}>
-            Assistant webhook URL
-          </label>
-          <input
-            className="input"
-            placeholder="https://api.your-agent.com/sources"
-            value={assistantUrl}
-            onChange={(event) => setAssistantUrl(event.target.value)}
-          />
-          <p style={{ margin: 0, fontSize: 13, color: "var(--muted)" }}>
-            We&apos;ll POST selected sources here as structured JSON.
-          </p>
-        </div>
+        <EndpointProfiles
+          profiles={profiles}
+          onSave={handleSaveProfile}
+          onDelete={handleDeleteProfile}
+          onSetDefault={handleSetDefaultProfile}
+        />
       </header>
 
       {statusMessage && (
@@ -521,12 +2157,40 @@ export default function SourceManager() {
                 : "rgb(37,99,235)"
           }}
         >
-          {statusMessage}
+          <div
+            style={{
+              display: "flex",
+              alignItems: "center",
+              justifyContent: "space-between",
+              gap: 12
+            }}
+          >
+            <span>{statusMessage}</span>
+            {statusAction && statusAction.message === statusMessage ? (
+              <button
+                type="button"
+                className="button button-secondary"
+                style={{ padding: "6px 12px" }}
+                onClick={statusAction.run}
+              >
+                {statusAction.label}
+              </button>
+            ) : null}
+          </div>
         </div>
       )}
 
       <div className="page-grid" style={{ marginTop: 28 }}>
         <section className="section">
+          {duplicatePrompt ? (
+            <DuplicatePrompt
+              key={`${duplicatePrompt.file.name}-${duplicatePrompt.remaining}`}
+              file={duplicatePrompt.file}
+              existing={duplicatePrompt.existing}
+              remaining={duplicatePrompt.remaining}
+              onAnswer={handleDuplicateAnswer}
+            />
+          ) : null}
           <div
             className={`dropzone card ${isDragging ? "drag-active" : ""}`}
             onDragOver={(event) => {
@@ -548,10 +2212,11 @@ export default function SourceManager() {
                 color: "var(--foreground)"
               }}
             >
-              Drop videos, images, PDFs, or text files
+              Drop videos, images, audio, PDFs, documents, or any other files
             </div>
             <p style={{ margin: 0, color: "var(--muted)" }}>
-              Supports up to ~8MB per file via browser storage. Files remain on
+              Files are stored in this browser, large ones in its private file
+              system; the Storage card shows the space left. Files remain on
               this device until you push them to your assistant.
             </p>
             <div className="inline-actions" style={{ justifyContent: "center" }}>
@@ -569,7 +2234,6 @@ export default function SourceManager() {
                 multiple
                 hidden
                 onChange={handleFileInput}
-                accept=".mp4,.mov,.avi,.mkv,.webm,.png,.jpg,.jpeg,.gif,.webp,.svg,.pdf,.txt,.md"
               />
             </div>
           </div>
@@ -614,8 +2278,27 @@ export default function SourceManager() {
                   setUrlForm((state) => ({ ...state, tags: event.target.value }))
                 }
               />
-              <button className="button button-secondary" type="submit">
-                Save remote source
+              <label
+                style={{ display: "flex", alignItems: "center", gap: 8, fontSize: 14 }}
+                title="Fetch the page or file now and keep a copy, so it still works if the link dies"
+              >
+                <input
+                  type="checkbox"
+                  checked={urlForm.snapshot}
+                  onChange={(event) =>
+                    setUrlForm((state) => ({ ...state, snapshot: event.target.checked }))
+                  }
+                />
+                Save a snapshot of the content
+              </label>
+              <button
+                className="button button-secondary"
+                type="submit"
+                disabled={urlForm.snapshot && snapshotting.size > 0}
+              >
+                {urlForm.snapshot && snapshotting.size > 0
+                  ? "Saving snapshot…"
+                  : "Save remote source"}
               </button>
             </form>
           </div>
@@ -659,15 +2342,126 @@ export default function SourceManager() {
             </form>
           </div>
 
+          <WorkspaceTransfer
+            sourceCount={sources.length}
+            busy={isTransferring}
+            storageMode={storageMode}
+            onStorageModeChange={(mode) => void handleStorageModeChange(mode)}
+            onExport={handleExportWorkspace}
+            onImport={handleImportWorkspace}
+          />
+
+          <StorageDashboard sources={sources} categories={SOURCE_CATEGORY_OPTIONS} />
+
+          <LinkHealthPanel
+            sources={linkSources}
+            intervalHours={linkCheckIntervalHours}
+            progress={linkCheckProgress}
+            onCheckAll={() => void handleCheckLinks(linkSources)}
+            onIntervalChange={handleLinkCheckIntervalChange}
+          />
+
           <div className="card" style={{ display: "flex", flexDirection: "column", gap: 16 }}>
             <div style={{ display: "flex", flexDirection: "column", gap: 10 }}>
-              <label style={{ fontWeight: 600, fontSize: 14 }}>Search</label>
+              <div
+                style={{
+                  display: "flex",
+                  justifyContent: "space-between",
+                  alignItems: "center"
+                }}
+              >
+                <label style={{ fontWeight: 600, fontSize: 14 }}>Search</label>
+                <label
+                  style={{
+                    display: "flex",
+                    alignItems: "center",
+                    gap: 6,
+                    fontSize: 13,
+                    color: "var(--muted)"
+                  }}
+                >
+                  <input
+                    type="checkbox"
+                    checked={searchMode === "semantic"}
+                    onChange={(event) =>
+                      setSearchMode(event.target.checked ? "semantic" : "keyword")
+                    }
+                  />
+                  Semantic
+                </label>
+              </div>
               <input
                 className="input"
-                placeholder="Search name, tags, description"
+                placeholder={
+                  searchMode === "semantic"
+                    ? "Describe what you are looking for"
+                    : 'tag:contract kind:url size:>2mb "exact phrase" -draft'
+                }
                 value={query}
                 onChange={(event) => setQuery(event.target.value)}
+                style={
+                  parsedQuery.error ? { borderColor: "var(--danger)" } : undefined
+                }
               />
+              {embeddingStatus ? (
+                <span style={{ fontSize: 12, color: "var(--muted)" }}>
+                  {embeddingStatus}
+                  {embeddingFailed ? (
+                    <>
+                      {" "}
+                      <button
+                        type="button"
+                        className="button button-secondary"
+                        style={{ padding: "2px 8px", fontSize: 12 }}
+                        onClick={() => {
+                          setEmbeddingStatus(null);
+                          setEmbeddingFailed(false);
+                        }}
+                      >
+                        Retry
+                      </button>
+                    </>
+                  ) : null}
+                </span>
+              ) : null}
+              {parsedQuery.error ? (
+                <span style={{ fontSize: 12, color: "var(--danger)" }}>
+                  Column {parsedQuery.error.position + 1}: {parsedQuery.error.message}
+                </span>
+              ) : null}
+              {smartCollectionName !== null ? (
+                <form
+                  style={{ display: "flex", gap: 8 }}
+                  onSubmit={handleSaveSmartCollection}
+                >
+                  <input
+                    className="input"
+                    placeholder="Smart collection name"
+                    value={smartCollectionName}
+                    onChange={(event) => setSmartCollectionName(event.target.value)}
+                    autoFocus
+                  />
+                  <button className="button button-primary" type="submit">
+                    Save
+                  </button>
+                  <button
+                    className="button button-secondary"
+                    type="button"
+                    onClick={() => setSmartCollectionName(null)}
+                  >
+                    Cancel
+                  </button>
+                </form>
+              ) : query.trim() && searchMode === "keyword" && !parsedQuery.error ? (
+                <button
+                  type="button"
+                  className="button button-secondary"
+                  style={{ alignSelf: "flex-start", padding: "6px 12px" }}
+                  onClick={() => setSmartCollectionName("")}
+                >
+                  Save as smart collection
+                </button>
+              ) : null}
             </div>
             <div className="chip-row">
               {CATEGORY_OPTIONS.map((option) => (
@@ -697,9 +2491,102 @@ export default function SourceManager() {
                   {option.label}
                 </button>
               ))}
+              {brokenLinkCount || brokenLinksOnly ? (
+                <button
+                  type="button"
+                  className="button button-secondary"
+                  style={{
+                    backgroundColor: brokenLinksOnly
+                      ? "rgba(37,99,235,0.12)"
+                      : "var(--surface-elevated)",
+                    borderColor: brokenLinksOnly ? "rgba(37,99,235,0.5)" : "var(--border)",
+                    color: brokenLinksOnly ? "var(--primary)" : "var(--muted)",
+                    fontWeight: brokenLinksOnly ? 600 : 500
+                  }}
+                  aria-pressed={brokenLinksOnly}
+                  onClick={() => setBrokenLinksOnly((value) => !value)}
+                >
+                  Broken links ({brokenLinkCount})
+                </button>
+              ) : null}
+              {smartCollections.map((collection) => {
+                const isActive = query.trim() === collection.query;
+                return (
+                  <span
+                    key={collection.id}
+                    className="button button-secondary"
+                    style={{
+                      backgroundColor: isActive
+                        ? "rgba(37,99,235,0.12)"
+                        : "var(--surface-elevated)",
+                      borderColor: isActive ? "rgba(37,99,235,0.5)" : "var(--border)",
+                      color: isActive ? "var(--primary)" : "var(--muted)",
+                      fontWeight: isActive ? 600 : 500
+                    }}
+                    title={collection.query}
+                    onClick={() => setQuery(isActive ? "" : collection.query)}
+                  >
+                    ★ {collection.name}
+                    <button
+                      type="button"
+                      aria-label={`Delete ${collection.name}`}
+                      style={{
+                        background: "none",
+                        border: "none",
+                        padding: 0,
+                        cursor: "pointer",
+                        color: "inherit"
+                      }}
+                      onClick={(event) => {
+                        event.stopPropagation();
+                        setSmartCollections((prev) =>
+                          prev.filter((item) => item.id !== collection.id)
+                        );
+                      }}
+                    >
+                      ×
+                    </button>
+                  </span>
+                );
+              })}
             </div>
           </div>
 
+          <CollectionSidebar
+            collections={collections}
+            activeId={activeCollectionId}
+            counts={collectionCounts}
+            busy={sending}
+            onSelect={setActiveCollectionId}
+            onCreate={handleCreateCollection}
+            onDelete={handleDeleteCollection}
+            onDropSources={handleDropOnCollection}
+            onSend={(collection) => void handleSendCollection(collection)}
+          />
+
+          {selectedSources.length ? (
+            <BulkActionBar
+              count={selectedSources.length}
+              filteredCount={filteredSources.length}
+              allFilteredSelected={filteredSources.every((source) => selectedIds.has(source.id))}
+              categories={SOURCE_CATEGORY_OPTIONS}
+              collections={collections}
+              tagSuggestions={allTags}
+              selectionTags={selectionTags}
+              busy={isBulkWorking || isPurging}
+              onSelectAll={handleSelectAllFiltered}
+              onClear={() => setSelectedIds(new Set())}
+              onAddTag={(tag) => void handleBulkAddTag(tag)}
+              onRemoveTag={(tag) => void handleBulkRemoveTag(tag)}
+              onSetCategory={(category) => void handleBulkSetCategory(category)}
+              onMoveToCollection={(collectionId) => void handleBulkMove(collectionId)}
+              onTrash={() => handleTrash(selectedSources)}
+              onDelete={() => void handlePurgeSources(selectedSources)}
+              onExport={() => void handleBulkExport()}
+              onDownload={() => void handleBulkDownload()}
+            />
+          ) : null}
+
           <div className="card">
             <div
               style={{
@@ -708,11 +2595,34 @@ export default function SourceManager() {
                 alignItems: "center"
               }}
             >
-              <h2 style={{ margin: 0, fontSize: 20 }}>Sources</h2>
-              <span style={{ fontSize: 13, color: "var(--muted)" }}>
-                {filteredSources.length} item
-                {filteredSources.length === 1 ? "" : "s"}
-              </span>
+              <h2 style={{ margin: 0, fontSize: 20 }}>
+                {activeCollection ? activeCollection.name : "Sources"}
+              </h2>
+              <div style={{ display: "flex", alignItems: "center", gap: 10 }}>
+                <span style={{ fontSize: 13, color: "var(--muted)" }}>
+                  {filteredSources.length} item
+                  {filteredSources.length === 1 ? "" : "s"}
+                </span>
+                {(["list", "grid"] as const).map((view) => (
+                  <button
+                    key={view}
+                    type="button"
+                    className="button button-secondary"
+                    style={{
+                      padding: "4px 10px",
+                      backgroundColor:
+                        sourceView === view ? "rgba(37,99,235,0.12)" : "var(--surface-elevated)",
+                      borderColor: sourceView === view ? "rgba(37,99,235,0.5)" : "var(--border)",
+                      color: sourceView === view ? "var(--primary)" : "var(--muted)",
+                      fontWeight: sourceView === view ? 600 : 500
+                    }}
+                    aria-pressed={sourceView === view}
+                    onClick={() => setSourceView(view)}
+                  >
+                    {view === "list" ? "List" : "Grid"}
+                  </button>
+                ))}
+              </div>
             </div>
 
             {filteredSources.length === 0 ? (
@@ -723,26 +2633,65 @@ export default function SourceManager() {
                   knowledge base.
                 </span>
               </div>
+            ) : sourceView === "grid" ? (
+              <VirtualList
+                items={filteredSources}
+                getKey={sourceKey}
+                estimateRowHeight={200}
+                gap={14}
+                minColumnWidth={150}
+                style={{ marginTop: 20 }}
+                renderItem={(source) => (
+                  <div
+                    className={`source-tile${selectedId === source.id ? " selected" : ""}`}
+                    onClick={() => setSelectedId(source.id)}
+                    draggable
+                    onDragStart={(event) => handleSourceDragStart(event, source.id)}
+                    title={source.name}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={selectedIds.has(source.id)}
+                      readOnly
+                      onClick={(event) => {
+                        event.stopPropagation();
+                        handleSelectionClick(source.id, event.shiftKey);
+                      }}
+                    />
+                    <SourceThumbnail source={source} size="fill" />
+                    <div className="source-name">{source.name}</div>
+                  </div>
+                )}
+              />
             ) : (
-              <div className="sources-list" style={{ marginTop: 20 }}>
-                {filteredSources.map((source) => (
+              <VirtualList
+                items={filteredSources}
+                getKey={sourceKey}
+                estimateRowHeight={150}
+                gap={18}
+                style={{ marginTop: 20 }}
+                renderItem={(source) => (
                   <article
-                    key={source.id}
                     className={`source-card${
                       selectedId === source.id ? " selected" : ""
                     }`}
                     onClick={() => setSelectedId(source.id)}
+                    draggable
+                    onDragStart={(event) => handleSourceDragStart(event, source.id)}
                   >
                     <div className="source-card-header">
                       <div style={{ display: "flex", alignItems: "center", gap: 12 }}>
                         <input
                           type="checkbox"
                           checked={selectedIds.has(source.id)}
-                          onChange={(event) => {
+                          readOnly
+                          title="Shift+click to select a range"
+                          onClick={(event) => {
                             event.stopPropagation();
-                            toggleSelection(source.id);
+                            handleSelectionClick(source.id, event.shiftKey);
                           }}
                         />
+                        <SourceThumbnail source={source} size={56} />
                         <div>
                           <div className="source-name">{source.name}</div>
                           <div className="source-meta">
@@ -755,8 +2704,30 @@ export default function SourceManager() {
                                 <span>{formatBytes(source.size)}</span>
                               </>
                             ) : null}
+                            {source.media?.duration !== undefined ? (
+                              <>
+                                <span>·</span>
+                                <span>{formatDuration(source.media.duration)}</span>
+                              </>
+                            ) : null}
                             <span>·</span>
                             <span>{formatDate(source.createdAt)}</span>
+                            {syncStatuses[source.id] ? (
+                              <span
+                                className={`sync-badge ${syncStatuses[source.id]}`}
+                                title="Sync status with the shared server"
+                              >
+                                {syncStatuses[source.id]}
+                              </span>
+                            ) : null}
+                            {source.linkCheck && linkHealth(source) !== "ok" ? (
+                              <span
+                                className={`link-badge ${linkHealth(source)}`}
+                                title={describeLinkCheck(source.linkCheck)}
+                              >
+                                {linkHealth(source) === "broken" ? "broken link" : "link changed"}
+                              </span>
+                            ) : null}
                           </div>
                         </div>
                       </div>
@@ -779,7 +2750,7 @@ export default function SourceManager() {
                           style={{ padding: "6px 12px", color: "var(--danger)" }}
                           onClick={(event) => {
                             event.stopPropagation();
-                            void handleDelete(source);
+                            handleTrash([source]);
                           }}
                         >
                           Remove
@@ -801,10 +2772,19 @@ export default function SourceManager() {
                       </div>
                     ) : null}
                   </article>
-                ))}
-              </div>
+                )}
+              />
             )}
           </div>
+
+          <TrashPanel
+            sources={sources.filter(isTrashed)}
+            retentionDays={trashRetentionDays}
+            busy={isPurging}
+            onRestore={handleRestoreFromTrash}
+            onPurge={(targets) => void handlePurgeSources(targets)}
+            onRetentionChange={handleTrashRetentionChange}
+          />
         </section>
 
         <aside className="preview-panel">
@@ -819,89 +2799,391 @@ export default function SourceManager() {
                     gap: 6
                   }}
                 >
-                  <strong style={{ fontSize: 18 }}>{selectedSource.name}</strong>
+                  <div
+                    style={{
+                      display: "flex",
+                      justifyContent: "space-between",
+                      alignItems: "center",
+                      gap: 12
+                    }}
+                  >
+                    <strong style={{ fontSize: 18 }}>{selectedSource.name}</strong>
+                    {editingId !== selectedSource.id ? (
+                      <button
+                        type="button"
+                        className="button button-secondary"
+                        style={{ padding: "6px 12px" }}
+                        onClick={() => setEditingId(selectedSource.id)}
+                      >
+                        Edit
+                      </button>
+                    ) : null}
+                  </div>
                   <span style={{ color: "var(--muted)", fontSize: 13 }}>
                     {selectedSource.kind.toUpperCase()} · {selectedSource.category} ·{" "}
                     {formatDate(selectedSource.createdAt)}
+                    {selectedSource.updatedAt
+                      ? ` · edited ${formatDate(selectedSource.updatedAt)}`
+                      : ""}
                   </span>
                 </div>
 
-                {selectedSource.tags.length ? (
-                  <div className="chip-row">
-                    {selectedSource.tags.map((tag) => (
-                      <span key={tag} className="tag">
-                        #{tag}
-                      </span>
-                    ))}
-                  </div>
-                ) : null}
-
-                {selectedSource.description ? (
-                  <p style={{ margin: 0, color: "var(--muted)" }}>
-                    {selectedSource.description}
-                  </p>
-                ) : null}
-
-                {selectedSource.url ? (
-                  <a
-                    className="button button-primary"
-                    style={{ alignSelf: "flex-start" }}
-                    href={selectedSource.url}
-                    target="_blank"
-                    rel="noreferrer"
-                  >
-                    Open remote resource
-                  </a>
-                ) : null}
+                <div className="chip-row">
+                  {(["details", "history"] as const).map((tab) => (
+                    <button
+                      key={tab}
+                      type="button"
+                      className="button button-secondary"
+                      style={{
+                        padding: "6px 12px",
+                        backgroundColor:
+                          inspectorTab === tab
+                            ? "rgba(37,99,235,0.12)"
+                            : "var(--surface-elevated)",
+                        borderColor:
+                          inspectorTab === tab ? "rgba(37,99,235,0.5)" : "var(--border)",
+                        color: inspectorTab === tab ? "var(--primary)" : "var(--muted)",
+                        fontWeight: inspectorTab === tab ? 600 : 500
+                      }}
+                      onClick={() => setInspectorTab(tab)}
+                    >
+                      {tab === "details" ? "Details" : "History"}
+                    </button>
+                  ))}
+                </div>
 
-                {selectedSource.fileKey && selectedPreview?.objectUrl ? (
+                {inspectorTab === "history" ? (
+                  <RevisionHistory
+                    key={selectedSource.id}
+                    source={selectedSource}
+                    currentText={
+                      selectedSource.kind === "text" ? selectedPreview?.text ?? "" : undefined
+                    }
+                    revisions={revisions}
+                    retention={retention}
+                    busy={isSavingEdit}
+                    onRestore={(revision, text) =>
+                      void handleRestoreRevision(selectedSource, revision, text)
+                    }
+                    onRetentionChange={(policy) => void handleRetentionChange(policy)}
+                  />
+                ) : (
                   <>
-                    {selectedSource.category === "video" ? (
-                      <video
-                        className="preview-media"
-                        controls
-                        src={selectedPreview.objectUrl}
-                      />
-                    ) : selectedSource.category === "image" ? (
-                      <img
-                        className="preview-media"
-                        alt={selectedSource.name}
-                        src={selectedPreview.objectUrl}
-                      />
-                    ) : selectedSource.category === "pdf" ? (
-                      <iframe
-                        className="preview-media"
-                        style={{ minHeight: 320, background: "#fff" }}
-                        src={selectedPreview.objectUrl}
-                        title={selectedSource.name}
-                      />
-                    ) : (
-                      <a
+                  {editingId === selectedSource.id ? (
+                    <SourceEditor
+                      // Remount once a note's text has loaded so the body field starts filled.
+                      key={`${selectedSource.id}:${selectedPreview?.text !== undefined}`}
+                      source={selectedSource}
+                      text={selectedPreview?.text}
+                      tagSuggestions={allTags}
+                      saving={isSavingEdit}
+                      onSave={(edit) => void handleUpdateSource(selectedSource, edit)}
+                      onCancel={() => setEditingId(null)}
+                    />
+                  ) : null}
+
+                  {selectedConflict ? (
+                    <div
+                      style={{
+                        display: "flex",
+                        flexDirection: "column",
+                        gap: 10,
+                        padding: 12,
+                        borderRadius: 12,
+                        border: "1px solid rgba(220,38,38,0.4)",
+                        backgroundColor: "rgba(254,242,242,0.8)",
+                        fontSize: 13
+                      }}
+                    >
+                      <strong style={{ color: "rgb(220,38,38)" }}>Sync conflict</strong>
+                      {selectedConflict.server ? (
+                        <span>
+                          Someone else changed this source on{" "}
+                          {formatDate(selectedConflict.updatedAt)} before your edits
+                          synced. Server version: <strong>{selectedConflict.server.name}</strong>
+                          {selectedConflict.server.tags.length
+                            ? ` · #${selectedConflict.server.tags.join(" #")}`
+                            : ""}
+                          {selectedConflict.server.description
+                            ? ` · ${selectedConflict.server.description}`
+                            : ""}
+                        </span>
+                      ) : (
+                        <span>
+                          This source was deleted on the server on{" "}
+                          {formatDate(selectedConflict.updatedAt)} while you were editing it.
+                        </span>
+                      )}
+                      <div className="inline-actions">
+                        <button
+                          type="button"
+                          className="button button-primary"
+                          style={{ padding: "6px 12px" }}
+                          onClick={() => void handleResolveConflict(selectedSource.id, "local")}
+                        >
+                          Keep mine
+                        </button>
+                        <button
+                          type="button"
+                          className="button button-secondary"
+                          style={{ padding: "6px 12px" }}
+                          onClick={() => void handleResolveConflict(selectedSource.id, "server")}
+                        >
+                          {selectedConflict.server ? "Use server version" : "Delete it"}
+                        </button>
+                      </div>
+                    </div>
+                  ) : null}
+
+                  {editingId !== selectedSource.id && selectedSource.tags.length ? (
+                    <div className="chip-row">
+                      {selectedSource.tags.map((tag) => (
+                        <span key={tag} className="tag">
+                          #{tag}
+                        </span>
+                      ))}
+                    </div>
+                  ) : null}
+
+                  {editingId !== selectedSource.id && selectedSource.description ? (
+                    <p style={{ margin: 0, color: "var(--muted)" }}>
+                      {selectedSource.description}
+                    </p>
+                  ) : null}
+
+                  {parentLink && parentSource ? (
+                    <span style={{ fontSize: 13, color: "var(--muted)" }}>
+                      {parentLink.label}{" "}
+                      <button
+                        type="button"
                         className="button button-secondary"
-                        href={selectedPreview.objectUrl}
-                        download={selectedSource.name}
+                        style={{ padding: "4px 10px", fontSize: 13 }}
+                        onClick={() => setSelectedId(parentSource.id)}
                       >
-                        Download file
-                      </a>
-                    )}
-                  </>
-                ) : null}
+                        {parentSource.name}
+                      </button>
+                    </span>
+                  ) : null}
 
-                {selectedSource.textKey && selectedPreview?.text ? (
-                  <pre
-                    style={{
-                      backgroundColor: "rgba(15,23,42,0.85)",
-                      color: "#f8fafc",
-                      padding: 16,
-                      borderRadius: 12,
-                      overflowX: "auto",
-                      maxHeight: 320,
-                      margin: 0
-                    }}
-                  >
-                    {selectedPreview.text}
-                  </pre>
-                ) : null}
+                  {selectedSource.collectionIds?.length ? (
+                    <div className="chip-row">
+                      {selectedSource.collectionIds.map((collectionId) => {
+                        const collection = collections.find(
+                          (item) => item.id === collectionId
+                        );
+                        if (!collection) return null;
+                        return (
+                          <span key={collectionId} className="chip">
+                            {collection.name}
+                            <button
+                              type="button"
+                              aria-label={`Remove from ${collection.name}`}
+                              style={{
+                                marginLeft: 6,
+                                background: "none",
+                                border: "none",
+                                padding: 0,
+                                cursor: "pointer",
+                                color: "inherit"
+                              }}
+                              onClick={() =>
+                                setSources((prev) =>
+                                  prev.map((source) =>
+                                    source.id === selectedSource.id
+                                      ? removeFromCollection(source, collectionId)
+                                      : source
+                                  )
+                                )
+                              }
+                            >
+                              ×
+                            </button>
+                          </span>
+                        );
+                      })}
+                    </div>
+                  ) : null}
+
+                  {contentSnippets.length ? (
+                    <div style={{ display: "flex", flexDirection: "column", gap: 8 }}>
+                      <span style={{ fontSize: 13, fontWeight: 600 }}>
+                        Matches in content
+                      </span>
+                      {contentSnippets.map((segments, index) => (
+                        <p
+                          key={index}
+                          style={{ margin: 0, fontSize: 13, color: "var(--muted)" }}
+                        >
+                          {segments.map((segment, position) =>
+                            segment.match ? (
+                              <mark key={position} className="search-highlight">
+                                {segment.text}
+                              </mark>
+                            ) : (
+                              <span key={position}>{segment.text}</span>
+                            )
+                          )}
+                        </p>
+                      ))}
+                    </div>
+                  ) : null}
+
+                  {relatedSources.length ? (
+                    <div style={{ display: "flex", flexDirection: "column", gap: 8 }}>
+                      <span style={{ fontSize: 13, fontWeight: 600 }}>
+                        Related sources
+                      </span>
+                      <div className="chip-row">
+                        {relatedSources.map(({ source, score }) => (
+                          <button
+                            key={source.id}
+                            type="button"
+                            className="button button-secondary"
+                            style={{ padding: "6px 12px", fontSize: 13 }}
+                            title={`Similarity ${score.toFixed(2)}`}
+                            onClick={() => setSelectedId(source.id)}
+                          >
+                            {source.name}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  ) : null}
+
+                  {selectedSource.url ? (
+                    <div style={{ display: "flex", flexDirection: "column", gap: 8 }}>
+                      <div className="inline-actions">
+                        <a
+                          className="button button-primary"
+                          href={selectedSource.url}
+                          target="_blank"
+                          rel="noreferrer"
+                        >
+                          Open remote resource
+                        </a>
+                        <button
+                          type="button"
+                          className="button button-secondary"
+                          disabled={snapshotting.has(selectedSource.id)}
+                          onClick={() => handleSnapshotSource(selectedSource)}
+                        >
+                          {snapshotting.has(selectedSource.id)
+                            ? "Saving snapshot…"
+                            : selectedSource.snapshotAt
+                              ? "Refresh snapshot"
+                              : "Save snapshot"}
+                        </button>
+                        {isCheckableLink(selectedSource) ? (
+                          <button
+                            type="button"
+                            className="button button-secondary"
+                            disabled={linkCheckProgress !== null}
+                            onClick={() => void handleCheckLinks([selectedSource])}
+                          >
+                            Check link
+                          </button>
+                        ) : null}
+                      </div>
+                      {selectedSource.linkCheck ? (
+                        <span
+                          style={{ display: "flex", alignItems: "center", gap: 8, fontSize: 13 }}
+                        >
+                          <span className={`link-badge ${linkHealth(selectedSource)}`}>
+                            {linkHealth(selectedSource)}
+                          </span>
+                          {describeLinkCheck(selectedSource.linkCheck)}
+                        </span>
+                      ) : null}
+                      <span style={{ fontSize: 13, color: "var(--muted)" }}>
+                        {selectedSource.snapshotAt
+                          ? `Snapshot saved ${new Date(
+                              selectedSource.snapshotAt
+                            ).toLocaleString()} (HTTP ${
+                              selectedSource.snapshotStatus ?? "unknown"
+                            }). Assistants receive the saved copy.`
+                          : "No snapshot yet. Assistants receive the link and fetch it themselves."}
+                      </span>
+                    </div>
+                  ) : null}
+
+                  {selectedSource.fileKey && selectedPreview?.objectUrl ? (
+                    <>
+                      {selectedSource.category === "audio" ? (
+                        <AudioPreview
+                          source={selectedSource}
+                          objectUrl={selectedPreview.objectUrl}
+                          onMetadata={(info) => updateMediaInfo(selectedSource.id, info)}
+                        />
+                      ) : selectedSource.category === "video" ? (
+                        <VideoPreview
+                          source={selectedSource}
+                          objectUrl={selectedPreview.objectUrl}
+                          onMetadata={(info) => updateMediaInfo(selectedSource.id, info)}
+                          onFrame={(frame, time) =>
+                            void handleVideoFrame(selectedSource, frame, time)
+                          }
+                          onClip={(clip, start, end) =>
+                            void handleVideoClip(selectedSource, clip, start, end)
+                          }
+                          onError={(message) => {
+                            setStatusTone("error");
+                            setStatusMessage(message);
+                            setTimeout(() => setStatusMessage(null), 8000);
+                          }}
+                        />
+                      ) : selectedSource.category === "image" ? (
+                        <img
+                          className="preview-media"
+                          alt={selectedSource.name}
+                          src={selectedPreview.objectUrl}
+                        />
+                      ) : selectedSource.category === "pdf" ? (
+                        <iframe
+                          className="preview-media"
+                          style={{ minHeight: 320, background: "#fff" }}
+                          src={selectedPreview.objectUrl}
+                          title={selectedSource.name}
+                        />
+                      ) : (
+                        <a
+                          className="button button-secondary"
+                          href={selectedPreview.objectUrl}
+                          download={selectedSource.name}
+                        >
+                          Download file
+                        </a>
+                      )}
+                    </>
+                  ) : null}
+
+                  {canTranscribe(selectedSource) ? (
+                    <TranscriptionPanel
+                      transcripts={liveSources.filter(
+                        (source) => source.transcriptOf === selectedSource.id
+                      )}
+                      transcribing={transcribing.has(selectedSource.id)}
+                      onTranscribe={(settings) => void handleTranscribe(selectedSource, settings)}
+                      onSelect={setSelectedId}
+                    />
+                  ) : null}
+
+                  {selectedSource.textKey && selectedPreview?.text ? (
+                    <pre
+                      style={{
+                        backgroundColor: "rgba(15,23,42,0.85)",
+                        color: "#f8fafc",
+                        padding: 16,
+                        borderRadius: 12,
+                        overflowX: "auto",
+                        maxHeight: 320,
+                        margin: 0
+                      }}
+                    >
+                      {selectedPreview.text}
+                    </pre>
+                  ) : null}
+                  </>
+                )}
               </>
             ) : (
               <div
@@ -928,8 +3210,27 @@ export default function SourceManager() {
           <div className="card" style={{ display: "flex", flexDirection: "column", gap: 16 }}>
             <h3 style={{ margin: 0, fontSize: 18 }}>Push to assistant</h3>
             <p style={{ margin: 0, fontSize: 13, color: "var(--muted)" }}>
-              Selected sources will be batched as JSON and delivered to your node.
+              Selected sources are streamed one request per source and delivered
+              to your node.
             </p>
+            {profiles.length ? (
+              <select
+                className="input"
+                value={activeProfile?.id ?? ""}
+                onChange={(event) => setActiveProfileId(event.target.value)}
+              >
+                {profiles.map((profile) => (
+                  <option key={profile.id} value={profile.id}>
+                    {profile.name}
+                    {profile.isDefault ? " (default)" : ""}
+                  </option>
+                ))}
+              </select>
+            ) : (
+              <span style={{ fontSize: 12, color: "var(--muted)" }}>
+                Add an endpoint above to start pushing sources.
+              </span>
+            )}
             <button
               className="button button-primary"
               onClick={handleSendToAssistant}
@@ -944,9 +3245,83 @@ export default function SourceManager() {
                   } selected`
                 : selectedId
                 ? "Sending current selection"
+                : activeCollection
+                ? `Sending collection "${activeCollection.name}"`
                 : "No sources selected"}
             </span>
+            {uploadBatch ? (
+              <div style={{ display: "flex", flexDirection: "column", gap: 10 }}>
+                {uploadBatch.sourceIds.map((id) => {
+                  const source = sources.find((item) => item.id === id);
+                  const progress = uploads[id];
+                  if (!source || !progress) return null;
+                  const percent = progress.total
+                    ? Math.round((progress.loaded / progress.total) * 100)
+                    : progress.status === "done"
+                    ? 100
+                    : 0;
+                  return (
+                    <div
+                      key={id}
+                      style={{ display: "flex", flexDirection: "column", gap: 6 }}
+                    >
+                      <div
+                        style={{
+                          display: "flex",
+                          justifyContent: "space-between",
+                          alignItems: "center",
+                          gap: 8,
+                          fontSize: 13
+                        }}
+                      >
+                        <span>{source.name}</span>
+                        {progress.status === "error" ? (
+                          <button
+                            type="button"
+                            className="button button-secondary"
+                            style={{ padding: "4px 10px", fontSize: 12 }}
+                            onClick={() => void handleRetryUpload(source)}
+                            disabled={sending}
+                          >
+                            Retry
+                          </button>
+                        ) : (
+                          <span style={{ color: "var(--muted)" }}>
+                            {progress.status === "done"
+                              ? "Delivered"
+                              : progress.status === "queued"
+                              ? "Queued"
+                              : `${percent}%`}
+                          </span>
+                        )}
+                      </div>
+                      <div className="progress-track">
+                        <div
+                          className={`progress-bar${
+                            progress.status === "error" ? " error" : ""
+                          }`}
+                          style={{ width: `${percent}%` }}
+                        />
+                      </div>
+                      {progress.error ? (
+                        <span style={{ fontSize: 12, color: "var(--danger)" }}>
+                          {progress.error}
+                        </span>
+                      ) : null}
+                    </div>
+                  );
+                })}
+              </div>
+            ) : null}
           </div>
+
+          <DeliveryHistory
+            entries={outbox}
+            sources={sources}
+            busy={sending}
+            onResend={(entry) => void handleResendBatch(entry)}
+            onRetryNow={(entry) => void handleRetryOutboxEntry(entry)}
+          />
         </aside>
       </div>
     </div>
@@ -0,0 +1,85 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import type { SourceRecord } from "@/lib/sources";
+import { ensureThumbnail, supportsThumbnail, thumbnailKey } from "@/lib/thumbnails";
+
+type SourceThumbnailProps = {
+  source: SourceRecord;
+  // Square edge in pixels; the grid view passes "fill" to span its tile.
+  size: number | "fill";
+};
+
+const PLACEHOLDER_LABELS: Record<SourceRecord["kind"], string> = {
+  file: "FILE",
+  url: "URL",
+  text: "NOTE"
+};
+
+export default function SourceThumbnail({ source, size }: SourceThumbnailProps) {
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const [isVisible, setIsVisible] = useState(false);
+  const [url, setUrl] = useState<string | null>(null);
+  const canHaveThumbnail = supportsThumbnail(source);
+  // Read through a ref so metadata edits do not regenerate the thumbnail.
+  const sourceRef = useRef(source);
+  sourceRef.current = source;
+  const key = thumbnailKey(source);
+  const fileKey = source.fileKey;
+
+  // Nothing is read or generated until the card scrolls into view.
+  useEffect(() => {
+    const element = containerRef.current;
+    if (!element || !canHaveThumbnail || isVisible) return;
+    if (typeof IntersectionObserver === "undefined") {
+      setIsVisible(true);
+      return;
+    }
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) {
+          setIsVisible(true);
+          observer.disconnect();
+        }
+      },
+      { rootMargin: "200px" }
+    );
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [canHaveThumbnail, isVisible]);
+
+  useEffect(() => {
+    if (!isVisible) return;
+    let isCurrent = true;
+    let objectUrl: string | null = null;
+    ensureThumbnail(sourceRef.current)
+      .then((thumbnail) => {
+        if (!isCurrent || !thumbnail) return;
+        objectUrl = URL.createObjectURL(thumbnail);
+        setUrl(objectUrl);
+      })
+      .catch((error) => {
+        console.error("Failed to load thumbnail", error);
+      });
+    return () => {
+      isCurrent = false;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+    // A snapshot stores a new file, so the thumbnail follows its key too.
+  }, [isVisible, key, fileKey]);
+
+  const dimensions =
+    size === "fill" ? { width: "100%", aspectRatio: "1 / 1" } : { width: size, height: size };
+
+  return (
+    <div ref={containerRef} className="source-thumb" style={dimensions} aria-hidden>
+      {url ? (
+        <img src={url} alt="" />
+      ) : (
+        <span>
+          {source.kind === "file" ? source.category.toUpperCase() : PLACEHOLDER_LABELS[source.kind]}
+        </span>
+      )}
+    </div>
+  );
+}
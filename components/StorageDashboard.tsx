@@ -0,0 +1,178 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { SourceCategory, SourceRecord, formatBytes } from "@/lib/sources";
+import { isOpfsSupported, opfsUsage } from "@/lib/opfs";
+import {
+  MAX_FILE_BYTES_INDEXEDDB,
+  MAX_FILE_BYTES_OPFS,
+  StorageEstimateSummary,
+  estimateStorage,
+  requestPersistentStorage,
+  usageByCategory
+} from "@/lib/quota";
+
+type StorageDashboardProps = {
+  sources: SourceRecord[];
+  categories: { key: SourceCategory; label: string }[];
+};
+
+export default function StorageDashboard({ sources, categories }: StorageDashboardProps) {
+  const [estimate, setEstimate] = useState<StorageEstimateSummary | null>(null);
+  const [largeFileBytes, setLargeFileBytes] = useState(0);
+  // Feature checks only run after mount so server and client markup agree.
+  const [hasOpfs, setHasOpfs] = useState(false);
+  const [persistError, setPersistError] = useState<string | null>(null);
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  const live = useMemo(() => sources.filter((source) => !source.deletedAt), [sources]);
+  const trashedBytes = useMemo(
+    () =>
+      sources
+        .filter((source) => source.deletedAt)
+        .reduce((total, source) => total + (source.size ?? 0), 0),
+    [sources]
+  );
+  const breakdown = useMemo(() => usageByCategory(live), [live]);
+  const libraryBytes = breakdown.reduce((total, entry) => total + entry.bytes, 0);
+  // Re-estimate whenever the amount of stored data changes.
+  const storedBytes = libraryBytes + trashedBytes;
+
+  useEffect(() => {
+    setHasOpfs(isOpfsSupported());
+  }, []);
+
+  useEffect(() => {
+    let isCurrent = true;
+    Promise.all([estimateStorage(), opfsUsage().catch(() => 0)])
+      .then(([nextEstimate, nextLargeFileBytes]) => {
+        if (!isCurrent) return;
+        setEstimate(nextEstimate);
+        setLargeFileBytes(nextLargeFileBytes);
+      })
+      .catch((error) => {
+        console.error("Failed to estimate storage", error);
+      });
+    return () => {
+      isCurrent = false;
+    };
+  }, [storedBytes, refreshKey]);
+
+  const handlePersist = async () => {
+    setPersistError(null);
+    try {
+      const granted = await requestPersistentStorage();
+      if (!granted) {
+        setPersistError(
+          "The browser declined. Bookmarking the site or installing it as an app usually helps."
+        );
+      }
+    } catch (error) {
+      console.error("Failed to request persistent storage", error);
+      setPersistError("Persistent storage is not available in this browser.");
+    } finally {
+      setRefreshKey((key) => key + 1);
+    }
+  };
+
+  const usedShare =
+    estimate && estimate.quota ? Math.min(1, estimate.usage / estimate.quota) : 0;
+  const labelFor = (category: SourceCategory) =>
+    categories.find((option) => option.key === category)?.label ?? category;
+
+  return (
+    <div className="card" style={{ display: "flex", flexDirection: "column", gap: 14 }}>
+      <h2 style={{ margin: 0, fontSize: 20 }}>Storage</h2>
+
+      {estimate ? (
+        <div style={{ display: "flex", flexDirection: "column", gap: 6 }}>
+          <div
+            style={{
+              height: 8,
+              borderRadius: 999,
+              backgroundColor: "var(--border)",
+              overflow: "hidden"
+            }}
+          >
+            <div
+              style={{
+                width: `${usedShare * 100}%`,
+                height: "100%",
+                backgroundColor: usedShare > 0.9 ? "var(--danger)" : "var(--primary)"
+              }}
+            />
+          </div>
+          <span style={{ fontSize: 13, color: "var(--muted)" }}>
+            {formatBytes(estimate.usage)} used of {formatBytes(estimate.quota)} available to
+            this site
+          </span>
+        </div>
+      ) : (
+        <p style={{ margin: 0, fontSize: 13, color: "var(--muted)" }}>
+          This browser does not report storage usage.
+        </p>
+      )}
+
+      {breakdown.length ? (
+        <div style={{ display: "flex", flexDirection: "column", gap: 4, fontSize: 13 }}>
+          {breakdown.map((entry) => (
+            <div
+              key={entry.category}
+              style={{ display: "flex", justifyContent: "space-between", gap: 12 }}
+            >
+              <span>
+                {labelFor(entry.category)}{" "}
+                <span style={{ color: "var(--muted)" }}>({entry.count})</span>
+              </span>
+              <span>{formatBytes(entry.bytes)}</span>
+            </div>
+          ))}
+          {trashedBytes ? (
+            <div
+              style={{
+                display: "flex",
+                justifyContent: "space-between",
+                gap: 12,
+                color: "var(--muted)"
+              }}
+            >
+              <span>Trash</span>
+              <span>{formatBytes(trashedBytes)}</span>
+            </div>
+          ) : null}
+        </div>
+      ) : null}
+
+      <p style={{ margin: 0, fontSize: 12, color: "var(--muted)" }}>
+        {hasOpfs
+          ? `Large files are kept in the browser's private file system (${formatBytes(
+              largeFileBytes
+            )} so far). `
+          : ""}
+        Files up to{" "}
+        {formatBytes(hasOpfs ? MAX_FILE_BYTES_OPFS : MAX_FILE_BYTES_INDEXEDDB)} each can be added.
+      </p>
+
+      {estimate?.persisted ? (
+        <span style={{ fontSize: 13, color: "rgb(22,163,74)" }}>
+          Persistent storage is on; the browser will not evict this data.
+        </span>
+      ) : (
+        <div style={{ display: "flex", flexDirection: "column", gap: 6 }}>
+          <button
+            type="button"
+            className="button button-secondary"
+            style={{ alignSelf: "flex-start", padding: "6px 12px" }}
+            onClick={() => void handlePersist()}
+          >
+            Request persistent storage
+          </button>
+          <span style={{ fontSize: 12, color: persistError ? "var(--danger)" : "var(--muted)" }}>
+            {persistError ??
+              "Without it the browser may clear stored files when the device runs low on space."}
+          </span>
+        </div>
+      )}
+    </div>
+  );
+}
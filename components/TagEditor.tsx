@@ -0,0 +1,103 @@
+"use client";
+
+import { useMemo, useState } from "react";
+
+const MAX_TAGS = 12;
+const MAX_SUGGESTIONS = 6;
+
+type TagEditorProps = {
+  tags: string[];
+  suggestions: string[];
+  onChange: (tags: string[]) => void;
+};
+
+export default function TagEditor({ tags, suggestions, onChange }: TagEditorProps) {
+  const [draft, setDraft] = useState("");
+
+  const matches = useMemo(() => {
+    const needle = draft.trim().toLowerCase();
+    if (!needle) return [];
+    return suggestions
+      .filter((tag) => tag.toLowerCase().includes(needle) && !tags.includes(tag))
+      .sort((a, b) => {
+        // Prefix matches first, then alphabetical.
+        const aPrefix = a.toLowerCase().startsWith(needle) ? 0 : 1;
+        const bPrefix = b.toLowerCase().startsWith(needle) ? 0 : 1;
+        return aPrefix - bPrefix || a.localeCompare(b);
+      })
+      .slice(0, MAX_SUGGESTIONS);
+  }, [draft, suggestions, tags]);
+
+  const addTag = (value: string) => {
+    const tag = value.trim();
+    setDraft("");
+    if (!tag || tags.includes(tag) || tags.length >= MAX_TAGS) return;
+    onChange([...tags, tag]);
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === "Enter" || event.key === ",") {
+      event.preventDefault();
+      addTag(draft);
+    } else if (event.key === "Tab" && matches.length && draft.trim()) {
+      event.preventDefault();
+      addTag(matches[0]);
+    } else if (event.key === "Backspace" && !draft && tags.length) {
+      onChange(tags.slice(0, -1));
+    }
+  };
+
+  return (
+    <div style={{ display: "flex", flexDirection: "column", gap: 8 }}>
+      {tags.length ? (
+        <div className="chip-row">
+          {tags.map((tag) => (
+            <span key={tag} className="tag">
+              #{tag}
+              <button
+                type="button"
+                aria-label={`Remove tag ${tag}`}
+                style={{
+                  marginLeft: 6,
+                  background: "none",
+                  border: "none",
+                  padding: 0,
+                  cursor: "pointer",
+                  color: "inherit"
+                }}
+                onClick={() => onChange(tags.filter((item) => item !== tag))}
+              >
+                ×
+              </button>
+            </span>
+          ))}
+        </div>
+      ) : null}
+      <input
+        className="input"
+        placeholder={tags.length >= MAX_TAGS ? "Tag limit reached" : "Add a tag and press Enter"}
+        value={draft}
+        disabled={tags.length >= MAX_TAGS}
+        onChange={(event) => setDraft(event.target.value)}
+        onKeyDown={handleKeyDown}
+        onBlur={() => addTag(draft)}
+      />
+      {matches.length ? (
+        <div className="chip-row">
+          {matches.map((tag) => (
+            <button
+              key={tag}
+              type="button"
+              className="chip"
+              // Keep focus in the input so onBlur doesn't commit the half-typed draft.
+              onMouseDown={(event) => event.preventDefault()}
+              onClick={() => addTag(tag)}
+            >
+              #{tag}
+            </button>
+          ))}
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,109 @@
+"use client";
+
+import { useState } from "react";
+import type { SourceRecord } from "@/lib/sources";
+import {
+  TranscriptionSettings,
+  listTranscriptionProviders,
+  loadTranscriptionSettings,
+  persistTranscriptionSettings
+} from "@/lib/transcription";
+
+type TranscriptionPanelProps = {
+  // Notes already transcribed from this recording.
+  transcripts: SourceRecord[];
+  transcribing: boolean;
+  onTranscribe: (settings: TranscriptionSettings) => void;
+  onSelect: (id: string) => void;
+};
+
+export default function TranscriptionPanel({
+  transcripts,
+  transcribing,
+  onTranscribe,
+  onSelect
+}: TranscriptionPanelProps) {
+  const [settings, setSettings] = useState<TranscriptionSettings>(loadTranscriptionSettings);
+
+  const updateSettings = (patch: Partial<TranscriptionSettings>) => {
+    setSettings((current) => {
+      const next = { ...current, ...patch };
+      persistTranscriptionSettings(next);
+      return next;
+    });
+  };
+
+  return (
+    <div style={{ display: "flex", flexDirection: "column", gap: 8 }}>
+      <div className="inline-actions">
+        <button
+          type="button"
+          className="button button-secondary"
+          disabled={transcribing || !settings.endpoint.trim()}
+          onClick={() => onTranscribe(settings)}
+        >
+          {transcribing
+            ? "Transcribing…"
+            : transcripts.length
+              ? "Transcribe again"
+              : "Transcribe"}
+        </button>
+        {transcripts.map((transcript) => (
+          <button
+            key={transcript.id}
+            type="button"
+            className="button button-secondary"
+            style={{ padding: "6px 12px", fontSize: 13 }}
+            onClick={() => onSelect(transcript.id)}
+          >
+            {transcript.name}
+          </button>
+        ))}
+      </div>
+      <details>
+        <summary style={{ cursor: "pointer", fontSize: 13, color: "var(--muted)" }}>
+          Transcription settings
+        </summary>
+        <div style={{ display: "flex", flexDirection: "column", gap: 8, marginTop: 10 }}>
+          <select
+            className="input"
+            value={settings.providerId}
+            onChange={(event) => updateSettings({ providerId: event.target.value })}
+          >
+            {listTranscriptionProviders().map((provider) => (
+              <option key={provider.id} value={provider.id}>
+                {provider.label}
+              </option>
+            ))}
+          </select>
+          <input
+            className="input"
+            placeholder="http://localhost:8000/v1/audio/transcriptions"
+            value={settings.endpoint}
+            onChange={(event) => updateSettings({ endpoint: event.target.value })}
+          />
+          <div className="inline-actions">
+            <input
+              className="input"
+              style={{ flex: 1 }}
+              placeholder="Model"
+              value={settings.model}
+              onChange={(event) => updateSettings({ model: event.target.value })}
+            />
+            <input
+              className="input"
+              style={{ width: 120 }}
+              placeholder="Language (auto)"
+              value={settings.language}
+              onChange={(event) => updateSettings({ language: event.target.value.trim() })}
+            />
+          </div>
+          <span style={{ fontSize: 12, color: "var(--muted)" }}>
+            The file is sent straight from this browser, so the server must allow requests
+            from this origin (CORS).
+          </span>
+        </div>
+      </details>
+    </div>
+  );
+}
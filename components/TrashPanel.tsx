@@ -0,0 +1,130 @@
+"use client";
+
+import type { SourceRecord } from "@/lib/sources";
+import { TRASH_RETENTION_OPTIONS, purgeDate } from "@/lib/trash";
+
+type TrashPanelProps = {
+  sources: SourceRecord[];
+  retentionDays: number;
+  busy: boolean;
+  onRestore: (ids: string[]) => void;
+  onPurge: (sources: SourceRecord[]) => void;
+  onRetentionChange: (days: number) => void;
+};
+
+export default function TrashPanel({
+  sources,
+  retentionDays,
+  busy,
+  onRestore,
+  onPurge,
+  onRetentionChange
+}: TrashPanelProps) {
+  const trashed = [...sources].sort((a, b) =>
+    (b.deletedAt ?? "").localeCompare(a.deletedAt ?? "")
+  );
+
+  return (
+    <div className="card" style={{ display: "flex", flexDirection: "column", gap: 14 }}>
+      <div
+        style={{
+          display: "flex",
+          justifyContent: "space-between",
+          alignItems: "center"
+        }}
+      >
+        <h2 style={{ margin: 0, fontSize: 20 }}>Trash</h2>
+        <button
+          type="button"
+          className="button button-secondary"
+          style={{ padding: "6px 12px", color: "var(--danger)" }}
+          disabled={busy || !trashed.length}
+          onClick={() => {
+            if (
+              window.confirm(
+                `Permanently delete ${trashed.length} source${
+                  trashed.length === 1 ? "" : "s"
+                } and their files?`
+              )
+            ) {
+              onPurge(trashed);
+            }
+          }}
+        >
+          Empty trash
+        </button>
+      </div>
+
+      <label style={{ display: "flex", alignItems: "center", gap: 8, fontSize: 13 }}>
+        Delete automatically after
+        <select
+          className="input"
+          style={{ width: "auto", padding: "6px 10px" }}
+          value={retentionDays}
+          onChange={(event) => onRetentionChange(Number(event.target.value))}
+        >
+          {TRASH_RETENTION_OPTIONS.map((days) => (
+            <option key={days} value={days}>
+              {days ? `${days} days` : "Never"}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      {trashed.length === 0 ? (
+        <p style={{ margin: 0, fontSize: 13, color: "var(--muted)" }}>
+          Removed sources land here with their files, so they can be restored.
+        </p>
+      ) : (
+        <div style={{ display: "flex", flexDirection: "column", gap: 8 }}>
+          {trashed.map((source) => {
+            const due = purgeDate(source, retentionDays);
+            return (
+              <div
+                key={source.id}
+                style={{
+                  display: "flex",
+                  alignItems: "center",
+                  gap: 12,
+                  padding: "8px 12px",
+                  borderRadius: 12,
+                  border: "1px solid var(--border)"
+                }}
+              >
+                <div style={{ flex: 1, minWidth: 0 }}>
+                  <div className="source-name">{source.name}</div>
+                  <div style={{ fontSize: 12, color: "var(--muted)" }}>
+                    Removed {new Date(source.deletedAt ?? "").toLocaleString()}
+                    {due ? ` · deleted for good ${due.toLocaleDateString()}` : ""}
+                  </div>
+                </div>
+                <button
+                  type="button"
+                  className="button button-secondary"
+                  style={{ padding: "6px 12px" }}
+                  disabled={busy}
+                  onClick={() => onRestore([source.id])}
+                >
+                  Restore
+                </button>
+                <button
+                  type="button"
+                  className="button button-secondary"
+                  style={{ padding: "6px 12px", color: "var(--danger)" }}
+                  disabled={busy}
+                  onClick={() => {
+                    if (window.confirm(`Permanently delete "${source.name}"?`)) {
+                      onPurge([source]);
+                    }
+                  }}
+                >
+                  Delete forever
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
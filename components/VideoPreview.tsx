@@ -0,0 +1,171 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { MediaInfo, SourceRecord, readBlob } from "@/lib/sources";
+import { describeMediaInfo } from "@/lib/audio";
+import {
+  canRecordClips,
+  captureFrame,
+  formatTimestamp,
+  probeVideo,
+  recordClip
+} from "@/lib/video";
+
+type VideoPreviewProps = {
+  source: SourceRecord;
+  objectUrl: string;
+  // Called once the file has been probed, so the record can keep its metadata.
+  onMetadata: (info: MediaInfo) => void;
+  onFrame: (frame: Blob, time: number) => void;
+  onClip: (clip: Blob, start: number, end: number) => void;
+  onError: (message: string) => void;
+};
+
+export default function VideoPreview({
+  source,
+  objectUrl,
+  onMetadata,
+  onFrame,
+  onClip,
+  onError
+}: VideoPreviewProps) {
+  const videoRef = useRef<HTMLVideoElement | null>(null);
+  const onMetadataRef = useRef(onMetadata);
+  const [inPoint, setInPoint] = useState<number | null>(null);
+  const [outPoint, setOutPoint] = useState<number | null>(null);
+  // As reported by the player; recorded WebM files only get one from probing.
+  const [duration, setDuration] = useState(0);
+  // Fraction of the clip recorded so far, while recording.
+  const [clipProgress, setClipProgress] = useState<number | null>(null);
+  // Feature checks only run after mount so server and client markup agree.
+  const [canClip, setCanClip] = useState(false);
+
+  onMetadataRef.current = onMetadata;
+
+  useEffect(() => {
+    setCanClip(canRecordClips());
+  }, []);
+
+  useEffect(() => {
+    setInPoint(null);
+    setOutPoint(null);
+    setDuration(0);
+  }, [source.id, source.fileKey]);
+
+  // Width doubles as the marker that the file was probed, so storing the
+  // probe result ends this effect instead of resetting the clip points.
+  const probed = Boolean(source.media?.width);
+  useEffect(() => {
+    if (!source.fileKey || probed) return;
+    let isCurrent = true;
+    readBlob(source.fileKey)
+      .then((blob) => {
+        if (!blob) throw new Error("Stored file is missing.");
+        return probeVideo(blob);
+      })
+      .then((info) => {
+        if (isCurrent) onMetadataRef.current(info);
+      })
+      .catch((error) => {
+        console.error("Failed to probe video", error);
+      });
+    return () => {
+      isCurrent = false;
+    };
+  }, [source.id, source.fileKey, probed]);
+
+  const currentTime = () => videoRef.current?.currentTime ?? 0;
+  const start = inPoint ?? 0;
+  const end = outPoint ?? (duration || source.media?.duration || 0);
+  const isRecording = clipProgress !== null;
+
+  const handleCaptureFrame = async () => {
+    const video = videoRef.current;
+    if (!video) return;
+    try {
+      onFrame(await captureFrame(video), video.currentTime);
+    } catch (error) {
+      console.error("Failed to capture frame", error);
+      onError(error instanceof Error ? error.message : "Could not capture the frame.");
+    }
+  };
+
+  const handleCreateClip = async () => {
+    if (!source.fileKey || end <= start) return;
+    videoRef.current?.pause();
+    setClipProgress(0);
+    try {
+      const blob = await readBlob(source.fileKey);
+      if (!blob) throw new Error("Stored file is missing.");
+      onClip(await recordClip(blob, start, end, setClipProgress), start, end);
+    } catch (error) {
+      console.error("Failed to record clip", error);
+      onError(error instanceof Error ? error.message : "Could not record the clip.");
+    } finally {
+      setClipProgress(null);
+    }
+  };
+
+  const summary = source.media ? describeMediaInfo(source.media) : "";
+
+  return (
+    <div style={{ display: "flex", flexDirection: "column", gap: 8 }}>
+      <video
+        ref={videoRef}
+        className="preview-media"
+        controls
+        src={objectUrl}
+        onLoadedMetadata={(event) => {
+          const { duration: length } = event.currentTarget;
+          if (Number.isFinite(length)) setDuration(length);
+        }}
+      />
+      {summary ? <span style={{ fontSize: 13, color: "var(--muted)" }}>{summary}</span> : null}
+      <div className="inline-actions" style={{ fontSize: 13 }}>
+        <button
+          type="button"
+          className="button button-secondary"
+          style={{ padding: "6px 12px" }}
+          onClick={() => void handleCaptureFrame()}
+        >
+          Capture frame
+        </button>
+        {canClip ? (
+          <>
+            <button
+              type="button"
+              className="button button-secondary"
+              style={{ padding: "6px 12px" }}
+              disabled={isRecording}
+              onClick={() => setInPoint(currentTime())}
+            >
+              Set in
+            </button>
+            <button
+              type="button"
+              className="button button-secondary"
+              style={{ padding: "6px 12px" }}
+              disabled={isRecording}
+              onClick={() => setOutPoint(currentTime())}
+            >
+              Set out
+            </button>
+            <span style={{ color: "var(--muted)" }}>
+              {formatTimestamp(start)} – {formatTimestamp(end)}
+            </span>
+            <button
+              type="button"
+              className="button button-secondary"
+              style={{ padding: "6px 12px" }}
+              disabled={isRecording || end <= start || (inPoint === null && outPoint === null)}
+              title="Records the segment in real time"
+              onClick={() => void handleCreateClip()}
+            >
+              {isRecording ? `Recording ${Math.round(clipProgress * 100)}%…` : "Create clip"}
+            </button>
+          </>
+        ) : null}
+      </div>
+    </div>
+  );
+}
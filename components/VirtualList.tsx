@@ -0,0 +1,204 @@
+"use client";
+
+import { Fragment, useCallback, useEffect, useMemo, useRef, useState } from "react";
+
+type VirtualListProps<T> = {
+  items: T[];
+  getKey: (item: T) => string;
+  renderItem: (item: T) => React.ReactNode;
+  // Used for rows that have not been measured yet.
+  estimateRowHeight: number;
+  gap: number;
+  // Set for a grid: as many columns of at least this width as fit.
+  minColumnWidth?: number;
+  // Extra pixels rendered above and below the viewport.
+  overscan?: number;
+  className?: string;
+  style?: React.CSSProperties;
+};
+
+type MeasuredRowProps = {
+  rowKey: string;
+  top: number;
+  observer: ResizeObserver | null;
+  style: React.CSSProperties;
+  children: React.ReactNode;
+};
+
+function MeasuredRow({ rowKey, top, observer, style, children }: MeasuredRowProps) {
+  const rowRef = useRef<HTMLDivElement | null>(null);
+
+  useEffect(() => {
+    const element = rowRef.current;
+    if (!element || !observer) return;
+    observer.observe(element);
+    return () => observer.unobserve(element);
+  }, [observer]);
+
+  return (
+    <div
+      ref={rowRef}
+      data-row-key={rowKey}
+      style={{ position: "absolute", top, left: 0, right: 0, ...style }}
+    >
+      {children}
+    </div>
+  );
+}
+
+/**
+ * Renders only the rows near the viewport. The page itself scrolls, so the
+ * visible range is worked out from the list's position in the window. Rows
+ * can have any height; each is measured once rendered.
+ */
+export default function VirtualList<T>({
+  items,
+  getKey,
+  renderItem,
+  estimateRowHeight,
+  gap,
+  minColumnWidth,
+  overscan = 600,
+  className,
+  style
+}: VirtualListProps<T>) {
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const [heights, setHeights] = useState<Map<string, number>>(() => new Map());
+  const [width, setWidth] = useState(0);
+  const [viewport, setViewport] = useState({ top: 0, bottom: 0 });
+  const [rowObserver, setRowObserver] = useState<ResizeObserver | null>(null);
+
+  const columns =
+    minColumnWidth && width
+      ? Math.max(1, Math.floor((width + gap) / (minColumnWidth + gap)))
+      : 1;
+
+  const rows = useMemo(() => {
+    const chunks: T[][] = [];
+    for (let index = 0; index < items.length; index += columns) {
+      chunks.push(items.slice(index, index + columns));
+    }
+    return chunks;
+  }, [items, columns]);
+
+  const rowKeys = useMemo(
+    () => rows.map((row) => `${columns}:${getKey(row[0])}`),
+    [rows, columns, getKey]
+  );
+
+  const layout = useMemo(() => {
+    const offsets: number[] = [];
+    let top = 0;
+    rowKeys.forEach((key) => {
+      offsets.push(top);
+      top += (heights.get(key) ?? estimateRowHeight) + gap;
+    });
+    return { offsets, total: Math.max(0, top - gap) };
+  }, [rowKeys, heights, estimateRowHeight, gap]);
+
+  const updateViewport = useCallback(() => {
+    const element = containerRef.current;
+    if (!element) return;
+    const top = -element.getBoundingClientRect().top;
+    setViewport((prev) =>
+      prev.top === top && prev.bottom === top + window.innerHeight
+        ? prev
+        : { top, bottom: top + window.innerHeight }
+    );
+  }, []);
+
+  useEffect(() => {
+    const element = containerRef.current;
+    if (!element) return;
+    updateViewport();
+    window.addEventListener("scroll", updateViewport, { passive: true });
+    window.addEventListener("resize", updateViewport);
+    const containerObserver = new ResizeObserver((entries) => {
+      setWidth(entries[0].contentRect.width);
+      updateViewport();
+    });
+    containerObserver.observe(element);
+
+    const observer = new ResizeObserver((entries) => {
+      const measured = entries.map((entry) => ({
+        key: (entry.target as HTMLElement).dataset.rowKey,
+        height: (entry.target as HTMLElement).offsetHeight
+      }));
+      // Only a changed height gets a new map, so the layout stays memoized.
+      setHeights((prev) => {
+        let next: Map<string, number> | null = null;
+        measured.forEach(({ key, height }) => {
+          if (key && prev.get(key) !== height) {
+            next = next ?? new Map(prev);
+            next.set(key, height);
+          }
+        });
+        return next ?? prev;
+      });
+    });
+    setRowObserver(observer);
+
+    return () => {
+      window.removeEventListener("scroll", updateViewport);
+      window.removeEventListener("resize", updateViewport);
+      containerObserver.disconnect();
+      observer.disconnect();
+    };
+  }, [updateViewport]);
+
+  // Content above the list can move it without any scroll event.
+  useEffect(() => {
+    updateViewport();
+  }, [layout, updateViewport]);
+
+  // First row whose bottom edge is below the top of the rendered window.
+  const { offsets, total } = layout;
+  const windowTop = viewport.top - overscan;
+  const windowBottom = viewport.bottom + overscan;
+  let low = 0;
+  let high = rows.length;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    const bottom =
+      offsets[middle] + (heights.get(rowKeys[middle]) ?? estimateRowHeight);
+    if (bottom < windowTop) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+  const visible: number[] = [];
+  for (let index = low; index < rows.length && offsets[index] <= windowBottom; index += 1) {
+    visible.push(index);
+  }
+
+  return (
+    <div
+      ref={containerRef}
+      className={className}
+      style={{ ...style, position: "relative", height: total }}
+    >
+      {visible.map((index) => (
+        <MeasuredRow
+          key={rowKeys[index]}
+          rowKey={rowKeys[index]}
+          top={offsets[index]}
+          observer={rowObserver}
+          style={
+            columns > 1
+              ? {
+                  display: "grid",
+                  gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))`,
+                  gap
+                }
+              : {}
+          }
+        >
+          {rows[index].map((item) => (
+            <Fragment key={getKey(item)}>{renderItem(item)}</Fragment>
+          ))}
+        </MeasuredRow>
+      ))}
+    </div>
+  );
+}
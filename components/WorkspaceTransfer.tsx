@@ -0,0 +1,150 @@
+"use client";
+
+import { useRef, useState } from "react";
+import type { StorageMode } from "@/lib/sources";
+import { ImportMode, WorkspaceArchive, readWorkspaceArchive } from "@/lib/workspace";
+
+type WorkspaceTransferProps = {
+  sourceCount: number;
+  busy: boolean;
+  storageMode: StorageMode;
+  onStorageModeChange: (mode: StorageMode) => void;
+  onExport: () => Promise<void>;
+  onImport: (archive: WorkspaceArchive, mode: ImportMode) => Promise<void>;
+};
+
+export default function WorkspaceTransfer({
+  sourceCount,
+  busy,
+  storageMode,
+  onStorageModeChange,
+  onExport,
+  onImport
+}: WorkspaceTransferProps) {
+  const [pending, setPending] = useState<{ fileName: string; archive: WorkspaceArchive } | null>(
+    null
+  );
+  const [error, setError] = useState<string | null>(null);
+  const inputRef = useRef<HTMLInputElement | null>(null);
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    setError(null);
+    try {
+      setPending({ fileName: file.name, archive: await readWorkspaceArchive(file) });
+    } catch (readError) {
+      setPending(null);
+      setError(readError instanceof Error ? readError.message : "Could not read archive.");
+    }
+  };
+
+  const handleImport = async (mode: ImportMode) => {
+    if (!pending) return;
+    if (
+      mode === "replace" &&
+      sourceCount > 0 &&
+      !window.confirm(`Replace all ${sourceCount} local sources with this archive?`)
+    ) {
+      return;
+    }
+    await onImport(pending.archive, mode);
+    setPending(null);
+  };
+
+  return (
+    <div className="card" style={{ display: "flex", flexDirection: "column", gap: 16 }}>
+      <h2 style={{ margin: 0, fontSize: 20 }}>Workspace</h2>
+      <label style={{ display: "flex", flexDirection: "column", gap: 6, fontSize: 13 }}>
+        Library storage
+        <select
+          className="input"
+          value={storageMode}
+          disabled={busy}
+          onChange={(event) => onStorageModeChange(event.target.value as StorageMode)}
+        >
+          <option value="local">This browser only</option>
+          <option value="server">Shared server</option>
+        </select>
+      </label>
+      <p style={{ margin: 0, fontSize: 13, color: "var(--muted)" }}>
+        Export every source, file and note as one ZIP, or import an archive from
+        another browser.
+      </p>
+      <div className="inline-actions">
+        <button
+          type="button"
+          className="button button-secondary"
+          disabled={busy || sourceCount === 0}
+          onClick={() => void onExport()}
+        >
+          Export workspace
+        </button>
+        <button
+          type="button"
+          className="button button-secondary"
+          disabled={busy}
+          onClick={() => inputRef.current?.click()}
+        >
+          Import…
+        </button>
+        <input ref={inputRef} type="file" hidden accept=".zip" onChange={handleFile} />
+      </div>
+
+      {error ? (
+        <p style={{ margin: 0, fontSize: 13, color: "rgb(220,38,38)" }}>{error}</p>
+      ) : null}
+
+      {pending ? (
+        <div
+          style={{
+            display: "flex",
+            flexDirection: "column",
+            gap: 10,
+            padding: 12,
+            borderRadius: 12,
+            border: "1px solid var(--border)"
+          }}
+        >
+          <div style={{ fontSize: 14 }}>
+            <strong>{pending.fileName}</strong>
+            <div style={{ fontSize: 12, color: "var(--muted)" }}>
+              {pending.archive.manifest.sources.length} sources ·{" "}
+              {pending.archive.manifest.collections.length} collections
+              {pending.archive.manifest.exportedAt
+                ? ` · exported ${new Date(pending.archive.manifest.exportedAt).toLocaleString()}`
+                : ""}
+            </div>
+          </div>
+          <div className="inline-actions">
+            <button
+              type="button"
+              className="button button-primary"
+              disabled={busy}
+              onClick={() => void handleImport("merge")}
+            >
+              Merge
+            </button>
+            <button
+              type="button"
+              className="button button-secondary"
+              disabled={busy}
+              onClick={() => void handleImport("replace")}
+            >
+              Replace
+            </button>
+            <button
+              type="button"
+              className="button button-secondary"
+              disabled={busy}
+              onClick={() => setPending(null)}
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      ) : null}
+    </div>
+  );
+}
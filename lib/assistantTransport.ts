@@ -0,0 +1,353 @@
+import {
+  BatchPayload,
+  PAYLOAD_SCHEMA_VERSION,
+  SourceRecord
+} from "@/lib/sources";
+import { ASSISTANT_HEADERS } from "@/lib/payloadSchema";
+import {
+  DEFAULT_PAYLOAD_FORMAT,
+  FormattedRequest,
+  getPayloadFormatter,
+  prepareSource
+} from "@/lib/formatters";
+import {
+  computeContentHash,
+  computeIdempotencyKey,
+  signRequest
+} from "@/lib/signing";
+
+export type UploadStatus = "queued" | "uploading" | "done" | "error";
+
+export type UploadProgress = {
+  status: UploadStatus;
+  loaded: number;
+  total: number;
+  attempts: number;
+  error?: string;
+};
+
+export type UploadBatch = {
+  id: string;
+  endpoint: string;
+  profileId?: string;
+  format?: string;
+  createdAt: string;
+  sourceIds: string[];
+  idempotencyKey: string;
+  contentHashes: Record<string, string>;
+};
+
+export type UploadResponse = {
+  status: number;
+  body: string;
+};
+
+export type UploadAttempt = {
+  at: string;
+  status?: number;
+  body?: string;
+  error?: string;
+};
+
+export type UploadOptions = {
+  onProgress?: (progress: UploadProgress) => void;
+  onAttempt?: (attempt: UploadAttempt) => void;
+  headers?: Record<string, string>;
+  signingSecret?: string;
+  signal?: AbortSignal;
+  maxAttempts?: number;
+};
+
+export class AssistantTransportError extends Error {
+  status?: number;
+  body?: string;
+
+  constructor(message: string, status?: number, body?: string) {
+    super(message);
+    this.name = "AssistantTransportError";
+    this.status = status;
+    this.body = body;
+  }
+}
+
+const RETRY_BASE_DELAY_MS = 1000;
+
+export async function createUploadBatch(
+  endpoint: string,
+  sources: SourceRecord[],
+  profileId?: string,
+  format = DEFAULT_PAYLOAD_FORMAT
+): Promise<UploadBatch> {
+  const contentHashes: Record<string, string> = {};
+  for (const source of sources) {
+    contentHashes[source.id] = await computeContentHash(source);
+  }
+  const idempotencyKey = await computeIdempotencyKey(contentHashes);
+  return {
+    id: `batch-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    endpoint,
+    profileId,
+    format,
+    createdAt: new Date().toISOString(),
+    sourceIds: sources.map((source) => source.id),
+    idempotencyKey,
+    contentHashes
+  };
+}
+
+function toBatchPayload(batch: UploadBatch, index: number): BatchPayload {
+  return {
+    schemaVersion: PAYLOAD_SCHEMA_VERSION,
+    id: batch.id,
+    createdAt: batch.createdAt,
+    index,
+    count: batch.sourceIds.length,
+    idempotencyKey: batch.idempotencyKey
+  };
+}
+
+/**
+ * Key for a request carrying only some of the batch: the batch key followed
+ * by the ids of the sources it sends. Only a request carrying the whole batch
+ * at once uses the batch key alone.
+ */
+export function requestIdempotencyKey(batch: UploadBatch, sourceIds: string[]): string {
+  return `${batch.idempotencyKey}:${[...sourceIds].sort().join(",")}`;
+}
+
+async function buildRequestHeaders(
+  batch: UploadBatch,
+  idempotencyKey: string,
+  request: FormattedRequest,
+  contentSha256?: string,
+  signingSecret?: string
+): Promise<Record<string, string>> {
+  const headers: Record<string, string> = {
+    [ASSISTANT_HEADERS.idempotencyKey]: idempotencyKey,
+    [ASSISTANT_HEADERS.batchKey]: batch.idempotencyKey
+  };
+  if (contentSha256) {
+    headers[ASSISTANT_HEADERS.contentSha256] = contentSha256;
+  }
+  if (!signingSecret) return headers;
+
+  const timestamp = new Date().toISOString();
+  headers[ASSISTANT_HEADERS.timestamp] = timestamp;
+  headers[ASSISTANT_HEADERS.signature] = await signRequest(signingSecret, {
+    timestamp,
+    idempotencyKey,
+    digests: request.digests
+  });
+  return headers;
+}
+
+function postBody(
+  endpoint: string,
+  body: FormData | Blob,
+  headers: Record<string, string>,
+  onUploadProgress: (loaded: number, total: number) => void,
+  signal?: AbortSignal
+): Promise<UploadResponse> {
+  // fetch() cannot report upload progress, so fall back to XHR here.
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open("POST", endpoint);
+    Object.entries(headers).forEach(([name, value]) => {
+      xhr.setRequestHeader(name, value);
+    });
+
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable) {
+        onUploadProgress(event.loaded, event.total);
+      }
+    };
+    xhr.onload = () => {
+      const response = { status: xhr.status, body: xhr.responseText };
+      if (xhr.status >= 200 && xhr.status < 300) {
+        resolve(response);
+      } else {
+        reject(
+          new AssistantTransportError(
+            `Assistant request failed (${xhr.status})`,
+            xhr.status,
+            xhr.responseText
+          )
+        );
+      }
+    };
+    xhr.onerror = () => {
+      reject(new AssistantTransportError("Unable to reach assistant endpoint."));
+    };
+    xhr.onabort = () => {
+      reject(new AssistantTransportError("Upload cancelled."));
+    };
+
+    if (signal) {
+      if (signal.aborted) {
+        xhr.abort();
+        return;
+      }
+      signal.addEventListener("abort", () => xhr.abort(), { once: true });
+    }
+
+    xhr.send(body);
+  });
+}
+
+function isRetryable(error: unknown): boolean {
+  if (!(error instanceof AssistantTransportError)) return false;
+  if (error.status === undefined) return true;
+  return error.status === 408 || error.status === 429 || error.status >= 500;
+}
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timer);
+        resolve();
+      },
+      { once: true }
+    );
+  });
+}
+
+async function sendWithRetry(
+  batch: UploadBatch,
+  idempotencyKey: string,
+  expectedSize: number,
+  build: () => Promise<{ request: FormattedRequest; contentSha256?: string }>,
+  options: UploadOptions
+): Promise<UploadResponse> {
+  const {
+    onProgress,
+    onAttempt,
+    headers = {},
+    signingSecret,
+    signal,
+    maxAttempts = 3
+  } = options;
+  const progress: UploadProgress = {
+    status: "uploading",
+    loaded: 0,
+    total: expectedSize,
+    attempts: 0
+  };
+
+  for (;;) {
+    progress.attempts += 1;
+    progress.status = "uploading";
+    progress.loaded = 0;
+    progress.error = undefined;
+    onProgress?.({ ...progress });
+    const startedAt = new Date().toISOString();
+
+    try {
+      const { request, contentSha256 } = await build();
+      const response = await postBody(
+        batch.endpoint,
+        request.body,
+        {
+          ...headers,
+          ...(await buildRequestHeaders(
+            batch,
+            idempotencyKey,
+            request,
+            contentSha256,
+            signingSecret
+          ))
+        },
+        (loaded, total) => {
+          progress.loaded = loaded;
+          progress.total = total;
+          onProgress?.({ ...progress });
+        },
+        signal
+      );
+      progress.status = "done";
+      progress.loaded = progress.total;
+      onProgress?.({ ...progress });
+      onAttempt?.({ at: startedAt, status: response.status, body: response.body });
+      return response;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Upload failed.";
+      onAttempt?.({
+        at: startedAt,
+        status: error instanceof AssistantTransportError ? error.status : undefined,
+        body: error instanceof AssistantTransportError ? error.body : undefined,
+        error: message
+      });
+      const canRetry =
+        isRetryable(error) && progress.attempts < maxAttempts && !signal?.aborted;
+      if (!canRetry) {
+        progress.status = "error";
+        progress.error = message;
+        onProgress?.({ ...progress });
+        throw error;
+      }
+      await wait(RETRY_BASE_DELAY_MS * 2 ** (progress.attempts - 1), signal);
+    }
+  }
+}
+
+export function isBatchFormat(batch: UploadBatch): boolean {
+  return getPayloadFormatter(batch.format).granularity === "batch";
+}
+
+/** Sends one source on its own; used by per-source formats. */
+export function uploadSource(
+  batch: UploadBatch,
+  source: SourceRecord,
+  options: UploadOptions = {}
+): Promise<UploadResponse> {
+  const formatter = getPayloadFormatter(batch.format);
+  return sendWithRetry(
+    batch,
+    requestIdempotencyKey(batch, [source.id]),
+    source.size ?? 0,
+    async () => {
+      const prepared = await prepareSource(source);
+      const request = await formatter.format(
+        [prepared],
+        toBatchPayload(batch, batch.sourceIds.indexOf(source.id)),
+        batch.contentHashes
+      );
+      return { request, contentSha256: batch.contentHashes[source.id] };
+    },
+    options
+  );
+}
+
+/** Sends every given source in a single body; used by batch formats. */
+export function uploadBatchRequest(
+  batch: UploadBatch,
+  sources: SourceRecord[],
+  options: UploadOptions = {}
+): Promise<UploadResponse> {
+  const formatter = getPayloadFormatter(batch.format);
+  return sendWithRetry(
+    batch,
+    sources.length === batch.sourceIds.length
+      ? batch.idempotencyKey
+      : requestIdempotencyKey(
+          batch,
+          sources.map((source) => source.id)
+        ),
+    sources.reduce((total, source) => total + (source.size ?? 0), 0),
+    async () => {
+      const prepared = [];
+      for (const source of sources) {
+        prepared.push(await prepareSource(source));
+      }
+      const request = await formatter.format(
+        prepared,
+        toBatchPayload(batch, 0),
+        batch.contentHashes
+      );
+      return { request };
+    },
+    options
+  );
+}
@@ -0,0 +1,194 @@
+import type { MediaInfo, SourceRecord } from "@/lib/sources";
+
+/**
+ * Audio analysis for the Inspector: a peak envelope for the waveform plus
+ * duration, sample rate and channel count. decodeAudioData resamples to its
+ * context's rate, so the file's own rate is read from the container header.
+ */
+
+export const WAVEFORM_BUCKETS = 600;
+// Decoding holds the whole signal in memory; longer files get no waveform.
+const MAX_DECODE_BYTES = 40 * 1024 * 1024;
+// Plenty for a waveform, and keeps decoded buffers small.
+const DECODE_SAMPLE_RATE = 8000;
+const HEADER_BYTES = 64 * 1024;
+
+export type AudioAnalysis = {
+  info: MediaInfo;
+  // Peak amplitude per bucket, 0 to 1; missing when the file is too large.
+  peaks?: number[];
+};
+
+// Per stored file; entries are small, so they live for the page's lifetime.
+const analyses = new Map<string, Promise<AudioAnalysis>>();
+
+type HeaderInfo = { sampleRate?: number; channels?: number };
+
+const MP3_SAMPLE_RATES: Record<number, number[]> = {
+  3: [44100, 48000, 32000], // MPEG-1
+  2: [22050, 24000, 16000], // MPEG-2
+  0: [11025, 12000, 8000] // MPEG-2.5
+};
+
+function text(view: DataView, offset: number, length: number): string {
+  let result = "";
+  for (let index = 0; index < length && offset + index < view.byteLength; index += 1) {
+    result += String.fromCharCode(view.getUint8(offset + index));
+  }
+  return result;
+}
+
+function wavHeader(view: DataView): HeaderInfo | undefined {
+  // Chunks follow the 12-byte RIFF header; "fmt " is nearly always first.
+  let offset = 12;
+  while (offset + 8 <= view.byteLength) {
+    const size = view.getUint32(offset + 4, true);
+    if (text(view, offset, 4) === "fmt " && offset + 16 <= view.byteLength) {
+      return {
+        channels: view.getUint16(offset + 10, true),
+        sampleRate: view.getUint32(offset + 12, true)
+      };
+    }
+    offset += 8 + size + (size % 2);
+  }
+  return undefined;
+}
+
+function flacHeader(view: DataView): HeaderInfo | undefined {
+  // STREAMINFO is the first metadata block: 20 bits of rate, 3 of channels - 1.
+  if (view.byteLength < 22) return undefined;
+  const packed = view.getUint32(18);
+  return { sampleRate: packed >>> 12, channels: ((packed >>> 9) & 0x7) + 1 };
+}
+
+function oggHeader(view: DataView): HeaderInfo | undefined {
+  // The first page carries the codec's identification header at byte 28.
+  if (text(view, 28, 8) === "OpusHead" && view.byteLength >= 44) {
+    return { channels: view.getUint8(37), sampleRate: view.getUint32(40, true) };
+  }
+  if (text(view, 29, 6) === "vorbis" && view.byteLength >= 44) {
+    return { channels: view.getUint8(39), sampleRate: view.getUint32(40, true) };
+  }
+  return undefined;
+}
+
+function mp3Header(view: DataView): HeaderInfo | undefined {
+  let offset = 0;
+  if (text(view, 0, 3) === "ID3" && view.byteLength >= 10) {
+    // Tag size is stored as four 7-bit bytes.
+    offset = 10;
+    for (let index = 6; index < 10; index += 1) {
+      offset += view.getUint8(index) << (7 * (9 - index));
+    }
+  }
+  for (; offset + 4 <= view.byteLength; offset += 1) {
+    if (view.getUint8(offset) !== 0xff || (view.getUint8(offset + 1) & 0xe0) !== 0xe0) continue;
+    const version = (view.getUint8(offset + 1) >> 3) & 0x3;
+    const rateIndex = (view.getUint8(offset + 2) >> 2) & 0x3;
+    const sampleRate = MP3_SAMPLE_RATES[version]?.[rateIndex];
+    if (!sampleRate) continue;
+    const mode = view.getUint8(offset + 3) >> 6;
+    return { sampleRate, channels: mode === 3 ? 1 : 2 };
+  }
+  return undefined;
+}
+
+async function readHeaderInfo(blob: Blob, mimeType: string): Promise<HeaderInfo | undefined> {
+  const view = new DataView(await blob.slice(0, HEADER_BYTES).arrayBuffer());
+  if (text(view, 0, 4) === "RIFF" && text(view, 8, 4) === "WAVE") return wavHeader(view);
+  if (text(view, 0, 4) === "fLaC") return flacHeader(view);
+  if (text(view, 0, 4) === "OggS") return oggHeader(view);
+  if (mimeType === "audio/mpeg" || text(view, 0, 3) === "ID3") return mp3Header(view);
+  return undefined;
+}
+
+function computePeaks(buffer: AudioBuffer, buckets: number): number[] {
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, index) =>
+    buffer.getChannelData(index)
+  );
+  const bucketSize = Math.max(1, Math.floor(buffer.length / buckets));
+  const peaks: number[] = [];
+  let loudest = 0;
+  for (let bucket = 0; bucket < buckets; bucket += 1) {
+    const start = bucket * bucketSize;
+    if (start >= buffer.length) break;
+    const end = Math.min(buffer.length, start + bucketSize);
+    let peak = 0;
+    for (const data of channels) {
+      for (let index = start; index < end; index += 1) {
+        const value = Math.abs(data[index]);
+        if (value > peak) peak = value;
+      }
+    }
+    peaks.push(peak);
+    loudest = Math.max(loudest, peak);
+  }
+  // Quiet recordings are scaled up so their shape is still visible.
+  return loudest > 0 ? peaks.map((peak) => peak / loudest) : peaks;
+}
+
+async function decode(blob: Blob): Promise<AudioBuffer> {
+  const context = new OfflineAudioContext(1, 1, DECODE_SAMPLE_RATE);
+  return context.decodeAudioData(await blob.arrayBuffer());
+}
+
+function analysisKey(source: SourceRecord): string {
+  return source.sha256 ? `sha256-${source.sha256}` : source.id;
+}
+
+/**
+ * Decodes a stored audio file once per page load. Duration comes from the
+ * decoded signal; files too large to decode only get their header read.
+ */
+export function analyzeAudio(source: SourceRecord, blob: Blob): Promise<AudioAnalysis> {
+  const key = analysisKey(source);
+  const cached = analyses.get(key);
+  if (cached) return cached;
+
+  const run = (async (): Promise<AudioAnalysis> => {
+    const header = await readHeaderInfo(blob, source.mimeType ?? blob.type).catch(() => undefined);
+    if (blob.size > MAX_DECODE_BYTES) {
+      return { info: { ...header } };
+    }
+    const buffer = await decode(blob);
+    return {
+      info: {
+        duration: buffer.duration,
+        sampleRate: header?.sampleRate,
+        channels: header?.channels ?? buffer.numberOfChannels
+      },
+      peaks: computePeaks(buffer, WAVEFORM_BUCKETS)
+    };
+  })();
+  analyses.set(key, run);
+  // Failures are not kept, so selecting the source again retries.
+  run.catch(() => analyses.delete(key));
+  return run;
+}
+
+export function formatDuration(seconds: number): string {
+  const total = Math.round(seconds);
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const rest = String(total % 60).padStart(2, "0");
+  return hours ? `${hours}:${String(minutes).padStart(2, "0")}:${rest}` : `${minutes}:${rest}`;
+}
+
+function channelLabel(channels: number): string {
+  if (channels === 1) return "mono";
+  if (channels === 2) return "stereo";
+  return `${channels} channels`;
+}
+
+/** One line of media details, e.g. "3:12 · 1920×1080 · H.264 / AAC". */
+export function describeMediaInfo(info: MediaInfo): string {
+  return [
+    info.duration !== undefined ? formatDuration(info.duration) : "",
+    info.width && info.height ? `${info.width}×${info.height}` : "",
+    info.codec ?? "",
+    info.sampleRate ? `${(info.sampleRate / 1000).toLocaleString()} kHz` : "",
+    info.channels ? channelLabel(info.channels) : ""
+  ]
+    .filter(Boolean)
+    .join(" · ");
+}
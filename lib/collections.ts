@@ -0,0 +1,102 @@
+import type { SourceRecord } from "@/lib/sources";
+
+export type Collection = {
+  id: string;
+  name: string;
+  parentId?: string;
+  createdAt: string;
+};
+
+export type CollectionNode = Collection & {
+  depth: number;
+  children: CollectionNode[];
+};
+
+const COLLECTIONS_STORAGE_KEY = "agentic-source-hub::collections";
+
+// Drag payload used when sources are dropped onto a collection.
+export const SOURCE_DRAG_TYPE = "application/x-agentic-source-ids";
+
+export function createCollectionId(): string {
+  return `collection-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function loadCollections(): Collection[] {
+  if (typeof window === "undefined") return [];
+  try {
+    const raw = window.localStorage.getItem(COLLECTIONS_STORAGE_KEY);
+    if (!raw) return [];
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? (parsed as Collection[]) : [];
+  } catch (error) {
+    console.error("Failed to load collections", error);
+    return [];
+  }
+}
+
+export function persistCollections(collections: Collection[]): void {
+  if (typeof window === "undefined") return;
+  window.localStorage.setItem(COLLECTIONS_STORAGE_KEY, JSON.stringify(collections));
+}
+
+export function buildCollectionTree(collections: Collection[]): CollectionNode[] {
+  const build = (parentId: string | undefined, depth: number): CollectionNode[] =>
+    collections
+      .filter((collection) => collection.parentId === parentId)
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map((collection) => ({
+        ...collection,
+        depth,
+        children: build(collection.id, depth + 1)
+      }));
+  return build(undefined, 0);
+}
+
+/** Flattens the tree in display order, parents before their children. */
+export function flattenCollectionTree(nodes: CollectionNode[]): CollectionNode[] {
+  return nodes.flatMap((node) => [node, ...flattenCollectionTree(node.children)]);
+}
+
+/** The collection itself plus every nested collection below it. */
+export function collectionSubtree(collections: Collection[], id: string): Set<string> {
+  const result = new Set([id]);
+  let added = true;
+  while (added) {
+    added = false;
+    for (const collection of collections) {
+      if (collection.parentId && result.has(collection.parentId) && !result.has(collection.id)) {
+        result.add(collection.id);
+        added = true;
+      }
+    }
+  }
+  return result;
+}
+
+export function isInCollection(
+  source: SourceRecord,
+  collections: Collection[],
+  id: string
+): boolean {
+  if (!source.collectionIds?.length) return false;
+  const subtree = collectionSubtree(collections, id);
+  return source.collectionIds.some((collectionId) => subtree.has(collectionId));
+}
+
+export function addToCollection(source: SourceRecord, id: string): SourceRecord {
+  const current = source.collectionIds ?? [];
+  return current.includes(id) ? source : { ...source, collectionIds: [...current, id] };
+}
+
+export function removeFromCollection(source: SourceRecord, id: string): SourceRecord {
+  if (!source.collectionIds?.includes(id)) return source;
+  return {
+    ...source,
+    collectionIds: source.collectionIds.filter((collectionId) => collectionId !== id)
+  };
+}
+
+/** Replaces every membership with a single collection, or clears them for null. */
+export function moveToCollection(source: SourceRecord, id: string | null): SourceRecord {
+  return { ...source, collectionIds: id ? [id] : undefined };
+}
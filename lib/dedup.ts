@@ -0,0 +1,51 @@
+import { SourceRecord, readBlob } from "@/lib/sources";
+import { sha256Hex } from "@/lib/signing";
+
+/**
+ * Duplicate detection for ingest. Files are identified by the SHA-256 of
+ * their bytes, which also names their blob (see contentBlobKey), so a kept
+ * duplicate is just another record pointing at the same stored copy.
+ */
+
+export type DuplicateChoice = "skip" | "keep" | "merge";
+
+// Large files are hashed as a stream, so even OPFS-sized files fit in memory.
+export function hashFile(file: Blob): Promise<string> {
+  return sha256Hex(file);
+}
+
+/** Prefers a live source over one in the Trash when both match. */
+export function findDuplicate(
+  sources: SourceRecord[],
+  sha256: string
+): SourceRecord | undefined {
+  const matches = sources.filter((source) => source.sha256 === sha256);
+  return matches.find((source) => !source.deletedAt) ?? matches[0];
+}
+
+/**
+ * Folds a dropped duplicate into the existing record: a different file name
+ * is noted in the description, and a trashed record comes back.
+ */
+export function mergeDuplicate(existing: SourceRecord, file: File): SourceRecord {
+  const alias = `Also added as ${file.name}.`;
+  const description = existing.description ?? "";
+  const mentionsName = file.name === existing.name || description.includes(alias);
+  return {
+    ...existing,
+    description: mentionsName ? description : [description, alias].filter(Boolean).join("\n"),
+    mimeType: existing.mimeType || file.type,
+    deletedAt: undefined,
+    updatedAt: new Date().toISOString()
+  };
+}
+
+/**
+ * Hashes stored files of records created before hashes were recorded.
+ * Their blobs keep their old keys; only the record learns its hash.
+ */
+export async function hashStoredFile(source: SourceRecord): Promise<string | undefined> {
+  if (!source.fileKey) return undefined;
+  const blob = await readBlob(source.fileKey);
+  return blob ? hashFile(blob) : undefined;
+}
@@ -0,0 +1,112 @@
+export type DiffLine = {
+  number: number;
+  text: string;
+};
+
+export type DiffRow =
+  | { type: "same"; left: DiffLine; right: DiffLine }
+  | { type: "removed"; left: DiffLine }
+  | { type: "added"; right: DiffLine }
+  | { type: "changed"; left: DiffLine; right: DiffLine };
+
+// Above this many cells the LCS table gets too large for the main thread.
+const MAX_DIFF_CELLS = 4_000_000;
+
+/**
+ * Line-based diff for side-by-side display. Lines removed and added at the
+ * same spot are paired up as "changed" rows so they sit next to each other.
+ */
+export function diffLines(before: string, after: string): DiffRow[] {
+  const left = before.split("\n");
+  const right = after.split("\n");
+
+  // Common prefix and suffix are cheap to peel off and keep the table small.
+  let start = 0;
+  while (start < left.length && start < right.length && left[start] === right[start]) {
+    start += 1;
+  }
+  let leftEnd = left.length;
+  let rightEnd = right.length;
+  while (leftEnd > start && rightEnd > start && left[leftEnd - 1] === right[rightEnd - 1]) {
+    leftEnd -= 1;
+    rightEnd -= 1;
+  }
+
+  const rows: DiffRow[] = [];
+  const same = (leftIndex: number, rightIndex: number) =>
+    rows.push({
+      type: "same",
+      left: { number: leftIndex + 1, text: left[leftIndex] },
+      right: { number: rightIndex + 1, text: right[rightIndex] }
+    });
+
+  for (let index = 0; index < start; index += 1) same(index, index);
+
+  const removed: number[] = [];
+  const added: number[] = [];
+  const flush = () => {
+    const paired = Math.min(removed.length, added.length);
+    for (let index = 0; index < paired; index += 1) {
+      rows.push({
+        type: "changed",
+        left: { number: removed[index] + 1, text: left[removed[index]] },
+        right: { number: added[index] + 1, text: right[added[index]] }
+      });
+    }
+    removed.slice(paired).forEach((line) =>
+      rows.push({ type: "removed", left: { number: line + 1, text: left[line] } })
+    );
+    added.slice(paired).forEach((line) =>
+      rows.push({ type: "added", right: { number: line + 1, text: right[line] } })
+    );
+    removed.length = 0;
+    added.length = 0;
+  };
+
+  const rowsCount = leftEnd - start;
+  const colsCount = rightEnd - start;
+  if (rowsCount * colsCount > MAX_DIFF_CELLS) {
+    // Too big to align line by line; show the middle as one replaced block.
+    for (let index = start; index < leftEnd; index += 1) removed.push(index);
+    for (let index = start; index < rightEnd; index += 1) added.push(index);
+    flush();
+  } else {
+    // lengths[i][j] = LCS length of left[start+i..] and right[start+j..]
+    const width = colsCount + 1;
+    const lengths = new Uint32Array((rowsCount + 1) * width);
+    for (let i = rowsCount - 1; i >= 0; i -= 1) {
+      for (let j = colsCount - 1; j >= 0; j -= 1) {
+        lengths[i * width + j] =
+          left[start + i] === right[start + j]
+            ? lengths[(i + 1) * width + j + 1] + 1
+            : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < rowsCount || j < colsCount) {
+      if (i < rowsCount && j < colsCount && left[start + i] === right[start + j]) {
+        flush();
+        same(start + i, start + j);
+        i += 1;
+        j += 1;
+      } else if (
+        j >= colsCount ||
+        (i < rowsCount && lengths[(i + 1) * width + j] >= lengths[i * width + j + 1])
+      ) {
+        removed.push(start + i);
+        i += 1;
+      } else {
+        added.push(start + j);
+        j += 1;
+      }
+    }
+    flush();
+  }
+
+  for (let offset = 0; offset < left.length - leftEnd; offset += 1) {
+    same(leftEnd + offset, rightEnd + offset);
+  }
+  return rows;
+}
@@ -0,0 +1,171 @@
+import type { FeatureExtractionPipeline } from "@xenova/transformers";
+import type { SourceRecord } from "@/lib/sources";
+import { readIndexedText } from "@/lib/textIndex";
+
+/**
+ * Local sentence embeddings for semantic search. The quantized ONNX model and
+ * the ONNX Runtime WASM binaries ship with the app under public/models (see
+ * `npm run fetch-model`) and run on the CPU, so nothing is fetched from
+ * third-party hosts and no text ever leaves the browser.
+ */
+export const EMBEDDING_MODEL = "Xenova/all-MiniLM-L6-v2";
+const LOCAL_MODEL_PATH = "/models/";
+const WASM_PATH = "/models/onnxruntime/";
+const MAX_EMBEDDING_CHARS = 2000;
+
+const VECTOR_DB_NAME = "agentic-source-hub-vectors";
+const VECTOR_STORE_NAME = "vectors";
+
+export type StoredEmbedding = {
+  model: string;
+  signature: string;
+  vector: Float32Array;
+};
+
+let embedderPromise: Promise<FeatureExtractionPipeline> | null = null;
+let vectorDbPromise: Promise<IDBDatabase> | null = null;
+
+function getEmbedder(): Promise<FeatureExtractionPipeline> {
+  if (!embedderPromise) {
+    embedderPromise = import("@xenova/transformers")
+      .then(async ({ env, pipeline }) => {
+        env.allowLocalModels = true;
+        env.localModelPath = LOCAL_MODEL_PATH;
+        env.allowRemoteModels = false;
+        env.backends.onnx.wasm.wasmPaths = WASM_PATH;
+        env.backends.onnx.wasm.numThreads = 1;
+        return (await pipeline("feature-extraction", EMBEDDING_MODEL, {
+          quantized: true
+        })) as FeatureExtractionPipeline;
+      })
+      .catch((error) => {
+        embedderPromise = null;
+        throw error;
+      });
+  }
+  return embedderPromise;
+}
+
+export async function embedText(text: string): Promise<Float32Array> {
+  const embedder = await getEmbedder();
+  const output = await embedder(text.slice(0, MAX_EMBEDDING_CHARS), {
+    pooling: "mean",
+    normalize: true
+  });
+  return new Float32Array(output.data as Float32Array);
+}
+
+function openVectorDb(): Promise<IDBDatabase> {
+  if (!vectorDbPromise) {
+    vectorDbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(VECTOR_DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(VECTOR_STORE_NAME)) {
+          db.createObjectStore(VECTOR_STORE_NAME);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        vectorDbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return vectorDbPromise;
+}
+
+async function withVectorStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest
+): Promise<T> {
+  const db = await openVectorDb();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(VECTOR_STORE_NAME, mode);
+    const request = run(transaction.objectStore(VECTOR_STORE_NAME));
+    transaction.oncomplete = () => resolve(request.result as T);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+/** Changes whenever the text we would embed for a source changes. */
+export function embeddingSignature(source: SourceRecord): string {
+  return JSON.stringify([
+    source.name,
+    source.description ?? "",
+    source.tags,
+    source.extractKey ?? source.textKey ?? "",
+    // Note bodies are rewritten under the same key, so edits show up here.
+    source.updatedAt ?? ""
+  ]);
+}
+
+async function buildEmbeddingInput(source: SourceRecord): Promise<string> {
+  const body = await readIndexedText(source.extractKey, source.textKey);
+  return [source.name, source.description, source.tags.join(", "), body]
+    .filter(Boolean)
+    .join("\n");
+}
+
+export async function loadEmbeddings(): Promise<Map<string, StoredEmbedding>> {
+  const db = await openVectorDb();
+  return new Promise((resolve, reject) => {
+    const result = new Map<string, StoredEmbedding>();
+    const transaction = db.transaction(VECTOR_STORE_NAME, "readonly");
+    const cursorRequest = transaction.objectStore(VECTOR_STORE_NAME).openCursor();
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor) return;
+      const value = cursor.value as StoredEmbedding;
+      if (value.model === EMBEDDING_MODEL) {
+        result.set(String(cursor.key), value);
+      }
+      cursor.continue();
+    };
+    transaction.oncomplete = () => resolve(result);
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+export async function embedSource(source: SourceRecord): Promise<StoredEmbedding> {
+  const embedding: StoredEmbedding = {
+    model: EMBEDDING_MODEL,
+    signature: embeddingSignature(source),
+    vector: await embedText(await buildEmbeddingInput(source))
+  };
+  await withVectorStore<IDBValidKey>("readwrite", (store) =>
+    store.put(embedding, source.id)
+  );
+  return embedding;
+}
+
+export async function removeEmbedding(sourceId: string): Promise<void> {
+  await withVectorStore<undefined>("readwrite", (store) => store.delete(sourceId));
+}
+
+export function cosineSimilarity(a: Float32Array, b: Float32Array): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let index = 0; index < a.length; index += 1) {
+    dot += a[index] * b[index];
+    normA += a[index] * a[index];
+    normB += b[index] * b[index];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+export function rankBySimilarity(
+  query: Float32Array,
+  embeddings: Map<string, StoredEmbedding>,
+  options: { exclude?: string; limit?: number; minScore?: number } = {}
+): { id: string; score: number }[] {
+  const { exclude, limit = Infinity, minScore = 0 } = options;
+  return Array.from(embeddings.entries())
+    .filter(([id]) => id !== exclude)
+    .map(([id, embedding]) => ({ id, score: cosineSimilarity(query, embedding.vector) }))
+    .filter((entry) => entry.score >= minScore)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
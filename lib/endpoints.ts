@@ -0,0 +1,158 @@
+import { deleteSecret, readSecret, storeSecret } from "@/lib/secrets";
+
+export type EndpointHeader = {
+  name: string;
+  // Empty for secret headers; the real value lives in the secret vault.
+  value: string;
+  secret: boolean;
+};
+
+export type EndpointProfile = {
+  id: string;
+  name: string;
+  url: string;
+  headers: EndpointHeader[];
+  isDefault: boolean;
+  // Payload formatter id from lib/formatters; defaults to the Source Hub format.
+  format?: string;
+  // True when an HMAC signing secret is stored in the vault for this profile.
+  signed?: boolean;
+  // Only set on drafts being saved; never persisted.
+  signingSecret?: string;
+};
+
+const ENDPOINT_PROFILES_KEY = "agentic-source-hub::endpoint-profiles";
+const LEGACY_ENDPOINT_KEY = "agentic-source-hub::assistant-endpoint";
+
+export function createEndpointId(): string {
+  return `endpoint-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function headerSecretId(profileId: string, headerName: string): string {
+  return `endpoint::${profileId}::header::${headerName.toLowerCase()}`;
+}
+
+function signingSecretId(profileId: string): string {
+  return `endpoint::${profileId}::signing`;
+}
+
+export function loadEndpointProfiles(): EndpointProfile[] {
+  if (typeof window === "undefined") return [];
+  try {
+    const raw = window.localStorage.getItem(ENDPOINT_PROFILES_KEY);
+    if (raw) {
+      const parsed = JSON.parse(raw);
+      return Array.isArray(parsed) ? (parsed as EndpointProfile[]) : [];
+    }
+    // Carry over the single URL stored by earlier versions.
+    const legacyUrl = window.localStorage.getItem(LEGACY_ENDPOINT_KEY);
+    if (legacyUrl) {
+      window.localStorage.removeItem(LEGACY_ENDPOINT_KEY);
+      return [
+        {
+          id: createEndpointId(),
+          name: "Default",
+          url: legacyUrl,
+          headers: [],
+          isDefault: true
+        }
+      ];
+    }
+    return [];
+  } catch (error) {
+    console.error("Failed to load endpoint profiles", error);
+    return [];
+  }
+}
+
+export function persistEndpointProfiles(profiles: EndpointProfile[]): void {
+  if (typeof window === "undefined") return;
+  const sanitized = profiles.map(({ signingSecret: _secret, ...profile }) => ({
+    ...profile,
+    headers: profile.headers.map((header) =>
+      header.secret ? { ...header, value: "" } : header
+    )
+  }));
+  window.localStorage.setItem(ENDPOINT_PROFILES_KEY, JSON.stringify(sanitized));
+}
+
+export function getDefaultProfile(
+  profiles: EndpointProfile[]
+): EndpointProfile | undefined {
+  return profiles.find((profile) => profile.isDefault) ?? profiles[0];
+}
+
+/**
+ * Saves secret header values into the vault and returns the profile with
+ * those values blanked, ready to be kept in state and localStorage.
+ * An empty secret value keeps whatever was stored before.
+ */
+export async function saveProfileSecrets(
+  profile: EndpointProfile,
+  previous?: EndpointProfile
+): Promise<EndpointProfile> {
+  const headers: EndpointHeader[] = [];
+  for (const header of profile.headers) {
+    if (header.secret && header.value) {
+      await storeSecret(headerSecretId(profile.id, header.name), header.value);
+    }
+    headers.push(header.secret ? { ...header, value: "" } : header);
+  }
+
+  const remaining = new Set(
+    headers.filter((header) => header.secret).map((header) => header.name.toLowerCase())
+  );
+  for (const header of previous?.headers ?? []) {
+    if (header.secret && !remaining.has(header.name.toLowerCase())) {
+      await deleteSecret(headerSecretId(profile.id, header.name));
+    }
+  }
+
+  if (profile.signed && profile.signingSecret) {
+    await storeSecret(signingSecretId(profile.id), profile.signingSecret);
+  } else if (!profile.signed && previous?.signed) {
+    await deleteSecret(signingSecretId(profile.id));
+  }
+
+  const { signingSecret: _secret, ...rest } = profile;
+  return { ...rest, headers };
+}
+
+export async function deleteProfileSecrets(profile: EndpointProfile): Promise<void> {
+  for (const header of profile.headers) {
+    if (header.secret) {
+      await deleteSecret(headerSecretId(profile.id, header.name));
+    }
+  }
+  if (profile.signed) {
+    await deleteSecret(signingSecretId(profile.id));
+  }
+}
+
+// Throws when a signed profile has lost its secret, so nothing goes out unsigned.
+export async function resolveSigningSecret(
+  profile: EndpointProfile
+): Promise<string | undefined> {
+  if (!profile.signed) return undefined;
+  const secret = await readSecret(signingSecretId(profile.id));
+  if (!secret) {
+    throw new Error(`The signing secret for "${profile.name}" is missing. Set it again.`);
+  }
+  return secret;
+}
+
+export async function resolveProfileHeaders(
+  profile: EndpointProfile
+): Promise<Record<string, string>> {
+  const resolved: Record<string, string> = {};
+  for (const header of profile.headers) {
+    if (!header.name.trim()) continue;
+    const value = header.secret
+      ? await readSecret(headerSecretId(profile.id, header.name))
+      : header.value;
+    if (value) {
+      resolved[header.name.trim()] = value;
+    }
+  }
+  return resolved;
+}
@@ -0,0 +1,239 @@
+import {
+  BatchPayload,
+  SourcePayload,
+  SourceRecord,
+  readBlob,
+  toSourcePayload
+} from "@/lib/sources";
+import { sha256Hex } from "@/lib/signing";
+
+export type PreparedSource = {
+  record: SourceRecord;
+  payload: SourcePayload;
+  content?: Blob;
+};
+
+export type FormattedRequest = {
+  body: FormData | Blob;
+  // Digests covered by the request signature, see lib/payloadSchema.
+  digests: string[];
+};
+
+export type PayloadFormatter = {
+  id: string;
+  label: string;
+  // "source" formatters get one request per source and can stream files;
+  // "batch" formatters put every source of the batch into a single body.
+  granularity: "source" | "batch";
+  format: (
+    sources: PreparedSource[],
+    batch: BatchPayload,
+    contentHashes: Record<string, string>
+  ) => Promise<FormattedRequest>;
+};
+
+export const DEFAULT_PAYLOAD_FORMAT = "source-hub";
+
+export async function prepareSource(source: SourceRecord): Promise<PreparedSource> {
+  if (source.fileKey) {
+    const blob = await readBlob(source.fileKey);
+    if (!blob) {
+      throw new Error(`Stored file for "${source.name}" is missing.`);
+    }
+    return {
+      record: source,
+      payload: toSourcePayload(source, { encoding: "multipart", part: "content" }),
+      content: blob
+    };
+  }
+  if (source.textKey) {
+    const blob = await readBlob(source.textKey);
+    return {
+      record: source,
+      payload: toSourcePayload(source, {
+        encoding: "text",
+        value: blob ? await blob.text() : ""
+      })
+    };
+  }
+  return {
+    record: source,
+    payload: toSourcePayload(source, { encoding: "url", value: source.url ?? "" })
+  };
+}
+
+function blobToBase64(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      const dataUrl = String(reader.result);
+      resolve(dataUrl.slice(dataUrl.indexOf(",") + 1));
+    };
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+function mediaTypeOf(source: PreparedSource): string {
+  return source.record.mimeType || source.content?.type || "application/octet-stream";
+}
+
+function summarize(payload: SourcePayload): string {
+  const lines = [`Source: ${payload.name} (${payload.type})`];
+  if (payload.description) lines.push(payload.description);
+  if (payload.tags.length) lines.push(`Tags: ${payload.tags.join(", ")}`);
+  if (payload.data.encoding === "url") lines.push(`URL: ${payload.data.value}`);
+  return lines.join("\n");
+}
+
+async function jsonRequest(value: unknown) {
+  const body = new Blob([JSON.stringify(value)], { type: "application/json" });
+  return { body, digests: [await sha256Hex(body)] };
+}
+
+const sourceHubFormatter: PayloadFormatter = {
+  id: DEFAULT_PAYLOAD_FORMAT,
+  label: "Source Hub (multipart, v1)",
+  granularity: "source",
+  async format([source], batch, contentHashes) {
+    const batchField = JSON.stringify(batch);
+    const sourceField = JSON.stringify(source.payload);
+    const form = new FormData();
+    form.append("batch", batchField);
+    form.append("source", sourceField);
+    if (source.content) {
+      form.append("content", source.content, source.record.name);
+    }
+    return {
+      body: form,
+      digests: [
+        await sha256Hex(batchField),
+        await sha256Hex(sourceField),
+        source.content
+          ? contentHashes[source.record.id] ?? (await sha256Hex(source.content))
+          : "-"
+      ]
+    };
+  }
+};
+
+const openAiFormatter: PayloadFormatter = {
+  id: "openai-messages",
+  label: "OpenAI-style messages",
+  granularity: "batch",
+  async format(sources, batch) {
+    const content: unknown[] = [];
+    for (const source of sources) {
+      const { payload } = source;
+      if (payload.data.encoding === "text") {
+        content.push({ type: "text", text: `${summarize(payload)}\n\n${payload.data.value}` });
+        continue;
+      }
+      content.push({ type: "text", text: summarize(payload) });
+      if (payload.data.encoding === "url") {
+        if (payload.type === "image") {
+          content.push({ type: "image_url", image_url: { url: payload.data.value } });
+        }
+        continue;
+      }
+      if (!source.content) continue;
+      const dataUrl = `data:${mediaTypeOf(source)};base64,${await blobToBase64(source.content)}`;
+      content.push(
+        payload.type === "image"
+          ? { type: "image_url", image_url: { url: dataUrl } }
+          : { type: "file", file: { filename: payload.name, file_data: dataUrl } }
+      );
+    }
+    return jsonRequest({
+      metadata: batch,
+      messages: [{ role: "user", content }]
+    });
+  }
+};
+
+const anthropicFormatter: PayloadFormatter = {
+  id: "anthropic-content",
+  label: "Anthropic-style content blocks",
+  granularity: "batch",
+  async format(sources, batch) {
+    const content: unknown[] = [];
+    for (const source of sources) {
+      const { payload } = source;
+      content.push({ type: "text", text: summarize(payload) });
+      if (payload.data.encoding === "text") {
+        content.push({
+          type: "document",
+          title: payload.name,
+          source: { type: "text", media_type: "text/plain", data: payload.data.value }
+        });
+      } else if (payload.data.encoding === "url") {
+        if (payload.type === "image") {
+          content.push({ type: "image", source: { type: "url", url: payload.data.value } });
+        } else if (payload.type === "pdf") {
+          content.push({
+            type: "document",
+            title: payload.name,
+            source: { type: "url", url: payload.data.value }
+          });
+        }
+      } else if (source.content && (payload.type === "image" || payload.type === "pdf")) {
+        const data = await blobToBase64(source.content);
+        content.push(
+          payload.type === "image"
+            ? {
+                type: "image",
+                source: { type: "base64", media_type: mediaTypeOf(source), data }
+              }
+            : {
+                type: "document",
+                title: payload.name,
+                source: { type: "base64", media_type: "application/pdf", data }
+              }
+        );
+      }
+    }
+    return jsonRequest({
+      metadata: batch,
+      messages: [{ role: "user", content }]
+    });
+  }
+};
+
+const ndjsonFormatter: PayloadFormatter = {
+  id: "ndjson",
+  label: "NDJSON stream",
+  granularity: "batch",
+  async format(sources, batch) {
+    const lines: string[] = [JSON.stringify({ record: "batch", ...batch })];
+    for (const source of sources) {
+      const payload: SourcePayload =
+        source.content && source.payload.data.encoding === "multipart"
+          ? {
+              ...source.payload,
+              data: { encoding: "base64", value: await blobToBase64(source.content) }
+            }
+          : source.payload;
+      lines.push(JSON.stringify({ record: "source", ...payload }));
+    }
+    const body = new Blob([lines.join("\n"), "\n"], { type: "application/x-ndjson" });
+    return { body, digests: [await sha256Hex(body)] };
+  }
+};
+
+const registry = new Map<string, PayloadFormatter>();
+
+export function registerPayloadFormatter(formatter: PayloadFormatter): void {
+  registry.set(formatter.id, formatter);
+}
+
+export function getPayloadFormatter(id?: string): PayloadFormatter {
+  return registry.get(id ?? DEFAULT_PAYLOAD_FORMAT) ?? sourceHubFormatter;
+}
+
+export function listPayloadFormatters(): PayloadFormatter[] {
+  return Array.from(registry.values());
+}
+
+[sourceHubFormatter, openAiFormatter, anthropicFormatter, ndjsonFormatter].forEach(
+  registerPayloadFormatter
+);
@@ -0,0 +1,124 @@
+import type { LinkCheck, SourceRecord } from "@/lib/sources";
+import { baseMimeType } from "@/lib/mime";
+
+/**
+ * Health checks for URL sources. Links are checked through /api/link-check,
+ * either on demand or when the last check is older than the chosen interval,
+ * and each result is kept on the source as its linkCheck.
+ */
+
+const LINK_CHECK_ENDPOINT = "/api/link-check";
+const LINK_CHECK_INTERVAL_KEY = "agentic-source-hub::link-check-interval-hours";
+// Matches the route's per-request limit.
+const LINK_CHECK_BATCH_SIZE = 25;
+const HOUR_MS = 60 * 60 * 1000;
+
+export const DEFAULT_LINK_CHECK_INTERVAL_HOURS = 24;
+// 0 turns scheduled checks off; links are then only checked by hand.
+export const LINK_CHECK_INTERVAL_OPTIONS = [6, 24, 168, 0];
+
+export type LinkCheckResult = LinkCheck & { url: string };
+
+export type LinkHealth = "unchecked" | "ok" | "changed" | "broken";
+
+export function loadLinkCheckIntervalHours(): number {
+  if (typeof window === "undefined") return DEFAULT_LINK_CHECK_INTERVAL_HOURS;
+  const raw = window.localStorage.getItem(LINK_CHECK_INTERVAL_KEY);
+  const hours = raw === null ? NaN : Number(raw);
+  return Number.isInteger(hours) && hours >= 0 ? hours : DEFAULT_LINK_CHECK_INTERVAL_HOURS;
+}
+
+export function persistLinkCheckIntervalHours(hours: number): void {
+  if (typeof window === "undefined") return;
+  window.localStorage.setItem(LINK_CHECK_INTERVAL_KEY, String(hours));
+}
+
+export function isCheckableLink(source: SourceRecord): boolean {
+  return source.kind === "url" && Boolean(source.url);
+}
+
+export function linkHealth(source: SourceRecord): LinkHealth {
+  const check = source.linkCheck;
+  if (!check) return "unchecked";
+  if (check.error || (check.status ?? 0) >= 400) return "broken";
+  return check.changed ? "changed" : "ok";
+}
+
+export function describeLinkCheck(check: LinkCheck): string {
+  const when = new Date(check.checkedAt).toLocaleString();
+  if (check.error) return `${check.error} (checked ${when})`;
+  const details = [
+    `HTTP ${check.status}`,
+    check.redirectedTo ? `redirects to ${check.redirectedTo}` : "",
+    check.contentType ? baseMimeType(check.contentType) : ""
+  ].filter(Boolean);
+  return `${details.join(", ")} (checked ${when})`;
+}
+
+export function isLinkCheckDue(
+  source: SourceRecord,
+  intervalHours: number,
+  now = Date.now()
+): boolean {
+  if (!isCheckableLink(source) || intervalHours <= 0) return false;
+  if (!source.linkCheck) return true;
+  return new Date(source.linkCheck.checkedAt).getTime() + intervalHours * HOUR_MS <= now;
+}
+
+/**
+ * Compares a new result with the previous check. Lengths are only compared
+ * for non-HTML responses: pages are regenerated on every request, so their
+ * length changes without the link having moved.
+ */
+function hasChanged(previous: LinkCheck | undefined, next: LinkCheck): boolean {
+  if (!previous || previous.error || next.error) return false;
+  if ((previous.redirectedTo ?? "") !== (next.redirectedTo ?? "")) return true;
+  const type = baseMimeType(next.contentType);
+  if (baseMimeType(previous.contentType) !== type) return true;
+  return (
+    type !== "text/html" &&
+    previous.contentLength !== undefined &&
+    next.contentLength !== undefined &&
+    previous.contentLength !== next.contentLength
+  );
+}
+
+export function applyLinkCheck(source: SourceRecord, result: LinkCheckResult): SourceRecord {
+  const check: LinkCheck = {
+    checkedAt: result.checkedAt,
+    status: result.status,
+    redirectedTo: result.redirectedTo,
+    contentType: result.contentType,
+    contentLength: result.contentLength,
+    error: result.error
+  };
+  return {
+    ...source,
+    linkCheck: { ...check, changed: hasChanged(source.linkCheck, check) }
+  };
+}
+
+/** Checks URLs in batches; onProgress gets the number of URLs done so far. */
+export async function checkLinks(
+  urls: string[],
+  onProgress?: (done: number) => void
+): Promise<LinkCheckResult[]> {
+  const results: LinkCheckResult[] = [];
+  for (let index = 0; index < urls.length; index += LINK_CHECK_BATCH_SIZE) {
+    const response = await fetch(LINK_CHECK_ENDPOINT, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ urls: urls.slice(index, index + LINK_CHECK_BATCH_SIZE) })
+    });
+    if (!response.ok) {
+      const body = await response.json().catch(() => null);
+      throw new Error(
+        typeof body?.error === "string" ? body.error : `Link check failed (${response.status}).`
+      );
+    }
+    const body = (await response.json()) as { results: LinkCheckResult[] };
+    results.push(...body.results);
+    onProgress?.(results.length);
+  }
+  return results;
+}
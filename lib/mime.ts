@@ -0,0 +1,224 @@
+import {
+  SourceCategory,
+  categoryFromExtension,
+  detectCategoryFromMime
+} from "@/lib/sources";
+
+/**
+ * Content sniffing. Declared types (file extensions, Content-Type headers)
+ * are often missing or wrong, so the first bytes of the content win when
+ * they carry a recognisable signature.
+ */
+
+// Enough to see past the first ZIP entry to the Office folder names.
+const SNIFF_BYTES = 4096;
+const TS_PACKET_BYTES = 188;
+
+type Signature = {
+  mimeType: string;
+  bytes: (number | null)[];
+  offset?: number;
+};
+
+const ascii = (text: string) => Array.from(text, (char) => char.charCodeAt(0));
+const any = (count: number) => new Array<null>(count).fill(null);
+
+// null matches any byte. Tried in order; none of them is a prefix of another.
+const SIGNATURES: Signature[] = [
+  { mimeType: "application/pdf", bytes: ascii("%PDF-") },
+  { mimeType: "image/png", bytes: [0x89, ...ascii("PNG"), 0x0d, 0x0a, 0x1a, 0x0a] },
+  { mimeType: "image/jpeg", bytes: [0xff, 0xd8, 0xff] },
+  { mimeType: "image/gif", bytes: ascii("GIF8") },
+  { mimeType: "image/webp", bytes: [...ascii("RIFF"), ...any(4), ...ascii("WEBP")] },
+  // The four reserved bytes keep text that starts with "BM" out.
+  { mimeType: "image/bmp", bytes: [...ascii("BM"), ...any(4), 0, 0, 0, 0] },
+  { mimeType: "image/tiff", bytes: [...ascii("II"), 0x2a, 0x00] },
+  { mimeType: "image/tiff", bytes: [...ascii("MM"), 0x00, 0x2a] },
+  { mimeType: "image/x-icon", bytes: [0x00, 0x00, 0x01, 0x00] },
+  { mimeType: "audio/wav", bytes: [...ascii("RIFF"), ...any(4), ...ascii("WAVE")] },
+  { mimeType: "video/x-msvideo", bytes: [...ascii("RIFF"), ...any(4), ...ascii("AVI ")] },
+  { mimeType: "audio/aiff", bytes: [...ascii("FORM"), ...any(4), ...ascii("AIFF")] },
+  { mimeType: "audio/flac", bytes: ascii("fLaC") },
+  { mimeType: "audio/ogg", bytes: ascii("OggS") },
+  // ID3 tags (versions 2.2 to 2.4) in front of MP3 frames.
+  ...[2, 3, 4].map((version) => ({
+    mimeType: "audio/mpeg",
+    bytes: [...ascii("ID3"), version]
+  })),
+  { mimeType: "video/webm", bytes: [0x1a, 0x45, 0xdf, 0xa3] },
+  { mimeType: "video/mpeg", bytes: [0x00, 0x00, 0x01, 0xba] },
+  { mimeType: "application/rtf", bytes: ascii("{\\rtf") },
+  {
+    mimeType: "application/x-ole-storage",
+    bytes: [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]
+  },
+  { mimeType: "application/zip", bytes: [...ascii("PK"), 0x03, 0x04] },
+  { mimeType: "application/gzip", bytes: [0x1f, 0x8b] },
+  {
+    mimeType: "application/x-bzip2",
+    bytes: [...ascii("BZh"), null, 0x31, 0x41, 0x59, 0x26, 0x53, 0x59]
+  },
+  { mimeType: "application/x-xz", bytes: [0xfd, ...ascii("7zXZ"), 0x00] },
+  { mimeType: "application/x-7z-compressed", bytes: [...ascii("7z"), 0xbc, 0xaf, 0x27, 0x1c] },
+  { mimeType: "application/vnd.rar", bytes: [...ascii("Rar!"), 0x1a, 0x07] },
+  { mimeType: "application/x-tar", bytes: ascii("ustar"), offset: 257 }
+];
+
+// ISO media files all carry "ftyp"; the brand after it says what they hold.
+const FTYP_BRANDS: [RegExp, string][] = [
+  [/^qt/, "video/quicktime"],
+  [/^M4[AB]/, "audio/mp4"],
+  [/^(heic|heix|mif1|msf1)/, "image/heic"],
+  [/^avi[fs]/, "image/avif"],
+  [/^3g/, "video/3gpp"]
+];
+
+// Office Open XML and OpenDocument files are ZIPs; their entry names give them away.
+const ZIP_CONTENTS: [RegExp, string][] = [
+  [
+    /(^|[^\w/])word\//,
+    "application/vnd.openxmlformats-officedocument.wordprocessingml.document"
+  ],
+  [/(^|[^\w/])xl\//, "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"],
+  [
+    /(^|[^\w/])ppt\//,
+    "application/vnd.openxmlformats-officedocument.presentationml.presentation"
+  ],
+  [
+    /mimetypeapplication\/vnd\.oasis\.opendocument\.text/,
+    "application/vnd.oasis.opendocument.text"
+  ],
+  [
+    /mimetypeapplication\/vnd\.oasis\.opendocument\.spreadsheet/,
+    "application/vnd.oasis.opendocument.spreadsheet"
+  ],
+  [
+    /mimetypeapplication\/vnd\.oasis\.opendocument\.presentation/,
+    "application/vnd.oasis.opendocument.presentation"
+  ],
+  [/mimetypeapplication\/epub\+zip/, "application/epub+zip"]
+];
+
+// Text formats the extension decides between; their content has no signature.
+const TEXT_CATEGORIES: SourceCategory[] = ["text", "code", "spreadsheet"];
+
+export type FileTypeInfo = {
+  mimeType: string;
+  category: SourceCategory;
+  // Set when the extension suggests a different category than the content.
+  mismatch?: { extension: string; expected: SourceCategory };
+};
+
+function matches(header: Uint8Array, { bytes, offset = 0 }: Signature): boolean {
+  if (header.length < offset + bytes.length) return false;
+  return bytes.every((byte, index) => byte === null || header[offset + index] === byte);
+}
+
+function latin1(header: Uint8Array, start = 0, end = header.length): string {
+  return Array.from(header.subarray(start, end), (byte) => String.fromCharCode(byte)).join("");
+}
+
+function sniffSignature(header: Uint8Array, name: string): string | undefined {
+  if (latin1(header, 4, 8) === "ftyp") {
+    const brand = latin1(header, 8, 12);
+    return FTYP_BRANDS.find(([pattern]) => pattern.test(brand))?.[1] ?? "video/mp4";
+  }
+  // MPEG audio frames open with an 11-bit sync word; layer bits 00 mean ADTS (AAC).
+  if (header[0] === 0xff && (header[1] & 0xe0) === 0xe0 && header[1] !== 0xff) {
+    return (header[1] & 0x06) === 0 ? "audio/aac" : "audio/mpeg";
+  }
+  // MPEG transport streams repeat a sync byte every packet.
+  if ([0, 1, 2].every((packet) => header[packet * TS_PACKET_BYTES] === 0x47)) {
+    return "video/mp2t";
+  }
+
+  const signature = SIGNATURES.find((candidate) => matches(header, candidate));
+  if (!signature) return undefined;
+  if (signature.mimeType === "application/zip") {
+    const entries = latin1(header);
+    return ZIP_CONTENTS.find(([pattern]) => pattern.test(entries))?.[1] ?? signature.mimeType;
+  }
+  // Legacy Office files share one container; only the name tells them apart.
+  if (signature.mimeType === "application/x-ole-storage") {
+    const extension = name.toLowerCase().split(".").pop();
+    if (extension === "xls") return "application/vnd.ms-excel";
+    if (extension === "ppt") return "application/vnd.ms-powerpoint";
+    return "application/msword";
+  }
+  return signature.mimeType;
+}
+
+function looksLikeText(header: Uint8Array): boolean {
+  // Binary formats nearly always contain NUL or other control bytes early on.
+  return header.every((byte) => byte >= 0x20 || (byte >= 0x09 && byte <= 0x0d));
+}
+
+function sniffMarkup(text: string): string | undefined {
+  const start = text.trimStart().toLowerCase();
+  if (/^<!doctype html|^<html[\s>]|^<head[\s>]|^<body[\s>]/.test(start)) return "text/html";
+  if (/^<svg[\s>]/.test(start) || (start.startsWith("<?xml") && start.includes("<svg"))) {
+    return "image/svg+xml";
+  }
+  if (start.startsWith("<?xml")) return "application/xml";
+  return undefined;
+}
+
+/** Strips parameters: "text/html; charset=utf-8" becomes "text/html". */
+export function baseMimeType(contentType: string | undefined): string {
+  return (contentType ?? "").split(";")[0].trim().toLowerCase();
+}
+
+async function readHeader(blob: Blob): Promise<Uint8Array> {
+  return new Uint8Array(await blob.slice(0, SNIFF_BYTES).arrayBuffer());
+}
+
+function sniffHeader(header: Uint8Array, declared: string, name: string): string {
+  const signature = sniffSignature(header, name);
+  if (signature) return signature;
+
+  const declaredType = baseMimeType(declared);
+  if (header.length && looksLikeText(header)) {
+    const markup = sniffMarkup(new TextDecoder().decode(header));
+    if (markup) return markup;
+    // A text-looking PDF or image is mislabelled text, not a broken PDF.
+    return TEXT_CATEGORIES.includes(detectCategoryFromMime(declaredType))
+      ? declaredType
+      : "text/plain";
+  }
+  return declaredType || "application/octet-stream";
+}
+
+/**
+ * Works out the real type of some content from its leading bytes, falling
+ * back to the declared type when nothing matches.
+ */
+export async function sniffMimeType(
+  blob: Blob,
+  declared = blob.type,
+  name = ""
+): Promise<string> {
+  return sniffHeader(await readHeader(blob), declared, name);
+}
+
+/**
+ * Type and category of a file from its content. Binary files are filed by
+ * what they really are; plain text has no signature, so for text (and for
+ * binary formats not recognised here) the extension still decides.
+ */
+export async function detectFileType(file: File): Promise<FileTypeInfo> {
+  const header = await readHeader(file);
+  const mimeType = sniffHeader(header, file.type, file.name);
+  const byName = categoryFromExtension(file.name);
+  const recognised = Boolean(sniffSignature(header, file.name));
+  const isText = !recognised && header.length > 0 && looksLikeText(header);
+
+  if (byName && !recognised && (!isText || TEXT_CATEGORIES.includes(byName))) {
+    return { mimeType, category: byName };
+  }
+  const category = detectCategoryFromMime(mimeType);
+  if (byName && byName !== category) {
+    const extension = file.name.split(".").pop() ?? "";
+    return { mimeType, category, mismatch: { extension, expected: byName } };
+  }
+  return { mimeType, category };
+}
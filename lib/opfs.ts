@@ -0,0 +1,88 @@
+/**
+ * Blob storage in the Origin Private File System. Large files live here
+ * instead of IndexedDB: they are written to disk in chunks rather than held
+ * in one structured-clone, and reading returns a File backed by disk.
+ */
+
+const OPFS_DIRECTORY = "agentic-source-hub-blobs";
+
+let directoryPromise: Promise<FileSystemDirectoryHandle> | null = null;
+
+export function isOpfsSupported(): boolean {
+  return (
+    typeof navigator !== "undefined" &&
+    typeof navigator.storage?.getDirectory === "function" &&
+    typeof FileSystemFileHandle !== "undefined" &&
+    "createWritable" in FileSystemFileHandle.prototype
+  );
+}
+
+function getBlobDirectory(): Promise<FileSystemDirectoryHandle> {
+  if (!directoryPromise) {
+    directoryPromise = navigator.storage
+      .getDirectory()
+      .then((root) => root.getDirectoryHandle(OPFS_DIRECTORY, { create: true }))
+      .catch((error) => {
+        directoryPromise = null;
+        throw error;
+      });
+  }
+  return directoryPromise;
+}
+
+// Blob keys contain "::", which is not a valid file name everywhere.
+function fileNameFor(key: string): string {
+  return encodeURIComponent(key);
+}
+
+export async function writeOpfsBlob(key: string, blob: Blob): Promise<void> {
+  const directory = await getBlobDirectory();
+  const handle = await directory.getFileHandle(fileNameFor(key), { create: true });
+  const writable = await handle.createWritable();
+  try {
+    await blob.stream().pipeTo(writable);
+  } catch (error) {
+    await directory.removeEntry(fileNameFor(key)).catch(() => undefined);
+    throw error;
+  }
+}
+
+export async function readOpfsBlob(key: string): Promise<Blob | undefined> {
+  if (!isOpfsSupported()) return undefined;
+  try {
+    const directory = await getBlobDirectory();
+    const handle = await directory.getFileHandle(fileNameFor(key));
+    return await handle.getFile();
+  } catch (error) {
+    if (error instanceof DOMException && error.name === "NotFoundError") return undefined;
+    throw error;
+  }
+}
+
+export async function deleteOpfsBlob(key: string): Promise<void> {
+  if (!isOpfsSupported()) return;
+  try {
+    const directory = await getBlobDirectory();
+    await directory.removeEntry(fileNameFor(key));
+  } catch (error) {
+    if (error instanceof DOMException && error.name === "NotFoundError") return;
+    throw error;
+  }
+}
+
+/** Bytes held in OPFS, for the storage dashboard. */
+export async function opfsUsage(): Promise<number> {
+  if (!isOpfsSupported()) return 0;
+  const directory = await getBlobDirectory();
+  let total = 0;
+  // Directory iteration is not in every DOM lib yet, hence the cast.
+  const entries = (
+    directory as unknown as { values(): AsyncIterable<FileSystemHandle> }
+  ).values();
+  for await (const entry of entries) {
+    if (entry.kind === "file") {
+      total += (await (entry as FileSystemFileHandle).getFile()).size;
+    }
+  }
+  return total;
+}
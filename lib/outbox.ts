@@ -0,0 +1,105 @@
+import type { UploadAttempt, UploadBatch } from "@/lib/assistantTransport";
+
+export type OutboxStatus = "pending" | "delivered" | "failed" | "abandoned";
+
+export type DeliveryAttempt = UploadAttempt & {
+  sourceId: string;
+};
+
+export type OutboxEntry = UploadBatch & {
+  status: OutboxStatus;
+  deliveredIds: string[];
+  attempts: DeliveryAttempt[];
+  retryCount: number;
+  nextAttemptAt?: string;
+};
+
+const OUTBOX_STORAGE_KEY = "agentic-source-hub::outbox";
+const OUTBOX_HISTORY_LIMIT = 50;
+const RESPONSE_BODY_LIMIT = 2000;
+const RETRY_BASE_DELAY_MS = 30_000;
+const RETRY_MAX_DELAY_MS = 30 * 60_000;
+
+export const MAX_DELIVERY_RETRIES = 6;
+
+export function loadOutbox(): OutboxEntry[] {
+  if (typeof window === "undefined") return [];
+  try {
+    const raw = window.localStorage.getItem(OUTBOX_STORAGE_KEY);
+    if (!raw) return [];
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? (parsed as OutboxEntry[]) : [];
+  } catch (error) {
+    console.error("Failed to load outbox", error);
+    return [];
+  }
+}
+
+export function persistOutbox(entries: OutboxEntry[]): void {
+  if (typeof window === "undefined") return;
+  window.localStorage.setItem(
+    OUTBOX_STORAGE_KEY,
+    JSON.stringify(entries.slice(0, OUTBOX_HISTORY_LIMIT))
+  );
+}
+
+export function createOutboxEntry(batch: UploadBatch): OutboxEntry {
+  return {
+    ...batch,
+    status: "pending",
+    deliveredIds: [],
+    attempts: [],
+    retryCount: 0
+  };
+}
+
+export function recordDeliveryAttempt(
+  entry: OutboxEntry,
+  sourceId: string,
+  attempt: UploadAttempt
+): OutboxEntry {
+  const body =
+    attempt.body && attempt.body.length > RESPONSE_BODY_LIMIT
+      ? `${attempt.body.slice(0, RESPONSE_BODY_LIMIT)}…`
+      : attempt.body;
+  const succeeded = !attempt.error;
+  return {
+    ...entry,
+    attempts: [...entry.attempts, { ...attempt, body, sourceId }],
+    deliveredIds:
+      succeeded && !entry.deliveredIds.includes(sourceId)
+        ? [...entry.deliveredIds, sourceId]
+        : entry.deliveredIds
+  };
+}
+
+export function pendingSourceIds(entry: OutboxEntry): string[] {
+  return entry.sourceIds.filter((id) => !entry.deliveredIds.includes(id));
+}
+
+export function nextRetryDelay(retryCount: number): number {
+  return Math.min(RETRY_BASE_DELAY_MS * 2 ** retryCount, RETRY_MAX_DELAY_MS);
+}
+
+// Called once a delivery pass finishes: either the batch is complete, or it
+// is rescheduled with exponential backoff until the retry budget runs out.
+export function settleOutboxEntry(entry: OutboxEntry, now = Date.now()): OutboxEntry {
+  if (pendingSourceIds(entry).length === 0) {
+    return { ...entry, status: "delivered", nextAttemptAt: undefined };
+  }
+  if (entry.retryCount >= MAX_DELIVERY_RETRIES) {
+    return { ...entry, status: "abandoned", nextAttemptAt: undefined };
+  }
+  return {
+    ...entry,
+    status: "failed",
+    retryCount: entry.retryCount + 1,
+    nextAttemptAt: new Date(now + nextRetryDelay(entry.retryCount)).toISOString()
+  };
+}
+
+export function isRetryDue(entry: OutboxEntry, now = Date.now()): boolean {
+  if (entry.status === "pending") return true;
+  if (entry.status !== "failed" || !entry.nextAttemptAt) return false;
+  return new Date(entry.nextAttemptAt).getTime() <= now;
+}
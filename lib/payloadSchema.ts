@@ -0,0 +1,130 @@
+/**
+ * Contract between the Source Hub and a receiving agent, version 1.1. Version
+ * 1.1 added the audio, document, spreadsheet, code and archive source types.
+ *
+ * With the default "source-hub" format every source is POSTed as its own
+ * multipart/form-data request with these fields:
+ *   - `batch`   JSON, see `batchFieldSchema`
+ *   - `source`  JSON, see `sourceFieldSchema`
+ *   - `content` binary file part, only when `source.data.encoding` is "multipart"
+ *
+ * When the endpoint profile has a signing secret, the receiver can verify the
+ * request by recomputing
+ *
+ *   HMAC-SHA256(secret, `${timestamp}.${idempotencyKey}.${sha256(batch)}.${sha256(source)}.${sha256(content) | "-"}`)
+ *
+ * over the raw field values, where `idempotencyKey` is the request's own
+ * Idempotency-Key header, and comparing it, in constant time, with the hex
+ * digest in the signature header (prefixed with `v1=`). Reject requests whose
+ * timestamp is too far from the receiver's clock to limit replays.
+ *
+ * Formats that send a whole batch in one body (OpenAI messages, Anthropic
+ * content blocks, NDJSON) sign `${timestamp}.${idempotencyKey}.${sha256(body)}`
+ * instead and do not send the content hash header.
+ */
+export const ASSISTANT_HEADERS = {
+  /**
+   * Unique per request and stable across retries: `${batchKey}:${source.id}`
+   * for per-source formats. Batch formats send the batch key alone, or append
+   * the comma-separated ids when retrying only some of the sources.
+   */
+  idempotencyKey: "Idempotency-Key",
+  /** Stable per batch; identical sources and content yield the same key. */
+  batchKey: "X-Source-Hub-Batch-Key",
+  /** ISO-8601 time the request was signed. */
+  timestamp: "X-Source-Hub-Timestamp",
+  /** `v1=<hex HMAC-SHA256>` of the canonical string above. */
+  signature: "X-Source-Hub-Signature",
+  /** Hex SHA-256 of the `content` part, or of the note text / URL. Per-source formats only. */
+  contentSha256: "X-Source-Hub-Content-SHA256"
+} as const;
+
+export const batchFieldSchema = {
+  $schema: "https://json-schema.org/draft/2020-12/schema",
+  $id: "https://agentic-source-hub/schemas/v1/batch.json",
+  type: "object",
+  required: ["schemaVersion", "id", "createdAt", "index", "count", "idempotencyKey"],
+  properties: {
+    schemaVersion: { type: "string", pattern: "^1\\.\\d+$" },
+    id: { type: "string" },
+    createdAt: { type: "string", format: "date-time" },
+    index: { type: "integer", minimum: 0 },
+    count: { type: "integer", minimum: 1 },
+    idempotencyKey: {
+      type: "string",
+      pattern: "^[0-9a-f]{64}$",
+      description:
+        "SHA-256 over the sorted `${sourceId}:${contentSha256}` lines of the batch; also sent as the batch key header."
+    }
+  }
+} as const;
+
+export const sourceFieldSchema = {
+  $schema: "https://json-schema.org/draft/2020-12/schema",
+  $id: "https://agentic-source-hub/schemas/v1/source.json",
+  type: "object",
+  required: ["id", "name", "type", "kind", "tags", "createdAt", "data"],
+  properties: {
+    id: { type: "string" },
+    name: { type: "string" },
+    type: {
+      enum: [
+        "video",
+        "image",
+        "audio",
+        "pdf",
+        "document",
+        "spreadsheet",
+        "text",
+        "code",
+        "archive",
+        "other"
+      ]
+    },
+    kind: { enum: ["file", "url", "text"] },
+    tags: { type: "array", items: { type: "string" } },
+    createdAt: { type: "string", format: "date-time" },
+    updatedAt: { type: "string", format: "date-time" },
+    size: { type: "integer", minimum: 0 },
+    mimeType: { type: "string" },
+    description: { type: "string" },
+    data: {
+      oneOf: [
+        {
+          type: "object",
+          required: ["encoding", "part"],
+          properties: {
+            encoding: { const: "multipart" },
+            part: { const: "content" }
+          }
+        },
+        {
+          type: "object",
+          required: ["encoding", "value"],
+          properties: {
+            // "base64" only appears in NDJSON lines, which inline file bytes.
+            encoding: { enum: ["text", "url", "base64"] },
+            value: { type: "string" }
+          }
+        }
+      ]
+    }
+  }
+} as const;
+
+export const requestHeadersSchema = {
+  $schema: "https://json-schema.org/draft/2020-12/schema",
+  $id: "https://agentic-source-hub/schemas/v1/headers.json",
+  type: "object",
+  required: [ASSISTANT_HEADERS.idempotencyKey, ASSISTANT_HEADERS.batchKey],
+  properties: {
+    [ASSISTANT_HEADERS.idempotencyKey]: { type: "string", pattern: "^[0-9a-f]{64}(:.+)?$" },
+    [ASSISTANT_HEADERS.batchKey]: { type: "string", pattern: "^[0-9a-f]{64}$" },
+    [ASSISTANT_HEADERS.contentSha256]: { type: "string", pattern: "^[0-9a-f]{64}$" },
+    [ASSISTANT_HEADERS.timestamp]: { type: "string", format: "date-time" },
+    [ASSISTANT_HEADERS.signature]: { type: "string", pattern: "^v1=[0-9a-f]{64}$" }
+  },
+  dependentRequired: {
+    [ASSISTANT_HEADERS.signature]: [ASSISTANT_HEADERS.timestamp]
+  }
+} as const;
@@ -0,0 +1,43 @@
+import type { PDFDocumentProxy } from "pdfjs-dist";
+
+let pdfjsPromise: Promise<typeof import("pdfjs-dist")> | null = null;
+
+// pdf.js is large, so it is only pulled in the first time a PDF is processed.
+function loadPdfjs() {
+  if (!pdfjsPromise) {
+    pdfjsPromise = import("pdfjs-dist").then((pdfjs) => {
+      pdfjs.GlobalWorkerOptions.workerSrc = new URL(
+        "pdfjs-dist/build/pdf.worker.min.js",
+        import.meta.url
+      ).toString();
+      return pdfjs;
+    });
+  }
+  return pdfjsPromise;
+}
+
+export async function openPdf(blob: Blob): Promise<PDFDocumentProxy> {
+  const pdfjs = await loadPdfjs();
+  return pdfjs.getDocument({ data: new Uint8Array(await blob.arrayBuffer()) }).promise;
+}
+
+export async function extractPdfText(blob: Blob): Promise<string> {
+  const document = await openPdf(blob);
+  try {
+    const pages: string[] = [];
+    for (let pageNumber = 1; pageNumber <= document.numPages; pageNumber += 1) {
+      const page = await document.getPage(pageNumber);
+      const content = await page.getTextContent();
+      pages.push(
+        content.items
+          .map((item) => ("str" in item ? item.str : ""))
+          .join(" ")
+          .replace(/\s+/g, " ")
+          .trim()
+      );
+    }
+    return pages.join("\n\n");
+  } finally {
+    await document.destroy();
+  }
+}
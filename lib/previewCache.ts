@@ -0,0 +1,130 @@
+import { SourceRecord, readBlob } from "@/lib/sources";
+
+/**
+ * Inspector previews, loaded on demand and kept in a small LRU cache. An
+ * entry is either an object URL for a stored file or the text of a note.
+ * Object URLs pin their blob in memory, so they are revoked on eviction.
+ */
+
+export type PreviewEntry = {
+  objectUrl?: string;
+  text?: string;
+};
+
+type CachedPreview = {
+  entry: PreviewEntry;
+  // Identifies the stored content the entry was built from.
+  version: string;
+  bytes: number;
+};
+
+export type PreviewCacheOptions = {
+  maxEntries: number;
+  maxBytes: number;
+};
+
+export const DEFAULT_PREVIEW_CACHE: PreviewCacheOptions = {
+  maxEntries: 24,
+  maxBytes: 64 * 1024 * 1024
+};
+
+export type PreviewCache = {
+  load(source: SourceRecord): Promise<PreviewEntry>;
+  peek(source: SourceRecord): PreviewEntry | undefined;
+  evict(id: string): void;
+  clear(): void;
+};
+
+// Notes are edited in place, so their version follows updatedAt; files never change.
+function previewVersion(source: SourceRecord): string {
+  return [source.fileKey, source.textKey, source.updatedAt ?? source.createdAt].join("|");
+}
+
+function release(cached: CachedPreview): void {
+  if (cached.entry.objectUrl) {
+    URL.revokeObjectURL(cached.entry.objectUrl);
+  }
+}
+
+export function createPreviewCache(
+  options: PreviewCacheOptions = DEFAULT_PREVIEW_CACHE
+): PreviewCache {
+  // Map iteration order doubles as recency order: oldest first.
+  const entries = new Map<string, CachedPreview>();
+  const pending = new Map<string, Promise<PreviewEntry>>();
+  let totalBytes = 0;
+
+  const remove = (id: string) => {
+    const cached = entries.get(id);
+    if (!cached) return;
+    entries.delete(id);
+    totalBytes -= cached.bytes;
+    release(cached);
+  };
+
+  // The newest entry always stays, even when it alone is over the byte limit.
+  const trim = () => {
+    for (const id of Array.from(entries.keys())) {
+      if (entries.size <= 1) break;
+      if (entries.size <= options.maxEntries && totalBytes <= options.maxBytes) break;
+      remove(id);
+    }
+  };
+
+  const touch = (id: string, cached: CachedPreview) => {
+    entries.delete(id);
+    entries.set(id, cached);
+  };
+
+  const peek = (source: SourceRecord) => {
+    const cached = entries.get(source.id);
+    if (!cached || cached.version !== previewVersion(source)) return undefined;
+    touch(source.id, cached);
+    return cached.entry;
+  };
+
+  const read = async (source: SourceRecord): Promise<CachedPreview> => {
+    const version = previewVersion(source);
+    if (source.fileKey) {
+      const blob = await readBlob(source.fileKey);
+      return blob
+        ? { entry: { objectUrl: URL.createObjectURL(blob) }, version, bytes: blob.size }
+        : { entry: {}, version, bytes: 0 };
+    }
+    if (source.textKey) {
+      const blob = await readBlob(source.textKey);
+      const text = blob ? await blob.text() : undefined;
+      return { entry: { text }, version, bytes: (text?.length ?? 0) * 2 };
+    }
+    return { entry: {}, version, bytes: 0 };
+  };
+
+  return {
+    peek,
+    load(source) {
+      const hit = peek(source);
+      if (hit) return Promise.resolve(hit);
+      const key = `${source.id}|${previewVersion(source)}`;
+      const inFlight = pending.get(key);
+      if (inFlight) return inFlight;
+
+      const run = read(source)
+        .then((cached) => {
+          remove(source.id);
+          entries.set(source.id, cached);
+          totalBytes += cached.bytes;
+          trim();
+          return cached.entry;
+        })
+        .finally(() => {
+          pending.delete(key);
+        });
+      pending.set(key, run);
+      return run;
+    },
+    evict: remove,
+    clear() {
+      Array.from(entries.keys()).forEach(remove);
+    }
+  };
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import type { SourceRecord } from "@/lib/sources";
+import { evaluateQuery, parseQuery } from "@/lib/query";
+
+const source: SourceRecord = {
+  id: "source-1",
+  name: "https://example.com/contract.pdf",
+  kind: "url",
+  category: "pdf",
+  tags: ["contract"],
+  createdAt: "2026-08-15T12:00:00.000Z",
+  size: 3 * 1024 * 1024
+};
+
+const matches = (query: string) => {
+  const { ast, error } = parseQuery(query);
+  expect(error).toBeUndefined();
+  return ast ? evaluateQuery(ast, source) : true;
+};
+
+describe("parseQuery", () => {
+  it("parses known fields", () => {
+    expect(parseQuery("tag:contract").ast).toEqual({
+      type: "field",
+      field: "tag",
+      value: "contract"
+    });
+    expect(matches("tags:contract kind:url size:>2mb created:<2026-09-01")).toBe(true);
+    expect(matches("type:video OR -tag:contract")).toBe(false);
+  });
+
+  it("searches words with an unknown prefix as free text", () => {
+    expect(parseQuery("https://example.com/contract.pdf").ast).toEqual({
+      type: "term",
+      value: "https://example.com/contract.pdf"
+    });
+    expect(matches("https://example.com kind:url")).toBe(true);
+    expect(matches("note:contract")).toBe(false);
+    expect(parseQuery("constructor:x").ast).toEqual({ type: "term", value: "constructor:x" });
+  });
+
+  it("reports syntax errors with their position", () => {
+    expect(parseQuery("size:>lots").error?.position).toBe(0);
+    expect(parseQuery('tag:a "open').error?.message).toBe("Unterminated quote.");
+    expect(parseQuery("(tag:a").error?.message).toBe("Missing closing parenthesis.");
+  });
+});
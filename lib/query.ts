@@ -0,0 +1,348 @@
+import type { SourceRecord } from "@/lib/sources";
+
+/**
+ * Query syntax for the source search box.
+ *
+ *   tag:contract kind:url size:>2mb created:<2026-09-01 "exact phrase" -draft
+ *
+ * Terms next to each other are ANDed; `OR`, `AND`, `NOT`/`-` and parentheses
+ * combine them explicitly. Free words and phrases match the name, description,
+ * tags and indexed document content. A word whose prefix is not a known field,
+ * such as a pasted URL, is searched as free text too.
+ */
+
+export type QueryField = "tag" | "kind" | "category" | "name" | "mime" | "size" | "created";
+
+export type Comparator = "=" | ">" | ">=" | "<" | "<=";
+
+export type QueryNode =
+  | { type: "and"; children: QueryNode[] }
+  | { type: "or"; children: QueryNode[] }
+  | { type: "not"; child: QueryNode }
+  | { type: "term"; value: string }
+  | { type: "phrase"; value: string }
+  | { type: "field"; field: "tag" | "kind" | "category" | "name" | "mime"; value: string }
+  | { type: "size"; op: Comparator; bytes: number }
+  | { type: "created"; op: Comparator; start: number; end: number };
+
+export type ParsedQuery = {
+  ast: QueryNode | null;
+  error?: QuerySyntaxError;
+};
+
+export type QueryContext = {
+  // Source ids whose indexed content matches a given free term or phrase.
+  contentMatches?: Map<string, Set<string>>;
+};
+
+export class QuerySyntaxError extends Error {
+  position: number;
+
+  constructor(message: string, position: number) {
+    super(message);
+    this.name = "QuerySyntaxError";
+    this.position = position;
+  }
+}
+
+type Token =
+  | { kind: "lparen" | "rparen" | "and" | "or" | "not"; position: number }
+  | { kind: "word" | "phrase"; value: string; position: number }
+  | { kind: "field"; field: string; value: string; position: number };
+
+const FIELD_ALIASES: Record<string, QueryField> = {
+  tag: "tag",
+  tags: "tag",
+  kind: "kind",
+  type: "category",
+  category: "category",
+  name: "name",
+  title: "name",
+  mime: "mime",
+  size: "size",
+  created: "created"
+};
+
+const SIZE_UNITS: Record<string, number> = {
+  "": 1,
+  b: 1,
+  kb: 1024,
+  mb: 1024 ** 2,
+  gb: 1024 ** 3
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function readQuoted(input: string, start: number): { value: string; end: number } {
+  const close = input.indexOf('"', start + 1);
+  if (close === -1) {
+    throw new QuerySyntaxError("Unterminated quote.", start);
+  }
+  return { value: input.slice(start + 1, close), end: close + 1 };
+}
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < input.length) {
+    const char = input[index];
+    if (/\s/.test(char)) {
+      index += 1;
+      continue;
+    }
+    if (char === "(" || char === ")") {
+      tokens.push({ kind: char === "(" ? "lparen" : "rparen", position: index });
+      index += 1;
+      continue;
+    }
+    if (char === "-" && index + 1 < input.length && !/\s/.test(input[index + 1])) {
+      tokens.push({ kind: "not", position: index });
+      index += 1;
+      continue;
+    }
+    if (char === '"') {
+      const { value, end } = readQuoted(input, index);
+      tokens.push({ kind: "phrase", value, position: index });
+      index = end;
+      continue;
+    }
+
+    const start = index;
+    while (index < input.length && !/[\s()"]/.test(input[index])) {
+      index += 1;
+    }
+    const word = input.slice(start, index);
+    const colon = word.indexOf(":");
+    const prefix = word.slice(0, Math.max(colon, 0)).toLowerCase();
+
+    if (Object.prototype.hasOwnProperty.call(FIELD_ALIASES, prefix)) {
+      let value = word.slice(colon + 1);
+      if (!value && input[index] === '"') {
+        const quoted = readQuoted(input, index);
+        value = quoted.value;
+        index = quoted.end;
+      }
+      tokens.push({ kind: "field", field: prefix, value, position: start });
+    } else if (word === "AND" || word === "OR" || word === "NOT") {
+      tokens.push({ kind: word.toLowerCase() as "and" | "or" | "not", position: start });
+    } else {
+      tokens.push({ kind: "word", value: word, position: start });
+    }
+  }
+
+  return tokens;
+}
+
+function splitComparator(value: string): { op: Comparator; rest: string } {
+  const match = /^(>=|<=|>|<|=)?(.*)$/.exec(value);
+  return { op: (match?.[1] as Comparator) ?? "=", rest: match?.[2] ?? "" };
+}
+
+function parseField(token: Extract<Token, { kind: "field" }>): QueryNode {
+  const field = FIELD_ALIASES[token.field];
+  if (!token.value) {
+    throw new QuerySyntaxError(`Missing value for "${token.field}:".`, token.position);
+  }
+
+  if (field === "size") {
+    const { op, rest } = splitComparator(token.value);
+    const match = /^(\d+(?:\.\d+)?)\s*(b|kb|mb|gb)?$/i.exec(rest);
+    if (!match) {
+      throw new QuerySyntaxError(`Invalid size "${token.value}". Try size:>2mb.`, token.position);
+    }
+    const unit = SIZE_UNITS[(match[2] ?? "").toLowerCase()];
+    return { type: "size", op, bytes: Number(match[1]) * unit };
+  }
+
+  if (field === "created") {
+    const { op, rest } = splitComparator(token.value);
+    if (!/^\d{4}-\d{2}(-\d{2})?$/.test(rest) || Number.isNaN(Date.parse(rest))) {
+      throw new QuerySyntaxError(
+        `Invalid date "${token.value}". Use YYYY-MM-DD.`,
+        token.position
+      );
+    }
+    const start = new Date(`${rest.length === 7 ? `${rest}-01` : rest}T00:00:00`).getTime();
+    const end =
+      rest.length === 7
+        ? new Date(new Date(start).setMonth(new Date(start).getMonth() + 1)).getTime()
+        : start + DAY_MS;
+    return { type: "created", op, start, end };
+  }
+
+  return { type: "field", field, value: token.value.toLowerCase() };
+}
+
+export function parseQuery(input: string): ParsedQuery {
+  let tokens: Token[];
+  try {
+    tokens = tokenize(input);
+  } catch (error) {
+    return { ast: null, error: error as QuerySyntaxError };
+  }
+  if (!tokens.length) return { ast: null };
+
+  let cursor = 0;
+  const peek = () => tokens[cursor];
+
+  const parseOr = (): QueryNode => {
+    const children = [parseAnd()];
+    while (peek()?.kind === "or") {
+      cursor += 1;
+      children.push(parseAnd());
+    }
+    return children.length === 1 ? children[0] : { type: "or", children };
+  };
+
+  const parseAnd = (): QueryNode => {
+    const children = [parseUnary()];
+    for (;;) {
+      const next = peek();
+      if (!next || next.kind === "or" || next.kind === "rparen") break;
+      if (next.kind === "and") cursor += 1;
+      children.push(parseUnary());
+    }
+    return children.length === 1 ? children[0] : { type: "and", children };
+  };
+
+  const parseUnary = (): QueryNode => {
+    const token = peek();
+    if (token?.kind === "not") {
+      cursor += 1;
+      return { type: "not", child: parseUnary() };
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): QueryNode => {
+    const token = peek();
+    if (!token) {
+      throw new QuerySyntaxError("Query ends unexpectedly.", input.length);
+    }
+    cursor += 1;
+    switch (token.kind) {
+      case "lparen": {
+        const node = parseOr();
+        if (peek()?.kind !== "rparen") {
+          throw new QuerySyntaxError("Missing closing parenthesis.", token.position);
+        }
+        cursor += 1;
+        return node;
+      }
+      case "word":
+        return { type: "term", value: token.value.toLowerCase() };
+      case "phrase":
+        return { type: "phrase", value: token.value.toLowerCase() };
+      case "field":
+        return parseField(token);
+      default:
+        throw new QuerySyntaxError(
+          `Unexpected "${input.slice(token.position).split(/\s/)[0]}".`,
+          token.position
+        );
+    }
+  };
+
+  try {
+    const ast = parseOr();
+    const trailing = peek();
+    if (trailing) {
+      throw new QuerySyntaxError("Unexpected closing parenthesis.", trailing.position);
+    }
+    return { ast };
+  } catch (error) {
+    if (error instanceof QuerySyntaxError) return { ast: null, error };
+    throw error;
+  }
+}
+
+/** Free words and phrases, which are also looked up in the content index. */
+export function collectTextTerms(node: QueryNode | null): string[] {
+  if (!node) return [];
+  switch (node.type) {
+    case "and":
+    case "or":
+      return node.children.flatMap(collectTextTerms);
+    case "not":
+      return collectTextTerms(node.child);
+    case "term":
+    case "phrase":
+      return [node.value];
+    default:
+      return [];
+  }
+}
+
+function compare(op: Comparator, value: number, target: number): boolean {
+  switch (op) {
+    case ">":
+      return value > target;
+    case ">=":
+      return value >= target;
+    case "<":
+      return value < target;
+    case "<=":
+      return value <= target;
+    default:
+      return value === target;
+  }
+}
+
+function matchesText(source: SourceRecord, value: string, context: QueryContext): boolean {
+  return (
+    source.name.toLowerCase().includes(value) ||
+    Boolean(source.description?.toLowerCase().includes(value)) ||
+    source.tags.some((tag) => tag.toLowerCase().includes(value)) ||
+    Boolean(context.contentMatches?.get(value)?.has(source.id))
+  );
+}
+
+export function evaluateQuery(
+  node: QueryNode,
+  source: SourceRecord,
+  context: QueryContext = {}
+): boolean {
+  switch (node.type) {
+    case "and":
+      return node.children.every((child) => evaluateQuery(child, source, context));
+    case "or":
+      return node.children.some((child) => evaluateQuery(child, source, context));
+    case "not":
+      return !evaluateQuery(node.child, source, context);
+    case "term":
+    case "phrase":
+      return matchesText(source, node.value, context);
+    case "field":
+      switch (node.field) {
+        case "tag":
+          return source.tags.some((tag) => tag.toLowerCase() === node.value);
+        case "kind":
+          return source.kind === node.value;
+        case "category":
+          return source.category === node.value;
+        case "name":
+          return source.name.toLowerCase().includes(node.value);
+        case "mime":
+          return Boolean(source.mimeType?.toLowerCase().startsWith(node.value));
+      }
+      return false;
+    case "size":
+      return source.size !== undefined && compare(node.op, source.size, node.bytes);
+    case "created": {
+      const created = new Date(source.createdAt).getTime();
+      switch (node.op) {
+        case ">":
+          return created >= node.end;
+        case ">=":
+          return created >= node.start;
+        case "<":
+          return created < node.start;
+        case "<=":
+          return created < node.end;
+        default:
+          return created >= node.start && created < node.end;
+      }
+    }
+  }
+}
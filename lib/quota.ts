@@ -0,0 +1,118 @@
+import { SourceCategory, SourceRecord, formatBytes } from "@/lib/sources";
+import { isOpfsSupported } from "@/lib/opfs";
+
+/**
+ * Storage budget checks for ingest and the numbers behind the storage
+ * dashboard. Browsers only give an estimate of usage and quota, so checks
+ * keep a safety margin instead of filling the origin to the last byte.
+ */
+
+// Without OPFS large files have to go through IndexedDB in one piece.
+export const MAX_FILE_BYTES_INDEXEDDB = 256 * 1024 * 1024;
+export const MAX_FILE_BYTES_OPFS = 4 * 1024 * 1024 * 1024;
+// Share of the quota that ingest leaves free for indexes, previews and sync state.
+const QUOTA_HEADROOM = 0.1;
+
+export class QuotaError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "QuotaError";
+  }
+}
+
+export type StorageEstimateSummary = {
+  usage: number;
+  quota: number;
+  persisted: boolean;
+};
+
+export type CategoryUsage = {
+  category: SourceCategory;
+  bytes: number;
+  count: number;
+};
+
+export function maxFileBytes(): number {
+  return isOpfsSupported() ? MAX_FILE_BYTES_OPFS : MAX_FILE_BYTES_INDEXEDDB;
+}
+
+export async function estimateStorage(): Promise<StorageEstimateSummary | null> {
+  if (typeof navigator === "undefined" || !navigator.storage?.estimate) return null;
+  const [estimate, persisted] = await Promise.all([
+    navigator.storage.estimate(),
+    navigator.storage.persisted?.() ?? Promise.resolve(false)
+  ]);
+  return {
+    usage: estimate.usage ?? 0,
+    quota: estimate.quota ?? 0,
+    persisted
+  };
+}
+
+/** Asks the browser not to evict this origin's data. Resolves to whether it agreed. */
+export async function requestPersistentStorage(): Promise<boolean> {
+  if (typeof navigator === "undefined" || !navigator.storage?.persist) return false;
+  return navigator.storage.persist();
+}
+
+export function usageByCategory(sources: SourceRecord[]): CategoryUsage[] {
+  const totals = new Map<SourceCategory, CategoryUsage>();
+  sources.forEach((source) => {
+    const entry = totals.get(source.category) ?? {
+      category: source.category,
+      bytes: 0,
+      count: 0
+    };
+    entry.bytes += source.size ?? 0;
+    entry.count += 1;
+    totals.set(source.category, entry);
+  });
+  return Array.from(totals.values()).sort((a, b) => b.bytes - a.bytes);
+}
+
+/**
+ * Splits a batch into files that fit and files that do not, checking the
+ * per-file limit first and then the remaining quota in batch order.
+ */
+export async function checkIngest(
+  files: File[]
+): Promise<{ accepted: File[]; rejected: { file: File; error: QuotaError }[] }> {
+  const limit = maxFileBytes();
+  const estimate = await estimateStorage().catch(() => null);
+  let available =
+    estimate && estimate.quota
+      ? estimate.quota * (1 - QUOTA_HEADROOM) - estimate.usage
+      : Infinity;
+
+  const accepted: File[] = [];
+  const rejected: { file: File; error: QuotaError }[] = [];
+  files.forEach((file) => {
+    if (file.size > limit) {
+      rejected.push({
+        file,
+        error: new QuotaError(
+          `"${file.name}" is ${formatBytes(file.size)}; this browser stores files up to ${formatBytes(
+            limit
+          )}.`
+        )
+      });
+      return;
+    }
+    if (file.size > available) {
+      rejected.push({
+        file,
+        error: new QuotaError(
+          available > 0
+            ? `Not enough browser storage for "${file.name}" (${formatBytes(
+                file.size
+              )}, ${formatBytes(available)} left).`
+            : `Browser storage is full; "${file.name}" was not added.`
+        )
+      });
+      return;
+    }
+    available -= file.size;
+    accepted.push(file);
+  });
+  return { accepted, rejected };
+}
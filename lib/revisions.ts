@@ -0,0 +1,192 @@
+import type { SourceRecord } from "@/lib/sources";
+
+/**
+ * Revision log for source metadata and note text. Each revision is a snapshot
+ * of a source *before* an edit, plus the fields that edit changed. Note text
+ * is only stored when the edit changed it, so unchanged bodies cost nothing.
+ */
+
+const HISTORY_DB_NAME = "agentic-source-hub-history";
+const REVISION_STORE_NAME = "revisions";
+const SOURCE_INDEX_NAME = "bySource";
+const RETENTION_STORAGE_KEY = "agentic-source-hub::revision-retention";
+
+export type RevisionMetadata = Pick<SourceRecord, "name" | "description" | "tags">;
+
+export type RevisionField = keyof RevisionMetadata | "text";
+
+export type Revision = {
+  id: string;
+  sourceId: string;
+  createdAt: string;
+  metadata: RevisionMetadata;
+  // Fields the edit after this snapshot changed.
+  changed: RevisionField[];
+  // Note text before the edit; only present when the edit changed it.
+  text?: string;
+};
+
+export type RetentionPolicy = {
+  // 0 means unlimited for both.
+  maxRevisions: number;
+  maxAgeDays: number;
+};
+
+export const DEFAULT_RETENTION: RetentionPolicy = {
+  maxRevisions: 25,
+  maxAgeDays: 90
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+let historyDbPromise: Promise<IDBDatabase> | null = null;
+
+function openHistoryDb(): Promise<IDBDatabase> {
+  if (!historyDbPromise) {
+    historyDbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(HISTORY_DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(REVISION_STORE_NAME)) {
+          const store = db.createObjectStore(REVISION_STORE_NAME, { keyPath: "id" });
+          store.createIndex(SOURCE_INDEX_NAME, "sourceId");
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        historyDbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return historyDbPromise;
+}
+
+async function withRevisionStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest | void
+): Promise<T> {
+  const db = await openHistoryDb();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(REVISION_STORE_NAME, mode);
+    const request = run(transaction.objectStore(REVISION_STORE_NAME));
+    transaction.oncomplete = () => resolve((request ? request.result : undefined) as T);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+export function createRevisionId(): string {
+  return `revision-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function loadRetentionPolicy(): RetentionPolicy {
+  if (typeof window === "undefined") return DEFAULT_RETENTION;
+  try {
+    const raw = window.localStorage.getItem(RETENTION_STORAGE_KEY);
+    return raw ? { ...DEFAULT_RETENTION, ...(JSON.parse(raw) as RetentionPolicy) } : DEFAULT_RETENTION;
+  } catch (error) {
+    console.error("Failed to load revision retention policy", error);
+    return DEFAULT_RETENTION;
+  }
+}
+
+export function persistRetentionPolicy(policy: RetentionPolicy): void {
+  if (typeof window === "undefined") return;
+  window.localStorage.setItem(RETENTION_STORAGE_KEY, JSON.stringify(policy));
+}
+
+export function metadataOf(source: SourceRecord): RevisionMetadata {
+  return { name: source.name, description: source.description ?? "", tags: source.tags };
+}
+
+export function changedFields(
+  before: RevisionMetadata,
+  after: RevisionMetadata,
+  textChanged: boolean
+): RevisionField[] {
+  const fields: RevisionField[] = [];
+  if (before.name !== after.name) fields.push("name");
+  if ((before.description ?? "") !== (after.description ?? "")) fields.push("description");
+  if (before.tags.join("\n") !== after.tags.join("\n")) fields.push("tags");
+  if (textChanged) fields.push("text");
+  return fields;
+}
+
+/** Newest first. */
+export async function listRevisions(sourceId: string): Promise<Revision[]> {
+  const revisions = await withRevisionStore<Revision[]>("readonly", (store) =>
+    store.index(SOURCE_INDEX_NAME).getAll(sourceId)
+  );
+  return revisions.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Saves the state of a source before an edit. Returns null when the edit
+ * changed nothing worth keeping.
+ */
+export async function recordRevision(
+  before: SourceRecord,
+  after: RevisionMetadata,
+  text?: { before: string; after: string },
+  policy: RetentionPolicy = loadRetentionPolicy()
+): Promise<Revision | null> {
+  const textChanged = Boolean(text && text.before !== text.after);
+  const changed = changedFields(metadataOf(before), after, textChanged);
+  if (!changed.length) return null;
+
+  const revision: Revision = {
+    id: createRevisionId(),
+    sourceId: before.id,
+    createdAt: new Date().toISOString(),
+    metadata: metadataOf(before),
+    changed,
+    text: textChanged ? text?.before : undefined
+  };
+  await withRevisionStore<IDBValidKey>("readwrite", (store) => store.put(revision));
+  await pruneRevisions(before.id, policy);
+  return revision;
+}
+
+/** Drops the oldest revisions that fall outside the retention policy. */
+export async function pruneRevisions(
+  sourceId: string,
+  policy: RetentionPolicy = loadRetentionPolicy()
+): Promise<number> {
+  const revisions = await listRevisions(sourceId);
+  const cutoff = policy.maxAgeDays ? Date.now() - policy.maxAgeDays * DAY_MS : -Infinity;
+  const expired = revisions.filter(
+    (revision, index) =>
+      (policy.maxRevisions > 0 && index >= policy.maxRevisions) ||
+      new Date(revision.createdAt).getTime() < cutoff
+  );
+  if (expired.length) {
+    await withRevisionStore<undefined>("readwrite", (store) => {
+      expired.forEach((revision) => store.delete(revision.id));
+    });
+  }
+  return expired.length;
+}
+
+export async function deleteRevisions(sourceId: string): Promise<void> {
+  const revisions = await listRevisions(sourceId);
+  await withRevisionStore<undefined>("readwrite", (store) => {
+    revisions.forEach((revision) => store.delete(revision.id));
+  });
+}
+
+/**
+ * Note text as it was at a revision. Revisions only keep text the following
+ * edit replaced, so walk towards newer revisions until one has it.
+ */
+export function textAtRevision(
+  revisions: Revision[],
+  index: number,
+  currentText: string
+): string {
+  for (let cursor = index; cursor >= 0; cursor -= 1) {
+    const text = revisions[cursor].text;
+    if (text !== undefined) return text;
+  }
+  return currentText;
+}
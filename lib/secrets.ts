@@ -0,0 +1,116 @@
+// Secrets never touch localStorage. Each value is encrypted with an AES-GCM key
+// that is generated as non-extractable and kept, together with the ciphertext,
+// in a dedicated IndexedDB database.
+
+const VAULT_DB_NAME = "agentic-source-hub-vault";
+const KEY_STORE_NAME = "keys";
+const SECRET_STORE_NAME = "secrets";
+const MASTER_KEY_ID = "master";
+
+type EncryptedSecret = {
+  iv: ArrayBuffer;
+  data: ArrayBuffer;
+};
+
+let vaultPromise: Promise<IDBDatabase> | null = null;
+let masterKeyPromise: Promise<CryptoKey> | null = null;
+
+function openVault(): Promise<IDBDatabase> {
+  if (!vaultPromise) {
+    vaultPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(VAULT_DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(KEY_STORE_NAME)) {
+          db.createObjectStore(KEY_STORE_NAME);
+        }
+        if (!db.objectStoreNames.contains(SECRET_STORE_NAME)) {
+          db.createObjectStore(SECRET_STORE_NAME);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        vaultPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return vaultPromise;
+}
+
+async function withVaultStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest
+): Promise<T> {
+  const db = await openVault();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = run(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result as T);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+function getMasterKey(): Promise<CryptoKey> {
+  if (!masterKeyPromise) {
+    masterKeyPromise = (async () => {
+      const existing = await withVaultStore<CryptoKey | undefined>(
+        KEY_STORE_NAME,
+        "readonly",
+        (store) => store.get(MASTER_KEY_ID)
+      );
+      if (existing) return existing;
+      const key = await crypto.subtle.generateKey(
+        { name: "AES-GCM", length: 256 },
+        false,
+        ["encrypt", "decrypt"]
+      );
+      await withVaultStore<IDBValidKey>(KEY_STORE_NAME, "readwrite", (store) =>
+        store.put(key, MASTER_KEY_ID)
+      );
+      return key;
+    })().catch((error) => {
+      masterKeyPromise = null;
+      throw error;
+    });
+  }
+  return masterKeyPromise;
+}
+
+export async function storeSecret(id: string, value: string): Promise<void> {
+  const key = await getMasterKey();
+  const iv = crypto.getRandomValues(new Uint8Array(12)).buffer;
+  const data = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv },
+    key,
+    new TextEncoder().encode(value)
+  );
+  const record: EncryptedSecret = { iv, data };
+  await withVaultStore<IDBValidKey>(SECRET_STORE_NAME, "readwrite", (store) =>
+    store.put(record, id)
+  );
+}
+
+export async function readSecret(id: string): Promise<string | undefined> {
+  const record = await withVaultStore<EncryptedSecret | undefined>(
+    SECRET_STORE_NAME,
+    "readonly",
+    (store) => store.get(id)
+  );
+  if (!record) return undefined;
+  const key = await getMasterKey();
+  const plain = await crypto.subtle.decrypt(
+    { name: "AES-GCM", iv: record.iv },
+    key,
+    record.data
+  );
+  return new TextDecoder().decode(plain);
+}
+
+export async function deleteSecret(id: string): Promise<void> {
+  await withVaultStore<undefined>(SECRET_STORE_NAME, "readwrite", (store) =>
+    store.delete(id)
+  );
+}
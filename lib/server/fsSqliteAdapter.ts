@@ -0,0 +1,219 @@
+import { createHash } from "node:crypto";
+import { createReadStream, createWriteStream } from "node:fs";
+import { mkdir, rename, rm, stat } from "node:fs/promises";
+import path from "node:path";
+import { Readable } from "node:stream";
+import { pipeline } from "node:stream/promises";
+import type { ReadableStream as NodeReadableStream } from "node:stream/web";
+import type { SourceRecord } from "@/lib/sources";
+import type { StorageAdapter } from "@/lib/server/storage";
+import type { SyncChange, SyncEntry } from "@/lib/syncProtocol";
+
+type SourceRow = {
+  id: string;
+  record: string;
+  revision: number;
+  deleted: number;
+  seq: number;
+  updated_at: string;
+};
+
+type BlobRow = {
+  file: string;
+  content_type: string;
+  size: number;
+};
+
+/**
+ * Records live in a SQLite database; blob contents are plain files named by
+ * the SHA-256 of their key, so keys never reach the filesystem as paths.
+ */
+export async function createFsSqliteAdapter(dataDir: string): Promise<StorageAdapter> {
+  const { default: Database } = await import("better-sqlite3");
+  const blobDir = path.join(dataDir, "blobs");
+  await mkdir(blobDir, { recursive: true });
+
+  const db = new Database(path.join(dataDir, "sources.db"));
+  db.pragma("journal_mode = WAL");
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS sources (
+      id TEXT PRIMARY KEY,
+      record TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL
+    );
+    CREATE TABLE IF NOT EXISTS blobs (
+      key TEXT PRIMARY KEY,
+      file TEXT NOT NULL,
+      content_type TEXT NOT NULL,
+      size INTEGER NOT NULL
+    );
+  `);
+
+  // Databases created before sync support lack revisions and tombstones.
+  const columns = (db.prepare("PRAGMA table_info(sources)").all() as { name: string }[]).map(
+    (column) => column.name
+  );
+  if (!columns.includes("revision")) {
+    db.exec(`
+      ALTER TABLE sources ADD COLUMN revision INTEGER NOT NULL DEFAULT 1;
+      ALTER TABLE sources ADD COLUMN deleted INTEGER NOT NULL DEFAULT 0;
+      ALTER TABLE sources ADD COLUMN seq INTEGER NOT NULL DEFAULT 0;
+      UPDATE sources SET seq = rowid;
+    `);
+  }
+  db.exec("CREATE INDEX IF NOT EXISTS sources_seq ON sources (seq)");
+
+  const statements = {
+    list: db.prepare("SELECT record FROM sources WHERE deleted = 0 ORDER BY created_at DESC"),
+    get: db.prepare("SELECT * FROM sources WHERE id = ?"),
+    put: db.prepare(`
+      INSERT INTO sources (id, record, created_at, updated_at, revision, deleted, seq)
+      VALUES (@id, @record, @createdAt, @updatedAt, @revision, @deleted, @seq)
+      ON CONFLICT(id) DO UPDATE SET
+        record = excluded.record,
+        updated_at = excluded.updated_at,
+        revision = excluded.revision,
+        deleted = excluded.deleted,
+        seq = excluded.seq
+    `),
+    maxSeq: db.prepare("SELECT COALESCE(MAX(seq), 0) AS seq FROM sources"),
+    since: db.prepare("SELECT * FROM sources WHERE seq > ? ORDER BY seq"),
+    getBlob: db.prepare("SELECT file, content_type, size FROM blobs WHERE key = ?"),
+    putBlob: db.prepare(`
+      INSERT INTO blobs (key, file, content_type, size) VALUES (?, ?, ?, ?)
+      ON CONFLICT(key) DO UPDATE SET content_type = excluded.content_type, size = excluded.size
+    `),
+    removeBlob: db.prepare("DELETE FROM blobs WHERE key = ?")
+  };
+
+  const fileFor = (key: string) => createHash("sha256").update(key).digest("hex");
+
+  const toEntry = (row: SourceRow): SyncEntry => ({
+    id: row.id,
+    revision: row.revision,
+    deleted: row.deleted === 1,
+    record: JSON.parse(row.record) as SourceRecord | null,
+    updatedAt: row.updated_at,
+    seq: row.seq
+  });
+
+  const getRow = (id: string) => statements.get.get(id) as SourceRow | undefined;
+
+  // Writes the next revision of a record (or its tombstone) atomically.
+  const writeRevision = db.transaction(
+    (id: string, record: SourceRecord | null, deleted: boolean): SyncEntry => {
+      const previous = getRow(id);
+      const entry: SyncEntry = {
+        id,
+        revision: (previous?.revision ?? 0) + 1,
+        deleted,
+        record: record ?? (previous ? (JSON.parse(previous.record) as SourceRecord | null) : null),
+        updatedAt: new Date().toISOString(),
+        seq: (statements.maxSeq.get() as { seq: number }).seq + 1
+      };
+      statements.put.run({
+        id,
+        record: JSON.stringify(entry.record),
+        createdAt: entry.record?.createdAt ?? entry.updatedAt,
+        updatedAt: entry.updatedAt,
+        revision: entry.revision,
+        deleted: deleted ? 1 : 0,
+        seq: entry.seq
+      });
+      return entry;
+    }
+  );
+
+  const applyChange = db.transaction((change: SyncChange) => {
+    const current = getRow(change.id);
+    if (current && current.revision !== change.baseRevision) {
+      return { id: change.id, status: "conflict" as const, entry: toEntry(current) };
+    }
+    return {
+      id: change.id,
+      status: "accepted" as const,
+      entry: writeRevision(change.id, change.deleted ? null : change.record, change.deleted)
+    };
+  });
+
+  return {
+    async listSources() {
+      return (statements.list.all() as { record: string }[]).map(
+        (row) => JSON.parse(row.record) as SourceRecord
+      );
+    },
+
+    async getSource(id) {
+      const row = getRow(id);
+      return row && !row.deleted ? (JSON.parse(row.record) as SourceRecord) : null;
+    },
+
+    async putSource(source) {
+      writeRevision(source.id, source, false);
+    },
+
+    async deleteSource(id) {
+      const row = getRow(id);
+      if (!row || row.deleted) return false;
+      writeRevision(id, null, true);
+      return true;
+    },
+
+    async applyChange(change) {
+      return applyChange(change);
+    },
+
+    async changesSince(cursor) {
+      const changes = (statements.since.all(cursor) as SourceRow[]).map(toEntry);
+      return {
+        cursor: changes.length ? changes[changes.length - 1].seq : cursor,
+        changes
+      };
+    },
+
+    async readBlob(key) {
+      const row = statements.getBlob.get(key) as BlobRow | undefined;
+      if (!row) return null;
+      const filePath = path.join(blobDir, row.file);
+      try {
+        await stat(filePath);
+      } catch {
+        return null;
+      }
+      return {
+        stream: Readable.toWeb(createReadStream(filePath)) as ReadableStream<Uint8Array>,
+        contentType: row.content_type,
+        size: row.size
+      };
+    },
+
+    async writeBlob(key, body, contentType) {
+      const file = fileFor(key);
+      const filePath = path.join(blobDir, file);
+      // Write to a temporary file first so a dropped upload never leaves a
+      // truncated blob behind.
+      const tempPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+      try {
+        await pipeline(
+          Readable.fromWeb(body as NodeReadableStream<Uint8Array>),
+          createWriteStream(tempPath)
+        );
+        const { size } = await stat(tempPath);
+        await rename(tempPath, filePath);
+        statements.putBlob.run(key, file, contentType, size);
+      } catch (error) {
+        await rm(tempPath, { force: true });
+        throw error;
+      }
+    },
+
+    async deleteBlob(key) {
+      const row = statements.getBlob.get(key) as BlobRow | undefined;
+      if (!row) return false;
+      statements.removeBlob.run(key);
+      await rm(path.join(blobDir, row.file), { force: true });
+      return true;
+    }
+  };
+}
@@ -0,0 +1,128 @@
+import http from "node:http";
+import { AddressInfo } from "node:net";
+import { gzipSync } from "node:zlib";
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { fetchRemote, isPrivateAddress, parseIpv6 } from "@/lib/server/remoteFetch";
+
+// Every host name resolves to loopback, as a rebinding DNS server would answer.
+vi.mock("node:dns/promises", () => ({
+  lookup: vi.fn(async () => [{ address: "127.0.0.1", family: 4 }])
+}));
+
+describe("parseIpv6", () => {
+  it("expands compressed and IPv4-suffixed forms", () => {
+    expect(parseIpv6("::1")).toEqual([...new Array(15).fill(0), 1]);
+    expect(parseIpv6("::ffff:127.0.0.1")).toEqual(parseIpv6("::ffff:7f00:1"));
+    expect(parseIpv6("fe80::1%eth0")?.slice(0, 2)).toEqual([0xfe, 0x80]);
+  });
+
+  it("rejects malformed addresses", () => {
+    expect(parseIpv6("1::2::3")).toBeUndefined();
+    expect(parseIpv6("1:2:3:4:5:6:7:8:9")).toBeUndefined();
+    expect(parseIpv6("::ffff:300.0.0.1")).toBeUndefined();
+    expect(parseIpv6("example.com")).toBeUndefined();
+  });
+});
+
+describe("isPrivateAddress", () => {
+  it.each([
+    "127.0.0.1",
+    "10.1.2.3",
+    "172.16.0.1",
+    "192.168.1.1",
+    "169.254.169.254",
+    "100.64.0.1",
+    "0.0.0.0",
+    "224.0.0.1",
+    "::",
+    "::1",
+    "::ffff:127.0.0.1",
+    "::ffff:7f00:1",
+    "::ffff:a9fe:a9fe",
+    "::7f00:1",
+    "64:ff9b::a9fe:a9fe",
+    "64:ff9b:1::1",
+    "2002:7f00:1::",
+    "2001:0:4136:e378::1",
+    "fc00::1",
+    "fd12:3456::1",
+    "fe80::1",
+    "ff02::1",
+    "not-an-address"
+  ])("blocks %s", (address) => {
+    expect(isPrivateAddress(address)).toBe(true);
+  });
+
+  it.each([
+    "8.8.8.8",
+    "93.184.216.34",
+    "2606:4700:4700::1111",
+    "::ffff:8.8.8.8",
+    "64:ff9b::808:808",
+    "2002:808:808::1"
+  ])("allows %s", (address) => {
+    expect(isPrivateAddress(address)).toBe(false);
+  });
+});
+
+describe("fetchRemote", () => {
+  let server: http.Server;
+  let port: number;
+  let hits = 0;
+
+  beforeAll(async () => {
+    server = http.createServer((request, response) => {
+      hits += 1;
+      if (request.url === "/broken-redirect") {
+        response.writeHead(302, { location: "http://[" });
+        response.end();
+        return;
+      }
+      response.writeHead(200, { "content-type": "text/plain", "content-encoding": "gzip" });
+      response.end(gzipSync("internal"));
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    port = (server.address() as AddressInfo).port;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    hits = 0;
+    delete process.env.SOURCE_HUB_ALLOW_PRIVATE_URLS;
+  });
+
+  it.each(["127.0.0.1", "[::ffff:127.0.0.1]", "[::ffff:7f00:1]", "localhost"])(
+    "refuses %s without connecting",
+    async (host) => {
+      await expect(fetchRemote(`http://${host}:${port}/`)).rejects.toMatchObject({
+        status: 400
+      });
+      expect(hits).toBe(0);
+    }
+  );
+
+  it("checks the address a host name resolves to when connecting", async () => {
+    await expect(fetchRemote(`http://rebind.test:${port}/`)).rejects.toMatchObject({
+      status: 400
+    });
+    expect(hits).toBe(0);
+  });
+
+  it("fetches and decodes when private addresses are allowed", async () => {
+    process.env.SOURCE_HUB_ALLOW_PRIVATE_URLS = "1";
+    const remote = await fetchRemote(`http://127.0.0.1:${port}/`);
+    expect(remote.status).toBe(200);
+    expect(await new Response(remote.body).text()).toBe("internal");
+  });
+
+  it("reports a malformed redirect as a bad gateway", async () => {
+    process.env.SOURCE_HUB_ALLOW_PRIVATE_URLS = "1";
+    await expect(fetchRemote(`http://127.0.0.1:${port}/broken-redirect`)).rejects.toMatchObject({
+      message: "Invalid redirect.",
+      status: 502
+    });
+  });
+});
@@ -0,0 +1,300 @@
+import { lookup } from "node:dns/promises";
+import http, { IncomingMessage } from "node:http";
+import https from "node:https";
+import { LookupFunction, isIP } from "node:net";
+import { Readable, pipeline } from "node:stream";
+import zlib from "node:zlib";
+
+/**
+ * Server-side fetches of user-supplied URLs (see /api/snapshot and
+ * /api/link-check). The server can reach hosts the browser cannot, so only
+ * public http(s) addresses are allowed and every redirect hop is checked
+ * again. Host names are resolved once, inside the connection, and the socket
+ * connects to the address that was checked, so a second DNS answer cannot
+ * swap in a private one. Set SOURCE_HUB_ALLOW_PRIVATE_URLS=1 to lift the
+ * address check on a trusted machine.
+ */
+
+export const REMOTE_FETCH_TIMEOUT_MS = 20_000;
+export const MAX_REMOTE_BYTES = 50 * 1024 * 1024;
+const MAX_REDIRECTS = 5;
+const USER_AGENT = "AgenticSourceHub/1.0 (+snapshot)";
+
+export class RemoteFetchError extends Error {
+  status: number;
+
+  constructor(message: string, status = 502) {
+    super(message);
+    this.name = "RemoteFetchError";
+    this.status = status;
+  }
+}
+
+export type RemoteResponse = {
+  // Status of the final response after redirects.
+  status: number;
+  url: string;
+  contentType: string;
+  // Declared Content-Length; for compressed responses this is the wire size.
+  contentLength?: number;
+  body: ReadableStream<Uint8Array>;
+};
+
+function isPrivateIpv4(bytes: number[]): boolean {
+  const [a, b, c] = bytes;
+  return (
+    a === 0 ||
+    a === 10 ||
+    a === 127 ||
+    (a === 100 && b >= 64 && b <= 127) ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 0 && c === 0) ||
+    (a === 192 && b === 168) ||
+    (a === 198 && (b === 18 || b === 19)) ||
+    a >= 224
+  );
+}
+
+function parseIpv4(address: string): number[] | undefined {
+  const parts = address.split(".");
+  if (parts.length !== 4 || !parts.every((part) => /^\d{1,3}$/.test(part))) return undefined;
+  const bytes = parts.map(Number);
+  return bytes.every((byte) => byte <= 255) ? bytes : undefined;
+}
+
+/** The 16 bytes of an IPv6 address, including forms that end in dotted IPv4. */
+export function parseIpv6(address: string): number[] | undefined {
+  const text = address.replace(/%.*$/, "");
+  const halves = text.split("::");
+  if (halves.length > 2) return undefined;
+
+  const toGroups = (part: string): number[] | undefined => {
+    if (!part) return [];
+    const groups: number[] = [];
+    const pieces = part.split(":");
+    for (const [index, piece] of pieces.entries()) {
+      if (index === pieces.length - 1 && piece.includes(".")) {
+        const ipv4 = parseIpv4(piece);
+        if (!ipv4) return undefined;
+        groups.push((ipv4[0] << 8) | ipv4[1], (ipv4[2] << 8) | ipv4[3]);
+      } else if (/^[0-9a-f]{1,4}$/i.test(piece)) {
+        groups.push(parseInt(piece, 16));
+      } else {
+        return undefined;
+      }
+    }
+    return groups;
+  };
+
+  const head = toGroups(halves[0]);
+  const tail = halves.length === 2 ? toGroups(halves[1]) : [];
+  if (!head || !tail) return undefined;
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 2 ? missing < 1 : missing !== 0) return undefined;
+  const groups = [...head, ...new Array<number>(missing).fill(0), ...tail];
+  return groups.flatMap((group) => [group >> 8, group & 0xff]);
+}
+
+const startsWith = (bytes: number[], prefix: number[]) =>
+  prefix.every((byte, index) => bytes[index] === byte);
+
+/**
+ * Loopback, private, link-local, multicast and other non-public addresses.
+ * IPv6 forms that carry an IPv4 address (mapped, compatible, NAT64, 6to4)
+ * are judged by that IPv4 address.
+ */
+export function isPrivateAddress(address: string): boolean {
+  const ipv4 = parseIpv4(address);
+  if (ipv4) return isPrivateIpv4(ipv4);
+  const bytes = parseIpv6(address);
+  // Anything that is not a well-formed address is refused.
+  if (!bytes) return true;
+
+  const zeros = (count: number) => new Array<number>(count).fill(0);
+  // ::ffff:0:0/96 (mapped) and ::/96 (compatible, also :: and ::1).
+  if (startsWith(bytes, [...zeros(10), 0xff, 0xff]) || startsWith(bytes, zeros(12))) {
+    return isPrivateIpv4(bytes.slice(12));
+  }
+  // 64:ff9b::/96 is NAT64; 64:ff9b:1::/48 is reserved for local NAT64.
+  if (startsWith(bytes, [0x00, 0x64, 0xff, 0x9b, ...zeros(8)])) {
+    return isPrivateIpv4(bytes.slice(12));
+  }
+  if (startsWith(bytes, [0x00, 0x64, 0xff, 0x9b, 0x00, 0x01])) return true;
+  // 2002::/16 is 6to4, with the IPv4 address in the next four bytes.
+  if (startsWith(bytes, [0x20, 0x02])) return isPrivateIpv4(bytes.slice(2, 6));
+  // 2001::/32 is Teredo, which tunnels to an obfuscated IPv4 address.
+  if (startsWith(bytes, [0x20, 0x01, 0x00, 0x00])) return true;
+  return (
+    (bytes[0] & 0xfe) === 0xfc || // fc00::/7 unique local
+    (bytes[0] === 0xfe && (bytes[1] & 0xc0) === 0x80) || // fe80::/10 link-local
+    (bytes[0] === 0xfe && (bytes[1] & 0xc0) === 0xc0) || // fec0::/10 site-local
+    bytes[0] === 0xff || // ff00::/8 multicast
+    startsWith(bytes, [0x01, 0x00, ...zeros(6)]) // 100::/64 discard
+  );
+}
+
+function allowsPrivateUrls(): boolean {
+  return process.env.SOURCE_HUB_ALLOW_PRIVATE_URLS === "1";
+}
+
+/**
+ * Resolves a host name for the socket and refuses it when any address is
+ * private. The socket connects to what this returns, so nothing resolves the
+ * name again between the check and the connection.
+ */
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+  const fail = (error: RemoteFetchError) => callback(error, "");
+  lookup(hostname, { all: true }).then(
+    (resolved) => {
+      const addresses = resolved.filter(
+        ({ family }) => !options.family || family === options.family
+      );
+      if (!addresses.length) {
+        fail(new RemoteFetchError(`Could not resolve ${hostname}.`, 502));
+      } else if (resolved.some(({ address }) => isPrivateAddress(address))) {
+        fail(new RemoteFetchError("Private network addresses cannot be fetched.", 400));
+      } else if (options.all) {
+        callback(null, addresses);
+      } else {
+        callback(null, addresses[0].address, addresses[0].family);
+      }
+    },
+    () => fail(new RemoteFetchError(`Could not resolve ${hostname}.`, 502))
+  );
+};
+
+function assertPublicUrl(url: URL): void {
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new RemoteFetchError("Only http and https URLs can be fetched.", 400);
+  }
+  if (allowsPrivateUrls()) return;
+  const host = url.hostname.replace(/^\[|\]$/g, "");
+  if (host === "localhost" || host.endsWith(".localhost")) {
+    throw new RemoteFetchError("Local addresses cannot be fetched.", 400);
+  }
+  // Literal addresses never reach the lookup, so they are checked here.
+  if (isIP(host) && isPrivateAddress(host)) {
+    throw new RemoteFetchError("Private network addresses cannot be fetched.", 400);
+  }
+}
+
+function sendRequest(
+  url: URL,
+  method: "GET" | "HEAD",
+  signal: AbortSignal
+): Promise<IncomingMessage> {
+  const client = url.protocol === "https:" ? https : http;
+  return new Promise((resolve, reject) => {
+    const request = client.request(
+      url,
+      {
+        method,
+        signal,
+        lookup: allowsPrivateUrls() ? undefined : publicLookup,
+        headers: {
+          "user-agent": USER_AGENT,
+          accept: "*/*",
+          "accept-encoding": "gzip, deflate, br"
+        }
+      },
+      resolve
+    );
+    request.on("error", reject);
+    request.end();
+  });
+}
+
+function decodedBody(response: IncomingMessage): Readable {
+  const encoding = String(response.headers["content-encoding"] ?? "").toLowerCase();
+  const decoder =
+    encoding === "gzip" || encoding === "x-gzip"
+      ? zlib.createGunzip()
+      : encoding === "deflate"
+        ? zlib.createInflate()
+        : encoding === "br"
+          ? zlib.createBrotliDecompress()
+          : undefined;
+  // pipeline forwards errors from either side to the returned stream.
+  return decoder ? pipeline(response, decoder, () => undefined) : response;
+}
+
+// Passes the body through, failing the stream once it grows past the limit.
+function limitBody(
+  body: ReadableStream<Uint8Array>,
+  maxBytes: number
+): ReadableStream<Uint8Array> {
+  let received = 0;
+  return body.pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, controller) {
+        received += chunk.byteLength;
+        if (received > maxBytes) {
+          controller.error(new RemoteFetchError("The resource is too large to snapshot.", 413));
+          return;
+        }
+        controller.enqueue(chunk);
+      }
+    })
+  );
+}
+
+/**
+ * Fetches a public URL, following redirects by hand so each hop is checked.
+ * Bodies are decoded (gzip, deflate, br) before they reach the caller.
+ * The caller gets the final status whatever it is; only network failures,
+ * blocked addresses and oversized bodies throw.
+ */
+export async function fetchRemote(
+  input: string,
+  {
+    method = "GET",
+    timeoutMs = REMOTE_FETCH_TIMEOUT_MS,
+    maxBytes = MAX_REMOTE_BYTES
+  }: { method?: "GET" | "HEAD"; timeoutMs?: number; maxBytes?: number } = {}
+): Promise<RemoteResponse> {
+  let url: URL;
+  try {
+    url = new URL(input);
+  } catch {
+    throw new RemoteFetchError("Not a valid URL.", 400);
+  }
+
+  const signal = AbortSignal.timeout(timeoutMs);
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop += 1) {
+    assertPublicUrl(url);
+    const response = await sendRequest(url, method, signal).catch((error) => {
+      if (error instanceof RemoteFetchError) throw error;
+      throw signal.aborted
+        ? new RemoteFetchError("The remote server took too long to answer.", 504)
+        : new RemoteFetchError(`Could not reach ${url.host}.`, 502);
+    });
+    const status = response.statusCode ?? 502;
+
+    const location = response.headers.location;
+    if (status >= 300 && status < 400 && location) {
+      response.destroy();
+      try {
+        url = new URL(location, url);
+      } catch {
+        throw new RemoteFetchError("Invalid redirect.", 502);
+      }
+      continue;
+    }
+
+    const declared = Number(response.headers["content-length"]);
+    if (declared > maxBytes) {
+      response.destroy();
+      throw new RemoteFetchError("The resource is too large to snapshot.", 413);
+    }
+    const body = Readable.toWeb(decodedBody(response)) as unknown as ReadableStream<Uint8Array>;
+    return {
+      status,
+      url: url.toString(),
+      contentType: response.headers["content-type"] ?? "application/octet-stream",
+      contentLength: Number.isFinite(declared) && declared > 0 ? declared : undefined,
+      body: limitBody(body, maxBytes)
+    };
+  }
+  throw new RemoteFetchError("Too many redirects.", 502);
+}
@@ -0,0 +1,80 @@
+import path from "node:path";
+import type { SourceRecord } from "@/lib/sources";
+import type { SyncChange, SyncEntry, SyncResult } from "@/lib/syncProtocol";
+import { createFsSqliteAdapter } from "@/lib/server/fsSqliteAdapter";
+
+/**
+ * Server-side persistence behind the /api routes. Adapters are registered by
+ * name and chosen with SOURCE_HUB_STORAGE; the default keeps records in SQLite
+ * and file contents on the local filesystem under SOURCE_HUB_DATA_DIR.
+ */
+
+export type StoredBlob = {
+  stream: ReadableStream<Uint8Array>;
+  contentType: string;
+  size: number;
+};
+
+export interface StorageAdapter {
+  listSources(): Promise<SourceRecord[]>;
+  getSource(id: string): Promise<SourceRecord | null>;
+  // Unconditional writes; they still bump the revision so replicas notice.
+  putSource(source: SourceRecord): Promise<void>;
+  deleteSource(id: string): Promise<boolean>;
+  // Conditional write used by /api/sync; see lib/syncProtocol.
+  applyChange(change: SyncChange): Promise<SyncResult>;
+  changesSince(cursor: number): Promise<{ cursor: number; changes: SyncEntry[] }>;
+  readBlob(key: string): Promise<StoredBlob | null>;
+  writeBlob(key: string, body: ReadableStream<Uint8Array>, contentType: string): Promise<void>;
+  deleteBlob(key: string): Promise<boolean>;
+}
+
+type StorageAdapterFactory = () => StorageAdapter | Promise<StorageAdapter>;
+
+export const DEFAULT_STORAGE_ADAPTER = "fs-sqlite";
+
+const factories = new Map<string, StorageAdapterFactory>([
+  [
+    DEFAULT_STORAGE_ADAPTER,
+    () =>
+      createFsSqliteAdapter(
+        process.env.SOURCE_HUB_DATA_DIR ?? path.join(process.cwd(), ".source-hub-data")
+      )
+  ]
+]);
+
+let adapterPromise: Promise<StorageAdapter> | null = null;
+
+export function registerStorageAdapter(name: string, factory: StorageAdapterFactory): void {
+  factories.set(name, factory);
+  adapterPromise = null;
+}
+
+export function getStorageAdapter(): Promise<StorageAdapter> {
+  if (!adapterPromise) {
+    const name = process.env.SOURCE_HUB_STORAGE ?? DEFAULT_STORAGE_ADAPTER;
+    const factory = factories.get(name);
+    if (!factory) {
+      return Promise.reject(new Error(`Unknown storage adapter "${name}".`));
+    }
+    adapterPromise = Promise.resolve(factory()).catch((error) => {
+      adapterPromise = null;
+      throw error;
+    });
+  }
+  return adapterPromise;
+}
+
+export function isSourceRecord(value: unknown): value is SourceRecord {
+  if (!value || typeof value !== "object") return false;
+  const record = value as Partial<SourceRecord>;
+  return (
+    typeof record.id === "string" &&
+    record.id.length > 0 &&
+    typeof record.name === "string" &&
+    typeof record.kind === "string" &&
+    typeof record.category === "string" &&
+    typeof record.createdAt === "string" &&
+    Array.isArray(record.tags)
+  );
+}
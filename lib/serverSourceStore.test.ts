@@ -0,0 +1,202 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { deleteLocalBlob } from "@/lib/sources";
+import type { SourceRecord, SourceStore, SyncStatus } from "@/lib/sources";
+import type { SyncEntry, SyncRequest, SyncResponse } from "@/lib/syncProtocol";
+import { createServerSourceStore } from "@/lib/serverSourceStore";
+
+// Blobs live in IndexedDB and OPFS, which node lacks; these tests only sync records.
+vi.mock("@/lib/sources", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/sources")>()),
+  deleteLocalBlob: vi.fn(async () => undefined),
+  persistLocalBlob: vi.fn(async () => undefined),
+  readLocalBlob: vi.fn(async () => undefined)
+}));
+
+/** In-memory /api/sync with the same revision rules as the SQLite adapter. */
+function createFakeServer() {
+  const entries = new Map<string, SyncEntry>();
+  let seq = 0;
+
+  const write = (id: string, record: SourceRecord | null, deleted: boolean) => {
+    const previous = entries.get(id);
+    const entry: SyncEntry = {
+      id,
+      revision: (previous?.revision ?? 0) + 1,
+      deleted,
+      record: record ?? previous?.record ?? null,
+      updatedAt: new Date().toISOString(),
+      seq: (seq += 1)
+    };
+    entries.set(id, entry);
+    return entry;
+  };
+
+  const handle = ({ cursor, changes }: SyncRequest): SyncResponse => {
+    const results = changes.map((change) => {
+      const current = entries.get(change.id);
+      if (current && current.revision !== change.baseRevision) {
+        return { id: change.id, status: "conflict" as const, entry: current };
+      }
+      return {
+        id: change.id,
+        status: "accepted" as const,
+        entry: write(change.id, change.deleted ? null : change.record, change.deleted)
+      };
+    });
+    const pulled = Array.from(entries.values())
+      .filter((entry) => entry.seq > cursor)
+      .sort((a, b) => a.seq - b.seq);
+    return {
+      cursor: pulled.length ? pulled[pulled.length - 1].seq : cursor,
+      results,
+      changes: pulled
+    };
+  };
+
+  return { entries, write, handle };
+}
+
+const record = (id: string, name: string): SourceRecord => ({
+  id,
+  name,
+  kind: "text",
+  category: "text",
+  tags: [],
+  createdAt: "2024-05-01T12:00:00.000Z"
+});
+
+describe("createServerSourceStore", () => {
+  let server: ReturnType<typeof createFakeServer>;
+  let store: SourceStore;
+  let sources: SourceRecord[];
+  let statuses: Record<string, SyncStatus>;
+
+  // Runs the sync that the store schedules after every change.
+  const settle = () => vi.advanceTimersByTimeAsync(1000);
+  // Remote changes only arrive with the periodic poll.
+  const poll = () => vi.advanceTimersByTimeAsync(30_000);
+
+  const save = async (next: SourceRecord[]) => {
+    sources = next;
+    await store.saveSources(next);
+    await settle();
+  };
+
+  beforeEach(async () => {
+    vi.useFakeTimers();
+    vi.mocked(deleteLocalBlob).mockClear();
+    const storage = new Map<string, string>();
+    vi.stubGlobal("window", {
+      localStorage: {
+        getItem: (key: string) => storage.get(key) ?? null,
+        setItem: (key: string, value: string) => storage.set(key, value)
+      },
+      setTimeout,
+      clearTimeout,
+      setInterval,
+      clearInterval,
+      addEventListener: () => undefined,
+      removeEventListener: () => undefined
+    });
+    server = createFakeServer();
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async (_url: string, init: RequestInit) =>
+        Response.json(server.handle(JSON.parse(init.body as string) as SyncRequest))
+      )
+    );
+
+    store = createServerSourceStore();
+    sources = await store.loadSources();
+    store.subscribe?.((update) => {
+      sources = update.sources ?? sources;
+      statuses = update.statuses;
+    });
+    await settle();
+  });
+
+  afterEach(() => {
+    store.dispose?.();
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  it("pushes local edits and pulls remote ones", async () => {
+    await save([record("a", "Local")]);
+    expect(server.entries.get("a")?.record?.name).toBe("Local");
+    expect(statuses.a).toBe("synced");
+
+    server.write("b", record("b", "Remote"), false);
+    await poll();
+    expect(sources.map((source) => source.name).sort()).toEqual(["Local", "Remote"]);
+  });
+
+  it("holds a conflicting edit until the user picks a side", async () => {
+    await save([record("a", "Original")]);
+    server.write("a", record("a", "Theirs"), false);
+    await save([record("a", "Mine")]);
+
+    expect(statuses.a).toBe("conflict");
+    expect(store.getConflict?.("a")?.server?.name).toBe("Theirs");
+    expect(server.entries.get("a")?.record?.name).toBe("Theirs");
+
+    await store.resolveConflict?.("a", "local");
+    await settle();
+    expect(server.entries.get("a")).toMatchObject({ revision: 3, record: { name: "Mine" } });
+    expect(statuses.a).toBe("synced");
+  });
+
+  it("can take the server side of a conflict", async () => {
+    await save([record("a", "Original")]);
+    server.write("a", record("a", "Theirs"), false);
+    await save([record("a", "Mine")]);
+
+    await store.resolveConflict?.("a", "server");
+    await settle();
+    expect(sources.map((source) => source.name)).toEqual(["Theirs"]);
+    expect(statuses.a).toBe("synced");
+  });
+
+  it("restores a record that was edited remotely after a local deletion", async () => {
+    await save([record("a", "Original")]);
+    server.write("a", record("a", "Edited"), false);
+    await save([]);
+
+    expect(server.entries.get("a")?.deleted).toBe(false);
+    expect(sources.map((source) => source.name)).toEqual(["Edited"]);
+  });
+
+  it("applies remote tombstones and pushes local ones", async () => {
+    await save([record("a", "First"), record("b", "Second")]);
+
+    server.write("a", null, true);
+    await poll();
+    expect(sources.map((source) => source.id)).toEqual(["b"]);
+
+    await save([]);
+    expect(server.entries.get("b")).toMatchObject({ deleted: true, revision: 2 });
+  });
+
+  it("keeps a shared file when a remote tombstone removes one of its records", async () => {
+    const file = { ...record("a", "Copy"), kind: "file" as const, fileKey: "file::sha256-x" };
+    await save([file, { ...file, id: "b", textKey: "text::b" }]);
+
+    server.write("b", null, true);
+    await poll();
+    expect(deleteLocalBlob).toHaveBeenCalledWith("text::b");
+    expect(deleteLocalBlob).not.toHaveBeenCalledWith("file::sha256-x");
+  });
+
+  it("evicts cached files when a remote edit changes the record", async () => {
+    const note = { ...record("a", "Note"), textKey: "text::a", updatedAt: "2024-05-01" };
+    await save([note]);
+
+    server.write("a", { ...note, name: "Renamed" }, false);
+    await poll();
+    expect(deleteLocalBlob).not.toHaveBeenCalled();
+
+    server.write("a", { ...note, updatedAt: "2024-05-02" }, false);
+    await poll();
+    expect(deleteLocalBlob).toHaveBeenCalledWith("text::a");
+  });
+});
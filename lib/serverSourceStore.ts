@@ -0,0 +1,403 @@
+import {
+  SourceRecord,
+  SourceStore,
+  SourceStoreUpdate,
+  SyncStatus,
+  deleteLocalBlob,
+  loadSources,
+  persistLocalBlob,
+  persistSources,
+  readLocalBlob,
+  sourceBlobKeys
+} from "@/lib/sources";
+import type { SyncChange, SyncEntry, SyncResponse } from "@/lib/syncProtocol";
+
+// Server-mode records are cached separately so they never overwrite the
+// browser-only library.
+const SERVER_CACHE_KEY = "agentic-source-hub::server-sources";
+const SYNC_STATE_KEY = "agentic-source-hub::sync-state";
+const SYNC_DEBOUNCE_MS = 1000;
+const SYNC_POLL_INTERVAL_MS = 30_000;
+
+type RecordMeta = {
+  // Server revision the local copy is based on; 0 if it never reached the server.
+  revision: number;
+  dirty: boolean;
+  // Local tombstone waiting to be pushed.
+  deleted?: boolean;
+  // Newer server version that clashes with unsynced local edits.
+  conflict?: SyncEntry;
+};
+
+type SyncState = {
+  cursor: number;
+  records: Record<string, RecordMeta>;
+  // Blob keys waiting to be uploaded to or deleted from the server.
+  blobs: Record<string, "put" | "delete">;
+};
+
+export class SourceStoreError extends Error {
+  status?: number;
+
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = "SourceStoreError";
+    this.status = status;
+  }
+}
+
+function loadSyncState(): SyncState {
+  const empty: SyncState = { cursor: 0, records: {}, blobs: {} };
+  if (typeof window === "undefined") return empty;
+  try {
+    const raw = window.localStorage.getItem(SYNC_STATE_KEY);
+    return raw ? { ...empty, ...(JSON.parse(raw) as SyncState) } : empty;
+  } catch (error) {
+    console.error("Failed to load sync state", error);
+    return empty;
+  }
+}
+
+function persistSyncState(state: SyncState): void {
+  if (typeof window === "undefined") return;
+  window.localStorage.setItem(SYNC_STATE_KEY, JSON.stringify(state));
+}
+
+function blobUrl(baseUrl: string, key: string): string {
+  return `${baseUrl}/blobs/${encodeURIComponent(key)}`;
+}
+
+async function expectOk(response: Response, action: string): Promise<Response> {
+  if (!response.ok) {
+    const detail = await response.text().catch(() => "");
+    throw new SourceStoreError(
+      `${action} failed with ${response.status}${detail ? `: ${detail.slice(0, 200)}` : ""}`,
+      response.status
+    );
+  }
+  return response;
+}
+
+/**
+ * Offline-first replica of the shared library. Every edit is applied to the
+ * local copy immediately and queued; a background sync pushes queued changes
+ * to POST /api/sync and pulls what others changed.
+ *
+ * Edits that race with a newer server revision are held as conflicts until
+ * the user picks a side. A local deletion never beats a remote edit: the
+ * edited record comes back instead, so nobody's work disappears silently.
+ */
+export function createServerSourceStore(baseUrl = "/api"): SourceStore {
+  let sources: SourceRecord[] = [];
+  let state = loadSyncState();
+  const listeners = new Set<(update: SourceStoreUpdate) => void>();
+  let running: Promise<void> | null = null;
+  let rerun = false;
+  let debounceTimer: number | undefined;
+
+  const statusOf = (source: SourceRecord): SyncStatus => {
+    const meta = state.records[source.id];
+    if (meta?.conflict) return "conflict";
+    if (!meta || meta.dirty || sourceBlobKeys(source).some((key) => state.blobs[key])) {
+      return "pending";
+    }
+    return "synced";
+  };
+
+  const notify = (sourcesChanged: boolean) => {
+    const update: SourceStoreUpdate = {
+      sources: sourcesChanged ? sources : undefined,
+      statuses: Object.fromEntries(sources.map((source) => [source.id, statusOf(source)]))
+    };
+    listeners.forEach((listener) => listener(update));
+  };
+
+  const save = () => {
+    persistSources(sources, SERVER_CACHE_KEY);
+    persistSyncState(state);
+  };
+
+  const schedule = (delay = SYNC_DEBOUNCE_MS) => {
+    if (typeof window === "undefined") return;
+    window.clearTimeout(debounceTimer);
+    debounceTimer = window.setTimeout(() => {
+      sync().catch((error) => {
+        console.error("Sync failed; will retry", error);
+      });
+    }, delay);
+  };
+
+  /** Makes the local copy match a server entry and marks it clean. */
+  const adopt = (entry: SyncEntry) => {
+    const local = sources.find((source) => source.id === entry.id);
+    if (entry.deleted || !entry.record) {
+      sources = sources.filter((source) => source.id !== entry.id);
+      delete state.records[entry.id];
+      if (local) {
+        // Content-addressed files are shared by duplicates; keep those still in use.
+        const referenced = new Set(sources.flatMap(sourceBlobKeys));
+        sourceBlobKeys(local).forEach((key) => {
+          if (!referenced.has(key)) {
+            void deleteLocalBlob(key);
+          }
+        });
+      }
+      return;
+    }
+    const record = entry.record;
+    if (
+      local &&
+      (local.updatedAt !== record.updatedAt ||
+        local.textKey !== record.textKey ||
+        local.fileKey !== record.fileKey)
+    ) {
+      // Cached files may belong to the old version, so readBlob fetches them
+      // again. Ones still waiting to be uploaded are the only copy; keep those.
+      new Set([...sourceBlobKeys(local), ...sourceBlobKeys(record)]).forEach((key) => {
+        if (state.blobs[key] !== "put") {
+          void deleteLocalBlob(key);
+        }
+      });
+    }
+    sources = local
+      ? sources.map((source) => (source.id === entry.id ? record : source))
+      : [record, ...sources];
+    state.records[entry.id] = { revision: entry.revision, dirty: false };
+  };
+
+  const pushBlobs = async (only: "put" | "delete") => {
+    const referenced = new Set(sources.flatMap(sourceBlobKeys));
+    for (const [key, operation] of Object.entries(state.blobs)) {
+      if (operation !== only) continue;
+      if (operation === "delete" && referenced.has(key)) {
+        // The record came back (a remote edit beat our deletion); keep its file.
+      } else if (operation === "put") {
+        const blob = await readLocalBlob(key);
+        if (blob) {
+          await expectOk(
+            await fetch(blobUrl(baseUrl, key), {
+              method: "PUT",
+              headers: { "Content-Type": blob.type || "application/octet-stream" },
+              body: blob
+            }),
+            "Uploading file"
+          );
+        }
+      } else {
+        const response = await fetch(blobUrl(baseUrl, key), { method: "DELETE" });
+        if (response.status !== 404) {
+          await expectOk(response, "Deleting file");
+        }
+      }
+      // The key may have been queued again while this request was running.
+      if (state.blobs[key] === operation) {
+        delete state.blobs[key];
+      }
+      persistSyncState(state);
+    }
+  };
+
+  const runSync = async () => {
+    if (typeof navigator !== "undefined" && !navigator.onLine) return;
+    // Uploads go first so records never point at blobs the server lacks;
+    // deletions wait until we know the records really are gone.
+    await pushBlobs("put");
+
+    const changes: SyncChange[] = [];
+    const sent = new Map<string, string>();
+    for (const [id, meta] of Object.entries(state.records)) {
+      if (!meta.dirty || meta.conflict) continue;
+      const record = meta.deleted ? null : sources.find((source) => source.id === id) ?? null;
+      if (!meta.deleted && !record) continue;
+      changes.push({ id, baseRevision: meta.revision, deleted: Boolean(meta.deleted), record });
+      sent.set(id, JSON.stringify(record));
+    }
+
+    const response = await expectOk(
+      await fetch(`${baseUrl}/sync`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ cursor: state.cursor, changes })
+      }),
+      "Sync"
+    );
+    const payload = (await response.json()) as SyncResponse;
+    let sourcesChanged = false;
+
+    const handleNewer = (meta: RecordMeta, entry: SyncEntry) => {
+      if (meta.deleted) {
+        // Local deletion vs. remote edit (or remote deletion): take the server's side.
+        adopt(entry);
+        sourcesChanged = true;
+      } else {
+        meta.conflict = entry;
+      }
+    };
+
+    for (const result of payload.results) {
+      const meta = state.records[result.id];
+      if (!meta) continue;
+      if (result.status === "conflict") {
+        handleNewer(meta, result.entry);
+        continue;
+      }
+      if (meta.deleted) {
+        delete state.records[result.id];
+        continue;
+      }
+      const current = sources.find((source) => source.id === result.id);
+      state.records[result.id] = {
+        revision: result.entry.revision,
+        // Still dirty if it was edited again while the request was in flight.
+        dirty: JSON.stringify(current ?? null) !== sent.get(result.id)
+      };
+    }
+
+    for (const entry of payload.changes) {
+      const meta = state.records[entry.id];
+      if (meta && entry.revision <= meta.revision) continue;
+      if (meta?.dirty) {
+        handleNewer(meta, entry);
+        continue;
+      }
+      adopt(entry);
+      sourcesChanged = true;
+    }
+
+    state.cursor = payload.cursor;
+    save();
+    notify(sourcesChanged);
+    await pushBlobs("delete");
+  };
+
+  const sync = (): Promise<void> => {
+    if (running) {
+      rerun = true;
+      return running;
+    }
+    running = (async () => {
+      try {
+        do {
+          rerun = false;
+          await runSync();
+        } while (rerun);
+      } finally {
+        running = null;
+      }
+    })();
+    return running;
+  };
+
+  const handleOnline = () => schedule(0);
+  let pollTimer: number | undefined;
+  if (typeof window !== "undefined") {
+    window.addEventListener("online", handleOnline);
+    pollTimer = window.setInterval(() => schedule(0), SYNC_POLL_INTERVAL_MS);
+  }
+
+  return {
+    mode: "server",
+
+    async loadSources() {
+      sources = loadSources(SERVER_CACHE_KEY);
+      state = loadSyncState();
+      schedule(0);
+      return sources;
+    },
+
+    async saveSources(next) {
+      const previous = new Map(sources.map((source) => [source.id, JSON.stringify(source)]));
+      const nextIds = new Set<string>();
+      for (const source of next) {
+        nextIds.add(source.id);
+        if (previous.get(source.id) === JSON.stringify(source)) continue;
+        const meta = state.records[source.id];
+        state.records[source.id] = {
+          ...meta,
+          revision: meta?.revision ?? 0,
+          dirty: true,
+          deleted: false
+        };
+      }
+      for (const id of Array.from(previous.keys())) {
+        if (nextIds.has(id)) continue;
+        const meta = state.records[id];
+        if (!meta?.revision) {
+          // Never reached the server, so there is nothing to tombstone.
+          delete state.records[id];
+        } else {
+          state.records[id] = { ...meta, dirty: true, deleted: true, conflict: undefined };
+        }
+      }
+      sources = next;
+      save();
+      notify(false);
+      schedule();
+    },
+
+    async persistBlob(key, blob) {
+      await persistLocalBlob(key, blob);
+      state.blobs[key] = "put";
+      persistSyncState(state);
+      schedule();
+    },
+
+    async readBlob(key) {
+      const cached = await readLocalBlob(key);
+      if (cached) return cached;
+      if (typeof navigator !== "undefined" && !navigator.onLine) return undefined;
+      const response = await fetch(blobUrl(baseUrl, key));
+      if (response.status === 404) return undefined;
+      const blob = await (await expectOk(response, "Downloading file")).blob();
+      await persistLocalBlob(key, blob);
+      return blob;
+    },
+
+    async deleteBlob(key) {
+      await deleteLocalBlob(key);
+      state.blobs[key] = "delete";
+      persistSyncState(state);
+      schedule();
+    },
+
+    subscribe(listener) {
+      listeners.add(listener);
+      listener({
+        statuses: Object.fromEntries(sources.map((source) => [source.id, statusOf(source)]))
+      });
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    getConflict(id) {
+      const entry = state.records[id]?.conflict;
+      return entry
+        ? { server: entry.deleted ? null : entry.record, updatedAt: entry.updatedAt }
+        : undefined;
+    },
+
+    async resolveConflict(id, keep) {
+      const meta = state.records[id];
+      if (!meta?.conflict) return;
+      const entry = meta.conflict;
+      if (keep === "local") {
+        // Rebase the local edit onto the server revision and push it again.
+        state.records[id] = { revision: entry.revision, dirty: true, deleted: meta.deleted };
+      } else {
+        adopt(entry);
+      }
+      save();
+      notify(keep === "server");
+      schedule(0);
+    },
+
+    dispose() {
+      if (typeof window === "undefined") return;
+      window.clearTimeout(debounceTimer);
+      window.clearInterval(pollTimer);
+      window.removeEventListener("online", handleOnline);
+      listeners.clear();
+    }
+  };
+}
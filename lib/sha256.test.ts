@@ -0,0 +1,37 @@
+import { createHash } from "node:crypto";
+import { describe, expect, it } from "vitest";
+import { createSha256, sha256Blob } from "@/lib/sha256";
+
+const hex = (bytes: Uint8Array) => Buffer.from(bytes).toString("hex");
+const expected = (bytes: Uint8Array) => createHash("sha256").update(bytes).digest("hex");
+
+function sample(length: number) {
+  return Uint8Array.from({ length }, (_, index) => (index * 31 + 7) & 0xff);
+}
+
+describe("createSha256", () => {
+  it.each([0, 1, 55, 56, 63, 64, 65, 119, 120, 1000, 4096])(
+    "matches node:crypto for %i bytes",
+    (length) => {
+      const hasher = createSha256();
+      hasher.update(sample(length));
+      expect(hex(hasher.digest())).toBe(expected(sample(length)));
+    }
+  );
+
+  it("gives the same digest however the input is split", () => {
+    const data = sample(1500);
+    const hasher = createSha256();
+    for (let offset = 0, size = 1; offset < data.length; offset += size, size += 13) {
+      hasher.update(data.subarray(offset, offset + size));
+    }
+    expect(hex(hasher.digest())).toBe(expected(data));
+  });
+});
+
+describe("sha256Blob", () => {
+  it("hashes a blob as a stream", async () => {
+    const data = sample(200_000);
+    expect(hex(await sha256Blob(new Blob([data])))).toBe(expected(data));
+  });
+});
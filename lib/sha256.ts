@@ -0,0 +1,130 @@
+/**
+ * Incremental SHA-256. WebCrypto only digests a whole buffer, which would
+ * mean reading multi-gigabyte files into memory; this hashes a stream chunk
+ * by chunk instead. It is slower than WebCrypto, so small inputs should still
+ * go through crypto.subtle (see sha256Hex in lib/signing).
+ */
+
+const ROUND_CONSTANTS = new Uint32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2
+]);
+
+const INITIAL_STATE = [
+  0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19
+];
+
+const BLOCK_BYTES = 64;
+
+export type Sha256 = {
+  update: (bytes: Uint8Array) => void;
+  // Finishes the hash; the hasher cannot be updated afterwards.
+  digest: () => Uint8Array;
+};
+
+const rotate = (value: number, bits: number) => (value >>> bits) | (value << (32 - bits));
+
+export function createSha256(): Sha256 {
+  const state = new Uint32Array(INITIAL_STATE);
+  const words = new Uint32Array(64);
+  const pending = new Uint8Array(BLOCK_BYTES);
+  let pendingLength = 0;
+  let totalBytes = 0;
+
+  const compress = (data: Uint8Array, offset: number) => {
+    for (let index = 0; index < 16; index += 1) {
+      const at = offset + index * 4;
+      words[index] =
+        (data[at] << 24) | (data[at + 1] << 16) | (data[at + 2] << 8) | data[at + 3];
+    }
+    for (let index = 16; index < 64; index += 1) {
+      const w15 = words[index - 15];
+      const w2 = words[index - 2];
+      const s0 = rotate(w15, 7) ^ rotate(w15, 18) ^ (w15 >>> 3);
+      const s1 = rotate(w2, 17) ^ rotate(w2, 19) ^ (w2 >>> 10);
+      words[index] = words[index - 16] + s0 + words[index - 7] + s1;
+    }
+
+    let [a, b, c, d, e, f, g, h] = state;
+    for (let index = 0; index < 64; index += 1) {
+      const s1 = rotate(e, 6) ^ rotate(e, 11) ^ rotate(e, 25);
+      const choice = (e & f) ^ (~e & g);
+      const t1 = (h + s1 + choice + ROUND_CONSTANTS[index] + words[index]) | 0;
+      const s0 = rotate(a, 2) ^ rotate(a, 13) ^ rotate(a, 22);
+      const majority = (a & b) ^ (a & c) ^ (b & c);
+      const t2 = (s0 + majority) | 0;
+      h = g;
+      g = f;
+      f = e;
+      e = (d + t1) | 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (t1 + t2) | 0;
+    }
+    state[0] += a;
+    state[1] += b;
+    state[2] += c;
+    state[3] += d;
+    state[4] += e;
+    state[5] += f;
+    state[6] += g;
+    state[7] += h;
+  };
+
+  const update = (bytes: Uint8Array) => {
+    totalBytes += bytes.length;
+    let offset = 0;
+    if (pendingLength) {
+      const take = Math.min(BLOCK_BYTES - pendingLength, bytes.length);
+      pending.set(bytes.subarray(0, take), pendingLength);
+      pendingLength += take;
+      offset = take;
+      if (pendingLength < BLOCK_BYTES) return;
+      compress(pending, 0);
+      pendingLength = 0;
+    }
+    for (; offset + BLOCK_BYTES <= bytes.length; offset += BLOCK_BYTES) {
+      compress(bytes, offset);
+    }
+    pending.set(bytes.subarray(offset), 0);
+    pendingLength = bytes.length - offset;
+  };
+
+  const digest = () => {
+    // Padding: a 1 bit, zeros, then the message length in bits as 64 bits.
+    const padding = new Uint8Array(
+      pendingLength < 56 ? 64 - pendingLength : 128 - pendingLength
+    );
+    padding[0] = 0x80;
+    const view = new DataView(padding.buffer);
+    view.setUint32(padding.length - 8, Math.floor(totalBytes / 0x20000000));
+    view.setUint32(padding.length - 4, (totalBytes * 8) >>> 0);
+    const length = totalBytes;
+    update(padding);
+    totalBytes = length;
+
+    const output = new Uint8Array(32);
+    const outputView = new DataView(output.buffer);
+    state.forEach((word, index) => outputView.setUint32(index * 4, word));
+    return output;
+  };
+
+  return { update, digest };
+}
+
+/** Hashes a blob as a stream, so only one chunk is in memory at a time. */
+export async function sha256Blob(blob: Blob): Promise<Uint8Array> {
+  const hasher = createSha256();
+  const reader = blob.stream().getReader();
+  for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+    hasher.update(chunk.value);
+  }
+  return hasher.digest();
+}
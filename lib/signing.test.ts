@@ -0,0 +1,91 @@
+import { createHash, createHmac } from "node:crypto";
+import { describe, expect, it } from "vitest";
+import type { SourceRecord } from "@/lib/sources";
+import {
+  canonicalSignatureString,
+  computeContentHash,
+  computeIdempotencyKey,
+  sha256Hex,
+  signRequest
+} from "@/lib/signing";
+
+const nodeSha256 = (data: string) => createHash("sha256").update(data).digest("hex");
+
+const input = {
+  timestamp: "2024-05-01T12:00:00.000Z",
+  idempotencyKey: `${"a".repeat(64)}:source-1`,
+  digests: [nodeSha256("batch"), nodeSha256("source"), "-"]
+};
+
+describe("sha256Hex", () => {
+  it("matches node:crypto for strings, blobs and buffers", async () => {
+    const expected = nodeSha256("hello world");
+    expect(await sha256Hex("hello world")).toBe(expected);
+    expect(await sha256Hex(new Blob(["hello ", "world"]))).toBe(expected);
+    expect(await sha256Hex(new TextEncoder().encode("hello world").buffer)).toBe(expected);
+  });
+});
+
+describe("signRequest", () => {
+  it("joins the timestamp, key and digests with dots", () => {
+    expect(canonicalSignatureString(input)).toBe(
+      [input.timestamp, input.idempotencyKey, ...input.digests].join(".")
+    );
+  });
+
+  it("signs the canonical string with HMAC-SHA256", async () => {
+    const expected = createHmac("sha256", "secret")
+      .update(canonicalSignatureString(input))
+      .digest("hex");
+    expect(await signRequest("secret", input)).toBe(`v1=${expected}`);
+  });
+
+  it("changes when any signed field changes", async () => {
+    const signature = await signRequest("secret", input);
+    expect(await signRequest("other", input)).not.toBe(signature);
+    expect(
+      await signRequest("secret", { ...input, idempotencyKey: `${"a".repeat(64)}:source-2` })
+    ).not.toBe(signature);
+    expect(
+      await signRequest("secret", { ...input, digests: [...input.digests.slice(0, 2), "0"] })
+    ).not.toBe(signature);
+  });
+});
+
+describe("computeIdempotencyKey", () => {
+  it("does not depend on selection order", async () => {
+    const key = await computeIdempotencyKey({ a: "1", b: "2" });
+    expect(key).toBe(await computeIdempotencyKey({ b: "2", a: "1" }));
+    expect(key).toBe(nodeSha256("a:1\nb:2"));
+  });
+
+  it("changes with the content", async () => {
+    expect(await computeIdempotencyKey({ a: "1", b: "2" })).not.toBe(
+      await computeIdempotencyKey({ a: "1", b: "3" })
+    );
+  });
+});
+
+describe("computeContentHash", () => {
+  const base: SourceRecord = {
+    id: "source-1",
+    name: "Example",
+    kind: "url",
+    category: "other",
+    tags: [],
+    createdAt: "2024-05-01T12:00:00.000Z"
+  };
+
+  it("reuses the hash recorded for a stored file", async () => {
+    const sha256 = "b".repeat(64);
+    expect(
+      await computeContentHash({ ...base, kind: "file", fileKey: "file::x", sha256 })
+    ).toBe(sha256);
+  });
+
+  it("hashes the URL of a link", async () => {
+    expect(await computeContentHash({ ...base, url: "https://example.com/" })).toBe(
+      nodeSha256("https://example.com/")
+    );
+  });
+});
@@ -0,0 +1,91 @@
+import { SourceRecord, readBlob } from "@/lib/sources";
+import { sha256Blob } from "@/lib/sha256";
+
+const encoder = new TextEncoder();
+// Larger blobs are hashed as a stream instead of being read into memory.
+const BUFFERED_DIGEST_BYTES = 32 * 1024 * 1024;
+
+function toHex(buffer: ArrayBuffer | Uint8Array): string {
+  return Array.from(new Uint8Array(buffer))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+export async function sha256Hex(data: string | Blob | ArrayBuffer): Promise<string> {
+  if (data instanceof Blob && data.size > BUFFERED_DIGEST_BYTES) {
+    return toHex(await sha256Blob(data));
+  }
+  const bytes =
+    typeof data === "string"
+      ? encoder.encode(data)
+      : data instanceof Blob
+      ? await data.arrayBuffer()
+      : data;
+  return toHex(await crypto.subtle.digest("SHA-256", bytes));
+}
+
+export async function hmacSha256Hex(secret: string, message: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  return toHex(await crypto.subtle.sign("HMAC", key, encoder.encode(message)));
+}
+
+/**
+ * Hash of what the assistant receives for a source: file bytes, note text or
+ * URL. Files reuse the hash recorded at import; older records without one are
+ * hashed from storage, streaming large files.
+ */
+export async function computeContentHash(source: SourceRecord): Promise<string> {
+  if (source.fileKey && source.sha256) {
+    return source.sha256;
+  }
+  if (source.fileKey) {
+    const blob = await readBlob(source.fileKey);
+    return sha256Hex(blob ?? "");
+  }
+  if (source.textKey) {
+    const blob = await readBlob(source.textKey);
+    return sha256Hex(blob ? await blob.text() : "");
+  }
+  return sha256Hex(source.url ?? "");
+}
+
+/**
+ * Stable across retries and repeated clicks: the same sources with the same
+ * content always produce the same key, regardless of selection order.
+ */
+export function computeIdempotencyKey(
+  contentHashes: Record<string, string>
+): Promise<string> {
+  return sha256Hex(
+    Object.entries(contentHashes)
+      .map(([id, hash]) => `${id}:${hash}`)
+      .sort()
+      .join("\n")
+  );
+}
+
+export type SignatureInput = {
+  timestamp: string;
+  idempotencyKey: string;
+  // Hex SHA-256 digests of the signed body parts, in wire order. A missing
+  // optional part is represented by "-".
+  digests: string[];
+};
+
+/** The exact string that is signed; see ASSISTANT_HEADERS in payloadSchema. */
+export function canonicalSignatureString(input: SignatureInput): string {
+  return [input.timestamp, input.idempotencyKey, ...input.digests].join(".");
+}
+
+export async function signRequest(
+  secret: string,
+  input: SignatureInput
+): Promise<string> {
+  return `v1=${await hmacSha256Hex(secret, canonicalSignatureString(input))}`;
+}
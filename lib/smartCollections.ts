@@ -0,0 +1,29 @@
+export type SmartCollection = {
+  id: string;
+  name: string;
+  query: string;
+};
+
+const SMART_COLLECTIONS_KEY = "agentic-source-hub::smart-collections";
+
+export function createSmartCollectionId(): string {
+  return `smart-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function loadSmartCollections(): SmartCollection[] {
+  if (typeof window === "undefined") return [];
+  try {
+    const raw = window.localStorage.getItem(SMART_COLLECTIONS_KEY);
+    if (!raw) return [];
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? (parsed as SmartCollection[]) : [];
+  } catch (error) {
+    console.error("Failed to load smart collections", error);
+    return [];
+  }
+}
+
+export function persistSmartCollections(collections: SmartCollection[]): void {
+  if (typeof window === "undefined") return;
+  window.localStorage.setItem(SMART_COLLECTIONS_KEY, JSON.stringify(collections));
+}
@@ -0,0 +1,192 @@
+import {
+  SourceRecord,
+  contentBlobKey,
+  detectCategoryFromMime,
+  persistBlob
+} from "@/lib/sources";
+import { baseMimeType, sniffMimeType } from "@/lib/mime";
+import { hashFile } from "@/lib/dedup";
+import { checkIngest } from "@/lib/quota";
+import { extractText, indexSourceText, removeSourceText } from "@/lib/textIndex";
+
+/**
+ * Snapshots of URL sources. The page is fetched through /api/snapshot (the
+ * browser cannot read most cross-origin responses) and its bytes stored like
+ * a dropped file, so the assistant gets the content even if the link dies.
+ * HTML pages also get their readable text extracted for search.
+ */
+
+const SNAPSHOT_ENDPOINT = "/api/snapshot";
+
+// Page chrome that is never part of the article.
+const BOILERPLATE_SELECTOR =
+  "script, style, noscript, template, svg, canvas, iframe, form, nav, header, footer, aside, [hidden], [aria-hidden='true'], [role='navigation']";
+const BLOCK_SELECTOR = "p, h1, h2, h3, h4, h5, h6, li, blockquote, pre, figcaption, td, th";
+
+export class SnapshotError extends Error {
+  // Status the remote server answered with, when it answered at all.
+  status?: number;
+
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = "SnapshotError";
+    this.status = status;
+  }
+}
+
+export type HtmlArticle = {
+  title?: string;
+  description?: string;
+  text: string;
+};
+
+export type Snapshot = {
+  blob: Blob;
+  mimeType: string;
+  status: number;
+  // Final URL after redirects.
+  url: string;
+  takenAt: string;
+  article?: HtmlArticle;
+};
+
+function collapseWhitespace(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Pulls the title, description and main text out of an HTML page: the
+ * largest <article> (or <main>, or the body) minus navigation and other
+ * chrome, one paragraph per block element.
+ */
+export function extractArticle(html: string): HtmlArticle {
+  const document = new DOMParser().parseFromString(html, "text/html");
+  const meta = (name: string) =>
+    document
+      .querySelector(`meta[property="${name}"], meta[name="${name}"]`)
+      ?.getAttribute("content")
+      ?.trim() || undefined;
+
+  const title = meta("og:title") ?? (collapseWhitespace(document.title) || undefined);
+  const description =
+    meta("og:description") ?? meta("description") ?? meta("twitter:description");
+
+  document.querySelectorAll(BOILERPLATE_SELECTOR).forEach((element) => element.remove());
+  const articles = Array.from(document.querySelectorAll("article"));
+  const root =
+    articles.sort((a, b) => (b.textContent?.length ?? 0) - (a.textContent?.length ?? 0))[0] ??
+    document.querySelector("main, [role='main']") ??
+    document.body;
+  if (!root) return { title, description, text: "" };
+
+  // Outermost blocks only, so a <p> inside an <li> is not counted twice.
+  const blocks = Array.from(root.querySelectorAll(BLOCK_SELECTOR)).filter((element) => {
+    const outer = element.parentElement?.closest(BLOCK_SELECTOR);
+    return !outer || !root.contains(outer);
+  });
+  const paragraphs = (blocks.length ? blocks : [root])
+    .map((element) => collapseWhitespace(element.textContent ?? ""))
+    .filter(Boolean);
+  return { title, description, text: paragraphs.join("\n\n") };
+}
+
+function decodeText(blob: Blob, contentType: string): Promise<string> {
+  const charset = contentType.match(/charset=["']?([\w-]+)/i)?.[1];
+  if (!charset || /^utf-?8$/i.test(charset)) return blob.text();
+  return blob.arrayBuffer().then((buffer) => {
+    try {
+      return new TextDecoder(charset).decode(buffer);
+    } catch {
+      return new TextDecoder().decode(buffer);
+    }
+  });
+}
+
+export async function fetchSnapshot(url: string): Promise<Snapshot> {
+  const response = await fetch(SNAPSHOT_ENDPOINT, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ url })
+  }).catch(() => {
+    throw new SnapshotError("The snapshot service is unreachable.");
+  });
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new SnapshotError(
+      typeof body?.error === "string" ? body.error : `Snapshot failed (${response.status}).`,
+      typeof body?.status === "number" ? body.status : undefined
+    );
+  }
+
+  const contentType = response.headers.get("Content-Type") ?? "";
+  const finalUrl = response.headers.get("X-Snapshot-Url") ?? url;
+  const raw = await response.blob();
+  const mimeType = await sniffMimeType(raw, baseMimeType(contentType), finalUrl);
+  const blob = new Blob([raw], { type: mimeType });
+  return {
+    blob,
+    mimeType,
+    status: Number(response.headers.get("X-Snapshot-Status")) || response.status,
+    url: finalUrl,
+    takenAt: new Date().toISOString(),
+    article:
+      mimeType === "text/html" ? extractArticle(await decodeText(blob, contentType)) : undefined
+  };
+}
+
+/**
+ * Stores a snapshot's bytes and text for a URL source and returns the updated
+ * record. The record stays a URL source; having a fileKey is what makes it
+ * go to assistants as content rather than a link. A page title and
+ * description only fill in what the user left blank.
+ */
+export async function storeSnapshot(
+  source: SourceRecord,
+  snapshot: Snapshot
+): Promise<SourceRecord> {
+  const name = snapshot.article?.title ?? source.name;
+  const { rejected } = await checkIngest([
+    new File([snapshot.blob], name, { type: snapshot.mimeType })
+  ]);
+  if (rejected.length) throw rejected[0].error;
+
+  const sha256 = await hashFile(snapshot.blob);
+  const fileKey = contentBlobKey(sha256);
+  await persistBlob(fileKey, snapshot.blob);
+
+  const category = detectCategoryFromMime(snapshot.mimeType);
+  const text = snapshot.article
+    ? snapshot.article.text
+    : await extractText(snapshot.blob, category, name).catch((error) => {
+        console.error(`Failed to extract text from ${source.url}`, error);
+        return null;
+      });
+  let extractKey: string | undefined;
+  if (text) {
+    extractKey = `extract::${source.id}`;
+    await persistBlob(extractKey, new Blob([text], { type: "text/plain" }));
+    await indexSourceText(source.id, text).catch((error) => {
+      console.error("Failed to index snapshot text", error);
+    });
+  } else {
+    await removeSourceText(source.id).catch((error) => {
+      console.error("Failed to drop stale snapshot text", error);
+    });
+  }
+
+  const usesUrlAsName = !source.name || source.name === source.url;
+  return {
+    ...source,
+    name: usesUrlAsName && snapshot.article?.title ? snapshot.article.title : source.name,
+    description: source.description || snapshot.article?.description || "",
+    category,
+    size: snapshot.blob.size,
+    mimeType: snapshot.mimeType,
+    fileKey,
+    sha256,
+    extractKey,
+    snapshotAt: snapshot.takenAt,
+    snapshotStatus: snapshot.status,
+    updatedAt: snapshot.takenAt
+  };
+}
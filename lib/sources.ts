@@ -0,0 +1,398 @@
+import { deleteOpfsBlob, isOpfsSupported, readOpfsBlob, writeOpfsBlob } from "@/lib/opfs";
+
+export type SourceCategory =
+  | "video"
+  | "image"
+  | "audio"
+  | "pdf"
+  | "document"
+  | "spreadsheet"
+  | "text"
+  | "code"
+  | "archive"
+  | "other";
+
+export type SourceKind = "file" | "url" | "text";
+
+/** Outcome of the last health check of a URL source (see lib/linkHealth). */
+export type LinkCheck = {
+  checkedAt: string;
+  status?: number;
+  // Where redirects ended up, when that differs from the source URL.
+  redirectedTo?: string;
+  contentType?: string;
+  contentLength?: number;
+  // Set when no HTTP answer came back: DNS failure, timeout, refused address.
+  error?: string;
+  // The redirect target, type or length differ from the check before.
+  changed?: boolean;
+};
+
+/** Probed from audio and video files (see lib/audio and lib/video). */
+export type MediaInfo = {
+  // Seconds.
+  duration?: number;
+  sampleRate?: number;
+  channels?: number;
+  // Pixels, for video.
+  width?: number;
+  height?: number;
+  // Codec names, video first, e.g. "H.264 / AAC".
+  codec?: string;
+};
+
+export type SourceRecord = {
+  id: string;
+  name: string;
+  kind: SourceKind;
+  category: SourceCategory;
+  createdAt: string;
+  // Set whenever name, description, tags or note text are edited.
+  updatedAt?: string;
+  size?: number;
+  mimeType?: string;
+  tags: string[];
+  description?: string;
+  fileKey?: string;
+  // Hex SHA-256 of the file bytes; fileKey is derived from it for new files.
+  sha256?: string;
+  textKey?: string;
+  // Plain text extracted from PDFs and text files, kept for full-text search.
+  extractKey?: string;
+  url?: string;
+  // Set when a URL source was fetched into local content (see lib/snapshot).
+  snapshotAt?: string;
+  // HTTP status of the snapshot response, after redirects.
+  snapshotStatus?: number;
+  linkCheck?: LinkCheck;
+  media?: MediaInfo;
+  // Id of the audio or video source a transcript note was made from.
+  transcriptOf?: string;
+  // Id of the video a clip was cut from or a still frame was captured from.
+  clipOf?: string;
+  frameOf?: string;
+  // Collections (see lib/collections) this source belongs to.
+  collectionIds?: string[];
+  // Set while the source sits in the Trash; its blobs are kept until purge.
+  deletedAt?: string;
+};
+
+/**
+ * Version of the payload contract sent to assistant endpoints. Bump it when a
+ * field is removed or changes meaning; adding optional fields is compatible.
+ */
+export const PAYLOAD_SCHEMA_VERSION = "1.1";
+
+export type SourcePayloadData =
+  | { encoding: "multipart"; part: "content" }
+  | { encoding: "text"; value: string }
+  | { encoding: "url"; value: string }
+  // Only the NDJSON format sends this; it inlines the file instead of a multipart part.
+  | { encoding: "base64"; value: string };
+
+export type SourcePayload = {
+  id: string;
+  name: string;
+  type: SourceCategory;
+  kind: SourceKind;
+  tags: string[];
+  createdAt: string;
+  updatedAt?: string;
+  size?: number;
+  mimeType?: string;
+  description?: string;
+  data: SourcePayloadData;
+};
+
+export type BatchPayload = {
+  schemaVersion: typeof PAYLOAD_SCHEMA_VERSION;
+  id: string;
+  createdAt: string;
+  index: number;
+  count: number;
+  idempotencyKey: string;
+};
+
+export function toSourcePayload(
+  source: SourceRecord,
+  data: SourcePayloadData
+): SourcePayload {
+  return {
+    id: source.id,
+    name: source.name,
+    type: source.category,
+    kind: source.kind,
+    tags: source.tags,
+    createdAt: source.createdAt,
+    updatedAt: source.updatedAt,
+    size: source.size,
+    mimeType: source.mimeType,
+    description: source.description,
+    data
+  };
+}
+
+export {
+  ASSISTANT_HEADERS,
+  batchFieldSchema,
+  requestHeadersSchema,
+  sourceFieldSchema
+} from "@/lib/payloadSchema";
+
+const SOURCES_STORAGE_KEY = "agentic-source-hub::sources";
+const STORAGE_MODE_KEY = "agentic-source-hub::storage-mode";
+const BLOB_DB_NAME = "agentic-source-hub";
+const BLOB_STORE_NAME = "blobs";
+
+export function createSourceId(): string {
+  if (typeof crypto !== "undefined" && "randomUUID" in crypto) {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+const EXTENSION_CATEGORIES: [RegExp, SourceCategory][] = [
+  [/\.(mp4|m4v|mov|avi|mkv|webm|mpe?g|wmv|3gp)$/, "video"],
+  [/\.(png|jpe?g|gif|webp|svg|avif|heic|bmp|ico|tiff?)$/, "image"],
+  [/\.(mp3|wav|ogg|oga|opus|flac|m4a|aac|weba|aiff?)$/, "audio"],
+  [/\.pdf$/, "pdf"],
+  [/\.(docx?|odt|rtf|pptx?|odp|epub|pages|key)$/, "document"],
+  [/\.(xlsx?|ods|csv|tsv|numbers)$/, "spreadsheet"],
+  [/\.(txt|md|markdown|log)$/, "text"],
+  [/\.(m?[jt]sx?|cjs|py|rb|go|rs|java|kt|swift|c|h|cc|cpp|hpp|cs|php|sh|bash|sql)$/, "code"],
+  [/\.(css|scss|html?|xml|json|ya?ml|toml|ini)$/, "code"],
+  [/\.(zip|gz|tgz|bz2|xz|7z|rar|tar)$/, "archive"]
+];
+
+/** The category a file name's extension suggests, if it is a known one. */
+export function categoryFromExtension(name: string): SourceCategory | undefined {
+  const lower = name.toLowerCase();
+  return EXTENSION_CATEGORIES.find(([pattern]) => pattern.test(lower))?.[1];
+}
+
+export function detectCategoryFromMime(mimeType: string): SourceCategory {
+  const type = mimeType.toLowerCase();
+  if (type.startsWith("video/")) return "video";
+  if (type.startsWith("image/")) return "image";
+  if (type.startsWith("audio/")) return "audio";
+  if (type === "application/pdf") return "pdf";
+  if (
+    type === "text/csv" ||
+    type === "text/tab-separated-values" ||
+    /spreadsheet|ms-excel/.test(type)
+  ) {
+    return "spreadsheet";
+  }
+  if (/wordprocessing|presentation|msword|ms-powerpoint|opendocument|rtf|epub/.test(type)) {
+    return "document";
+  }
+  if (/zip|x-tar|x-7z|x-rar|x-bzip|x-xz|x-compress/.test(type)) return "archive";
+  if (/javascript|typescript|json|xml|yaml|css|x-python|x-java|x-sql|x-sh$/.test(type)) {
+    return "code";
+  }
+  if (/x-csrc|x-chdr|x-c\+\+/.test(type)) return "code";
+  if (type.startsWith("text/")) return "text";
+  return "other";
+}
+
+/**
+ * Best guess from what the browser reports, without reading the file; see
+ * detectFileType in lib/mime for the content-based check used on ingest.
+ */
+export function detectCategory(file: File): SourceCategory {
+  const byName = categoryFromExtension(file.name);
+  if (byName) return byName;
+  return detectCategoryFromMime(file.type);
+}
+
+export function detectCategoryFromUrl(url: string): SourceCategory {
+  let pathname = url.toLowerCase();
+  try {
+    pathname = new URL(url).pathname.toLowerCase();
+  } catch {
+    // Fall back to matching against the raw string.
+  }
+  if (/youtube\.com|youtu\.be|vimeo\.com/.test(url.toLowerCase())) return "video";
+  // Server-rendered pages are web pages, not code listings.
+  if (/\.(html?|php|aspx?)$/.test(pathname)) return "other";
+  return categoryFromExtension(pathname) ?? "other";
+}
+
+export function loadSources(storageKey = SOURCES_STORAGE_KEY): SourceRecord[] {
+  if (typeof window === "undefined") return [];
+  try {
+    const raw = window.localStorage.getItem(storageKey);
+    if (!raw) return [];
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? (parsed as SourceRecord[]) : [];
+  } catch (error) {
+    console.error("Failed to load sources", error);
+    return [];
+  }
+}
+
+export function persistSources(
+  sources: SourceRecord[],
+  storageKey = SOURCES_STORAGE_KEY
+): void {
+  if (typeof window === "undefined") return;
+  window.localStorage.setItem(storageKey, JSON.stringify(sources));
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openBlobDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(BLOB_DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(BLOB_STORE_NAME)) {
+          db.createObjectStore(BLOB_STORE_NAME);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function withBlobStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest
+): Promise<T> {
+  const db = await openBlobDb();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(BLOB_STORE_NAME, mode);
+    const request = run(transaction.objectStore(BLOB_STORE_NAME));
+    transaction.oncomplete = () => resolve(request.result as T);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+/**
+ * File blobs are content-addressed, so records for identical files share one
+ * stored copy. Older records keep their per-id `file::${id}` keys.
+ */
+export function contentBlobKey(sha256: string): string {
+  return `file::sha256-${sha256}`;
+}
+
+export function sourceBlobKeys(source: SourceRecord): string[] {
+  return [source.fileKey, source.textKey, source.extractKey].filter(
+    (key): key is string => Boolean(key)
+  );
+}
+
+export function formatBytes(bytes?: number): string {
+  if (!bytes || bytes === 0) return "—";
+  const units = ["B", "KB", "MB", "GB", "TB"];
+  const index = Math.min(Math.floor(Math.log(bytes) / Math.log(1024)), units.length - 1);
+  return `${(bytes / Math.pow(1024, index)).toFixed(1)} ${units[index]}`;
+}
+
+// Blobs at or above this size go to OPFS when the browser has it.
+export const LARGE_BLOB_BYTES = 8 * 1024 * 1024;
+
+export async function persistLocalBlob(key: string, blob: Blob): Promise<void> {
+  if (blob.size >= LARGE_BLOB_BYTES && isOpfsSupported()) {
+    await writeOpfsBlob(key, blob);
+    // A smaller earlier version may still sit in IndexedDB.
+    await withBlobStore<undefined>("readwrite", (store) => store.delete(key));
+    return;
+  }
+  await withBlobStore<IDBValidKey>("readwrite", (store) => store.put(blob, key));
+  await deleteOpfsBlob(key);
+}
+
+export async function readLocalBlob(key: string): Promise<Blob | undefined> {
+  const stored = await withBlobStore<Blob | undefined>("readonly", (store) => store.get(key));
+  return stored ?? readOpfsBlob(key);
+}
+
+export async function deleteLocalBlob(key: string): Promise<void> {
+  await withBlobStore<undefined>("readwrite", (store) => store.delete(key));
+  await deleteOpfsBlob(key);
+}
+
+/**
+ * Where the source library lives. "local" keeps everything in this browser;
+ * "server" keeps an offline-first replica that syncs with the /api routes so
+ * a team can share one library (see lib/serverSourceStore).
+ */
+export type StorageMode = "local" | "server";
+
+export type SyncStatus = "pending" | "synced" | "conflict";
+
+export type SyncConflict = {
+  // The server's version of the record, or null if it was deleted there.
+  server: SourceRecord | null;
+  updatedAt: string;
+};
+
+export type SourceStoreUpdate = {
+  // Set when remote changes altered the library.
+  sources?: SourceRecord[];
+  statuses: Record<string, SyncStatus>;
+};
+
+export interface SourceStore {
+  mode: StorageMode;
+  loadSources(): Promise<SourceRecord[]>;
+  saveSources(sources: SourceRecord[]): Promise<void>;
+  persistBlob(key: string, blob: Blob): Promise<void>;
+  readBlob(key: string): Promise<Blob | undefined>;
+  deleteBlob(key: string): Promise<void>;
+  // Only implemented by stores that sync with a server.
+  subscribe?(listener: (update: SourceStoreUpdate) => void): () => void;
+  getConflict?(id: string): SyncConflict | undefined;
+  resolveConflict?(id: string, keep: "local" | "server"): Promise<void>;
+  dispose?(): void;
+}
+
+export const localSourceStore: SourceStore = {
+  mode: "local",
+  loadSources: async () => loadSources(),
+  saveSources: async (sources) => persistSources(sources),
+  persistBlob: persistLocalBlob,
+  readBlob: readLocalBlob,
+  deleteBlob: deleteLocalBlob
+};
+
+let activeStore: SourceStore = localSourceStore;
+
+export function getSourceStore(): SourceStore {
+  return activeStore;
+}
+
+export function setSourceStore(store: SourceStore): void {
+  activeStore = store;
+}
+
+export function loadStorageMode(): StorageMode {
+  if (typeof window === "undefined") return "local";
+  return window.localStorage.getItem(STORAGE_MODE_KEY) === "server" ? "server" : "local";
+}
+
+export function persistStorageMode(mode: StorageMode): void {
+  if (typeof window === "undefined") return;
+  window.localStorage.setItem(STORAGE_MODE_KEY, mode);
+}
+
+// Blob helpers used throughout the app go through whichever store is active.
+export function persistBlob(key: string, blob: Blob): Promise<void> {
+  return activeStore.persistBlob(key, blob);
+}
+
+export function readBlob(key: string): Promise<Blob | undefined> {
+  return activeStore.readBlob(key);
+}
+
+export function deleteBlob(key: string): Promise<void> {
+  return activeStore.deleteBlob(key);
+}
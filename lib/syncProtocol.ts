@@ -0,0 +1,58 @@
+import type { SourceRecord } from "@/lib/sources";
+
+/**
+ * Wire format of POST /api/sync, shared by the browser replica and the server.
+ *
+ * Every record on the server has a revision that increases by one per write,
+ * and every write gets a global sequence number. Clients send the revision
+ * their change is based on; the server rejects the change as a conflict if the
+ * record has moved on since. Deletions are kept as tombstones so replicas that
+ * were offline still learn about them.
+ */
+
+export type SyncEntry = {
+  id: string;
+  revision: number;
+  deleted: boolean;
+  // Last known record; kept on tombstones so a conflict can show what was lost.
+  record: SourceRecord | null;
+  updatedAt: string;
+  seq: number;
+};
+
+export type SyncChange = {
+  id: string;
+  baseRevision: number;
+  deleted: boolean;
+  record: SourceRecord | null;
+};
+
+export type SyncResult = {
+  id: string;
+  status: "accepted" | "conflict";
+  // The stored entry after the change, or the server's version on conflict.
+  entry: SyncEntry;
+};
+
+export type SyncRequest = {
+  cursor: number;
+  changes: SyncChange[];
+};
+
+export type SyncResponse = {
+  cursor: number;
+  results: SyncResult[];
+  changes: SyncEntry[];
+};
+
+export function isSyncChange(value: unknown): value is SyncChange {
+  if (!value || typeof value !== "object") return false;
+  const change = value as Partial<SyncChange>;
+  if (typeof change.id !== "string" || !change.id) return false;
+  if (!Number.isInteger(change.baseRevision) || (change.baseRevision as number) < 0) {
+    return false;
+  }
+  if (typeof change.deleted !== "boolean") return false;
+  if (change.deleted) return true;
+  return Boolean(change.record && change.record.id === change.id);
+}
@@ -0,0 +1,209 @@
+import { SourceCategory, readBlob } from "@/lib/sources";
+import { extractPdfText } from "@/lib/pdf";
+
+const INDEX_DB_NAME = "agentic-source-hub-index";
+const DOCUMENT_STORE_NAME = "documents";
+const POSTING_STORE_NAME = "postings";
+const MIN_TERM_LENGTH = 2;
+const SNIPPET_RADIUS = 60;
+const MAX_SNIPPETS = 3;
+
+type IndexedDocument = {
+  terms: string[];
+};
+
+export type SnippetSegment = {
+  text: string;
+  match: boolean;
+};
+
+let indexDbPromise: Promise<IDBDatabase> | null = null;
+
+function openIndexDb(): Promise<IDBDatabase> {
+  if (!indexDbPromise) {
+    indexDbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(INDEX_DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(DOCUMENT_STORE_NAME)) {
+          db.createObjectStore(DOCUMENT_STORE_NAME);
+        }
+        if (!db.objectStoreNames.contains(POSTING_STORE_NAME)) {
+          db.createObjectStore(POSTING_STORE_NAME);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        indexDbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return indexDbPromise;
+}
+
+function requestValue<T>(request: IDBRequest): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result as T);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((term) => term.length >= MIN_TERM_LENGTH);
+}
+
+/** Returns the plain text of documents we know how to read, or null. */
+export async function extractText(
+  blob: Blob,
+  category: SourceCategory,
+  name: string
+): Promise<string | null> {
+  if (category === "pdf") {
+    return extractPdfText(blob);
+  }
+  if (
+    category === "text" ||
+    category === "code" ||
+    /\.(txt|md|markdown|csv|tsv)$/i.test(name)
+  ) {
+    return blob.text();
+  }
+  return null;
+}
+
+export async function indexSourceText(sourceId: string, text: string): Promise<void> {
+  await removeSourceText(sourceId);
+  const terms = Array.from(new Set(tokenize(text)));
+  const db = await openIndexDb();
+  const transaction = db.transaction([DOCUMENT_STORE_NAME, POSTING_STORE_NAME], "readwrite");
+  const documents = transaction.objectStore(DOCUMENT_STORE_NAME);
+  const postings = transaction.objectStore(POSTING_STORE_NAME);
+  documents.put({ terms } satisfies IndexedDocument, sourceId);
+  for (const term of terms) {
+    const ids = (await requestValue<string[] | undefined>(postings.get(term))) ?? [];
+    if (!ids.includes(sourceId)) {
+      postings.put([...ids, sourceId], term);
+    }
+  }
+  await transactionDone(transaction);
+}
+
+export async function removeSourceText(sourceId: string): Promise<void> {
+  const db = await openIndexDb();
+  const transaction = db.transaction([DOCUMENT_STORE_NAME, POSTING_STORE_NAME], "readwrite");
+  const documents = transaction.objectStore(DOCUMENT_STORE_NAME);
+  const postings = transaction.objectStore(POSTING_STORE_NAME);
+  const existing = await requestValue<IndexedDocument | undefined>(documents.get(sourceId));
+  if (existing) {
+    for (const term of existing.terms) {
+      const ids = (await requestValue<string[] | undefined>(postings.get(term))) ?? [];
+      const remaining = ids.filter((id) => id !== sourceId);
+      if (remaining.length) {
+        postings.put(remaining, term);
+      } else {
+        postings.delete(term);
+      }
+    }
+    documents.delete(sourceId);
+  }
+  await transactionDone(transaction);
+}
+
+/**
+ * Finds sources whose indexed text contains every term of the query. The last
+ * term matches as a prefix so results update while the user is still typing.
+ */
+export async function searchIndex(query: string): Promise<Set<string>> {
+  const terms = tokenize(query);
+  if (!terms.length) return new Set();
+
+  const db = await openIndexDb();
+  const transaction = db.transaction(POSTING_STORE_NAME, "readonly");
+  const postings = transaction.objectStore(POSTING_STORE_NAME);
+
+  let result: Set<string> | undefined;
+  for (const [position, term] of terms.entries()) {
+    const matches = new Set<string>();
+    if (position === terms.length - 1) {
+      const range = IDBKeyRange.bound(term, `${term}\uffff`);
+      const lists = await requestValue<string[][]>(postings.getAll(range));
+      lists.forEach((ids) => ids.forEach((id) => matches.add(id)));
+    } else {
+      const ids = (await requestValue<string[] | undefined>(postings.get(term))) ?? [];
+      ids.forEach((id) => matches.add(id));
+    }
+    const previous = result;
+    result = previous
+      ? new Set(Array.from(matches).filter((id) => previous.has(id)))
+      : matches;
+    if (!result.size) break;
+  }
+  return result ?? new Set<string>();
+}
+
+export async function readIndexedText(
+  extractKey?: string,
+  textKey?: string
+): Promise<string | null> {
+  const key = extractKey ?? textKey;
+  if (!key) return null;
+  const blob = await readBlob(key);
+  return blob ? blob.text() : null;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/** Cuts short excerpts around query matches, split into highlightable segments. */
+export function buildSnippets(text: string, query: string): SnippetSegment[][] {
+  const terms = tokenize(query);
+  if (!terms.length) return [];
+  const pattern = new RegExp(
+    `(${terms.map(escapeRegExp).join("|")})[\\p{L}\\p{N}]*`,
+    "giu"
+  );
+
+  const snippets: SnippetSegment[][] = [];
+  let lastEnd = -1;
+  for (const match of Array.from(text.matchAll(pattern))) {
+    const index = match.index ?? 0;
+    if (index < lastEnd) continue;
+    const start = Math.max(0, index - SNIPPET_RADIUS);
+    const end = Math.min(text.length, index + match[0].length + SNIPPET_RADIUS);
+    const excerpt = text.slice(start, end).replace(/\s+/g, " ");
+
+    const segments: SnippetSegment[] = [];
+    let cursor = 0;
+    for (const inner of Array.from(excerpt.matchAll(pattern))) {
+      const innerIndex = inner.index ?? 0;
+      if (innerIndex > cursor) {
+        segments.push({ text: excerpt.slice(cursor, innerIndex), match: false });
+      }
+      segments.push({ text: inner[0], match: true });
+      cursor = innerIndex + inner[0].length;
+    }
+    if (cursor < excerpt.length) {
+      segments.push({ text: excerpt.slice(cursor), match: false });
+    }
+    if (start > 0) segments.unshift({ text: "…", match: false });
+    if (end < text.length) segments.push({ text: "…", match: false });
+
+    snippets.push(segments);
+    lastEnd = end;
+    if (snippets.length >= MAX_SNIPPETS) break;
+  }
+  return snippets;
+}
@@ -0,0 +1,244 @@
+import { SourceRecord, readBlob } from "@/lib/sources";
+import { openPdf } from "@/lib/pdf";
+
+/**
+ * Small preview images for the sources list. Thumbnails are a cache: they
+ * live in their own database, are never synced or exported, and are rebuilt
+ * from the stored file whenever one is missing.
+ */
+
+const THUMBNAIL_DB_NAME = "agentic-source-hub-thumbnails";
+const THUMBNAIL_STORE_NAME = "thumbnails";
+// Longest side in CSS pixels, doubled for high-density screens.
+export const THUMBNAIL_SIZE = 160;
+const THUMBNAIL_SCALE = 2;
+const THUMBNAIL_TYPE = "image/webp";
+const THUMBNAIL_QUALITY = 0.8;
+const VIDEO_SEEK_TIMEOUT_MS = 10_000;
+
+let thumbnailDbPromise: Promise<IDBDatabase> | null = null;
+// Generation in progress per thumbnail key, so concurrent requests share one run.
+const inFlight = new Map<string, Promise<Blob | undefined>>();
+// Files that could not be decoded; not retried until the page reloads.
+const failed = new Set<string>();
+
+function openThumbnailDb(): Promise<IDBDatabase> {
+  if (!thumbnailDbPromise) {
+    thumbnailDbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(THUMBNAIL_DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(THUMBNAIL_STORE_NAME)) {
+          db.createObjectStore(THUMBNAIL_STORE_NAME);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        thumbnailDbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return thumbnailDbPromise;
+}
+
+async function withThumbnailStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest
+): Promise<T> {
+  const db = await openThumbnailDb();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(THUMBNAIL_STORE_NAME, mode);
+    const request = run(transaction.objectStore(THUMBNAIL_STORE_NAME));
+    transaction.oncomplete = () => resolve(request.result as T);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+/** Identical files share a thumbnail through their content hash. */
+export function thumbnailKey(source: SourceRecord): string {
+  return source.sha256 ? `sha256-${source.sha256}` : source.id;
+}
+
+export function supportsThumbnail(source: SourceRecord): boolean {
+  return (
+    Boolean(source.fileKey) &&
+    (source.category === "image" || source.category === "video" || source.category === "pdf")
+  );
+}
+
+export async function deleteThumbnail(key: string): Promise<void> {
+  await withThumbnailStore<undefined>("readwrite", (store) => store.delete(key));
+}
+
+type Canvas = HTMLCanvasElement | OffscreenCanvas;
+
+function createCanvas(width: number, height: number): Canvas {
+  if (typeof OffscreenCanvas !== "undefined") {
+    return new OffscreenCanvas(width, height);
+  }
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+}
+
+function canvasToBlob(canvas: Canvas): Promise<Blob> {
+  if ("convertToBlob" in canvas) {
+    return canvas.convertToBlob({ type: THUMBNAIL_TYPE, quality: THUMBNAIL_QUALITY });
+  }
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error("Canvas export failed"))),
+      THUMBNAIL_TYPE,
+      THUMBNAIL_QUALITY
+    );
+  });
+}
+
+function fitWithin(width: number, height: number): { width: number; height: number } {
+  const max = THUMBNAIL_SIZE * THUMBNAIL_SCALE;
+  const scale = Math.min(1, max / Math.max(width, height));
+  return {
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale))
+  };
+}
+
+async function drawScaled(
+  image: CanvasImageSource,
+  width: number,
+  height: number
+): Promise<Blob> {
+  const size = fitWithin(width, height);
+  const canvas = createCanvas(size.width, size.height);
+  const context = canvas.getContext("2d") as
+    | CanvasRenderingContext2D
+    | OffscreenCanvasRenderingContext2D
+    | null;
+  if (!context) throw new Error("Canvas 2D is not available");
+  context.drawImage(image, 0, 0, size.width, size.height);
+  return canvasToBlob(canvas);
+}
+
+async function imageThumbnail(blob: Blob): Promise<Blob> {
+  // createImageBitmap does not decode SVG, so fall back to an <img>.
+  if (blob.type !== "image/svg+xml" && typeof createImageBitmap === "function") {
+    const bitmap = await createImageBitmap(blob);
+    try {
+      return await drawScaled(bitmap, bitmap.width, bitmap.height);
+    } finally {
+      bitmap.close();
+    }
+  }
+  const url = URL.createObjectURL(blob);
+  try {
+    const image = new Image();
+    image.src = url;
+    await image.decode();
+    return await drawScaled(image, image.naturalWidth || 300, image.naturalHeight || 150);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+function videoThumbnail(blob: Blob): Promise<Blob> {
+  const url = URL.createObjectURL(blob);
+  const video = document.createElement("video");
+  video.muted = true;
+  video.playsInline = true;
+  video.preload = "metadata";
+
+  return new Promise<Blob>((resolve, reject) => {
+    const timer = window.setTimeout(
+      () => reject(new Error("Timed out seeking video")),
+      VIDEO_SEEK_TIMEOUT_MS
+    );
+    video.onloadedmetadata = () => {
+      // A frame a little way in is more telling than a black first frame.
+      const duration = Number.isFinite(video.duration) ? video.duration : 0;
+      video.currentTime = Math.min(1, duration * 0.1);
+    };
+    video.onseeked = () => {
+      window.clearTimeout(timer);
+      drawScaled(video, video.videoWidth, video.videoHeight).then(resolve, reject);
+    };
+    video.onerror = () => {
+      window.clearTimeout(timer);
+      reject(new Error("This video format cannot be decoded"));
+    };
+    video.src = url;
+  }).finally(() => {
+    video.removeAttribute("src");
+    video.load();
+    URL.revokeObjectURL(url);
+  });
+}
+
+async function pdfThumbnail(blob: Blob): Promise<Blob> {
+  const document = await openPdf(blob);
+  try {
+    const page = await document.getPage(1);
+    const base = page.getViewport({ scale: 1 });
+    const size = fitWithin(base.width, base.height);
+    const viewport = page.getViewport({ scale: size.width / base.width });
+    // pdf.js renders into a DOM canvas.
+    const canvas = window.document.createElement("canvas");
+    canvas.width = Math.round(viewport.width);
+    canvas.height = Math.round(viewport.height);
+    const context = canvas.getContext("2d");
+    if (!context) throw new Error("Canvas 2D is not available");
+    await page.render({ canvasContext: context, viewport }).promise;
+    return canvasToBlob(canvas);
+  } finally {
+    await document.destroy();
+  }
+}
+
+export async function createThumbnail(
+  blob: Blob,
+  category: SourceRecord["category"]
+): Promise<Blob | undefined> {
+  if (category === "image") return imageThumbnail(blob);
+  if (category === "video") return videoThumbnail(blob);
+  if (category === "pdf") return pdfThumbnail(blob);
+  return undefined;
+}
+
+/**
+ * Returns the cached thumbnail, generating and caching it first if needed.
+ * Pass the file when it is at hand (at ingest) to skip reading it back.
+ */
+export function ensureThumbnail(
+  source: SourceRecord,
+  file?: Blob
+): Promise<Blob | undefined> {
+  if (!supportsThumbnail(source)) return Promise.resolve(undefined);
+  const key = thumbnailKey(source);
+  if (failed.has(key)) return Promise.resolve(undefined);
+  const pending = inFlight.get(key);
+  if (pending) return pending;
+
+  const run = (async () => {
+    const cached = await withThumbnailStore<Blob | undefined>("readonly", (store) =>
+      store.get(key)
+    );
+    if (cached) return cached;
+    const blob = file ?? (source.fileKey ? await readBlob(source.fileKey) : undefined);
+    if (!blob) return undefined;
+    const thumbnail = await createThumbnail(blob, source.category).catch((error) => {
+      console.error(`Failed to create a thumbnail for ${source.name}`, error);
+      failed.add(key);
+      return undefined;
+    });
+    if (thumbnail) {
+      await withThumbnailStore<IDBValidKey>("readwrite", (store) => store.put(thumbnail, key));
+    }
+    return thumbnail;
+  })().finally(() => {
+    inFlight.delete(key);
+  });
+  inFlight.set(key, run);
+  return run;
+}
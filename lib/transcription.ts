@@ -0,0 +1,196 @@
+import {
+  SourceRecord,
+  createSourceId,
+  persistBlob
+} from "@/lib/sources";
+import { indexSourceText } from "@/lib/textIndex";
+import { formatDuration } from "@/lib/audio";
+
+/**
+ * Speech-to-text for audio and video sources. Providers are registered by id
+ * like payload formatters; the built-in one posts the file to a
+ * Whisper-compatible HTTP endpoint (the OpenAI /v1/audio/transcriptions
+ * shape, served locally by faster-whisper-server, LocalAI, whisper.cpp's
+ * server and others). The endpoint must allow requests from this origin.
+ */
+
+export type TranscriptSegment = {
+  // Seconds from the start of the recording.
+  start: number;
+  end: number;
+  text: string;
+};
+
+export type Transcript = {
+  text: string;
+  language?: string;
+  segments?: TranscriptSegment[];
+};
+
+export type TranscriptionSettings = {
+  providerId: string;
+  endpoint: string;
+  model: string;
+  // ISO 639-1 code; empty lets the model detect it.
+  language: string;
+};
+
+export type TranscriptionProvider = {
+  id: string;
+  label: string;
+  transcribe: (
+    audio: Blob,
+    fileName: string,
+    settings: TranscriptionSettings,
+    signal?: AbortSignal
+  ) => Promise<Transcript>;
+};
+
+export class TranscriptionError extends Error {
+  status?: number;
+
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = "TranscriptionError";
+    this.status = status;
+  }
+}
+
+const TRANSCRIPTION_SETTINGS_KEY = "agentic-source-hub::transcription";
+
+export const DEFAULT_TRANSCRIPTION_PROVIDER = "whisper-http";
+
+export const DEFAULT_TRANSCRIPTION_SETTINGS: TranscriptionSettings = {
+  providerId: DEFAULT_TRANSCRIPTION_PROVIDER,
+  endpoint: "http://localhost:8000/v1/audio/transcriptions",
+  model: "whisper-1",
+  language: ""
+};
+
+export function loadTranscriptionSettings(): TranscriptionSettings {
+  if (typeof window === "undefined") return DEFAULT_TRANSCRIPTION_SETTINGS;
+  try {
+    const raw = window.localStorage.getItem(TRANSCRIPTION_SETTINGS_KEY);
+    if (!raw) return DEFAULT_TRANSCRIPTION_SETTINGS;
+    const stored = JSON.parse(raw) as Partial<TranscriptionSettings>;
+    return { ...DEFAULT_TRANSCRIPTION_SETTINGS, ...stored };
+  } catch (error) {
+    console.error("Failed to load transcription settings", error);
+    return DEFAULT_TRANSCRIPTION_SETTINGS;
+  }
+}
+
+export function persistTranscriptionSettings(settings: TranscriptionSettings): void {
+  if (typeof window === "undefined") return;
+  window.localStorage.setItem(TRANSCRIPTION_SETTINGS_KEY, JSON.stringify(settings));
+}
+
+export function canTranscribe(source: SourceRecord): boolean {
+  return Boolean(source.fileKey) && (source.category === "audio" || source.category === "video");
+}
+
+function isSegment(value: unknown): value is TranscriptSegment {
+  const segment = value as Partial<TranscriptSegment> | null;
+  return (
+    typeof segment?.start === "number" &&
+    typeof segment.end === "number" &&
+    typeof segment.text === "string"
+  );
+}
+
+const whisperHttpProvider: TranscriptionProvider = {
+  id: DEFAULT_TRANSCRIPTION_PROVIDER,
+  label: "Whisper-compatible HTTP endpoint",
+  async transcribe(audio, fileName, settings, signal) {
+    const form = new FormData();
+    form.append("file", audio, fileName);
+    form.append("model", settings.model);
+    // verbose_json adds segment timings; servers without it fall back to json.
+    form.append("response_format", "verbose_json");
+    if (settings.language) form.append("language", settings.language);
+
+    const response = await fetch(settings.endpoint, { method: "POST", body: form, signal }).catch(
+      (error) => {
+        if (signal?.aborted) throw error;
+        throw new TranscriptionError(
+          `Could not reach ${settings.endpoint}. Is the server running and allowing this origin?`
+        );
+      }
+    );
+    if (!response.ok) {
+      const body = await response.text().catch(() => "");
+      throw new TranscriptionError(
+        `Transcription failed (${response.status})${body ? `: ${body.slice(0, 200)}` : "."}`,
+        response.status
+      );
+    }
+    const contentType = response.headers.get("Content-Type") ?? "";
+    if (!contentType.includes("json")) {
+      return { text: (await response.text()).trim() };
+    }
+    const body = await response.json();
+    if (typeof body?.text !== "string") {
+      throw new TranscriptionError("The transcription server returned no text.");
+    }
+    return {
+      text: body.text.trim(),
+      language: typeof body.language === "string" ? body.language : undefined,
+      segments: Array.isArray(body.segments) ? body.segments.filter(isSegment) : undefined
+    };
+  }
+};
+
+const registry = new Map<string, TranscriptionProvider>();
+
+export function registerTranscriptionProvider(provider: TranscriptionProvider): void {
+  registry.set(provider.id, provider);
+}
+
+export function getTranscriptionProvider(id?: string): TranscriptionProvider {
+  return registry.get(id ?? DEFAULT_TRANSCRIPTION_PROVIDER) ?? whisperHttpProvider;
+}
+
+export function listTranscriptionProviders(): TranscriptionProvider[] {
+  return Array.from(registry.values());
+}
+
+registerTranscriptionProvider(whisperHttpProvider);
+
+/** One line per segment with its start time, or the plain text without segments. */
+export function formatTranscript(transcript: Transcript): string {
+  if (!transcript.segments?.length) return transcript.text;
+  return transcript.segments
+    .map((segment) => `[${formatDuration(segment.start)}] ${segment.text.trim()}`)
+    .join("\n");
+}
+
+/**
+ * Saves a transcript as a new note linked back to its recording through
+ * transcriptOf. The note starts with the recording's tags and collections.
+ */
+export async function createTranscriptSource(
+  recording: SourceRecord,
+  transcript: Transcript
+): Promise<SourceRecord> {
+  const id = createSourceId();
+  const textKey = `text::${id}`;
+  const text = formatTranscript(transcript);
+  await persistBlob(textKey, new Blob([text], { type: "text/plain" }));
+  await indexSourceText(id, text).catch((error) => {
+    console.error("Failed to index transcript", error);
+  });
+  return {
+    id,
+    name: `${recording.name} (transcript)`,
+    kind: "text",
+    category: "text",
+    createdAt: new Date().toISOString(),
+    tags: Array.from(new Set([...recording.tags, "transcript"])),
+    description: transcript.language
+      ? `Transcript of "${recording.name}" (language: ${transcript.language}).`
+      : `Transcript of "${recording.name}".`,
+    textKey,
+    collectionIds: recording.collectionIds,
+    transcriptOf: recording.id
+  };
+}
@@ -0,0 +1,41 @@
+import type { SourceRecord } from "@/lib/sources";
+
+const TRASH_RETENTION_KEY = "agentic-source-hub::trash-retention-days";
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+// 0 keeps trashed sources until the trash is emptied by hand.
+export const TRASH_RETENTION_OPTIONS = [7, 14, 30, 60, 90, 0];
+
+export function isTrashed(source: SourceRecord): boolean {
+  return Boolean(source.deletedAt);
+}
+
+export function loadTrashRetentionDays(): number {
+  if (typeof window === "undefined") return DEFAULT_TRASH_RETENTION_DAYS;
+  const raw = window.localStorage.getItem(TRASH_RETENTION_KEY);
+  const days = raw === null ? NaN : Number(raw);
+  return Number.isInteger(days) && days >= 0 ? days : DEFAULT_TRASH_RETENTION_DAYS;
+}
+
+export function persistTrashRetentionDays(days: number): void {
+  if (typeof window === "undefined") return;
+  window.localStorage.setItem(TRASH_RETENTION_KEY, String(days));
+}
+
+/** When a trashed source will be purged, or null if it is kept indefinitely. */
+export function purgeDate(source: SourceRecord, retentionDays: number): Date | null {
+  if (!source.deletedAt || retentionDays <= 0) return null;
+  return new Date(new Date(source.deletedAt).getTime() + retentionDays * DAY_MS);
+}
+
+export function expiredTrash(
+  sources: SourceRecord[],
+  retentionDays: number,
+  now = Date.now()
+): SourceRecord[] {
+  return sources.filter((source) => {
+    const due = purgeDate(source, retentionDays);
+    return due !== null && due.getTime() <= now;
+  });
+}
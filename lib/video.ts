@@ -0,0 +1,323 @@
+import type { MediaInfo, SourceRecord } from "@/lib/sources";
+
+/**
+ * Video tools for the Inspector, all in the browser: metadata from a probing
+ * <video> element plus the container header, still frames drawn to a canvas,
+ * and clips re-recorded with MediaRecorder. Recording plays the segment, so a
+ * clip takes as long to make as it runs.
+ */
+
+const PROBE_TIMEOUT_MS = 15000;
+// Leeway on top of the clip's own length before recording gives up.
+const RECORD_TIMEOUT_MS = 30000;
+// Movies written for streaming keep moov up front; others have it at the end.
+const MAX_MOOV_BYTES = 32 * 1024 * 1024;
+const MATROSKA_HEADER_BYTES = 256 * 1024;
+
+// WebM is what MediaRecorder supports nearly everywhere; MP4 covers Safari.
+const CLIP_TYPES = [
+  "video/webm;codecs=vp9,opus",
+  "video/webm;codecs=vp8,opus",
+  "video/webm",
+  "video/mp4"
+];
+
+export class VideoError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "VideoError";
+  }
+}
+
+// Sample entry four-character codes in MP4 and QuickTime files.
+const MP4_CODECS: Record<string, string> = {
+  avc1: "H.264",
+  avc3: "H.264",
+  hvc1: "HEVC",
+  hev1: "HEVC",
+  av01: "AV1",
+  vp09: "VP9",
+  vp08: "VP8",
+  mp4v: "MPEG-4 Visual",
+  apch: "ProRes",
+  apcn: "ProRes",
+  mp4a: "AAC",
+  Opus: "Opus",
+  "ac-3": "AC-3",
+  "ec-3": "E-AC-3",
+  fLaC: "FLAC",
+  ".mp3": "MP3",
+  alac: "ALAC"
+};
+
+// Matroska and WebM CodecID strings.
+const MATROSKA_CODECS: [string, string][] = [
+  ["V_MPEG4/ISO/AVC", "H.264"],
+  ["V_MPEGH/ISO/HEVC", "HEVC"],
+  ["V_AV1", "AV1"],
+  ["V_VP9", "VP9"],
+  ["V_VP8", "VP8"],
+  ["A_OPUS", "Opus"],
+  ["A_VORBIS", "Vorbis"],
+  ["A_AAC", "AAC"],
+  ["A_MPEG/L3", "MP3"],
+  ["A_FLAC", "FLAC"]
+];
+
+type CapturableVideo = HTMLVideoElement & {
+  captureStream?: () => MediaStream;
+  // Firefox still only ships the prefixed version.
+  mozCaptureStream?: () => MediaStream;
+};
+
+function latin1(bytes: Uint8Array): string {
+  let result = "";
+  for (let index = 0; index < bytes.length; index += 1) {
+    result += String.fromCharCode(bytes[index]);
+  }
+  return result;
+}
+
+async function readBytes(blob: Blob, start: number, end: number): Promise<Uint8Array> {
+  return new Uint8Array(await blob.slice(start, end).arrayBuffer());
+}
+
+/** Finds the moov box by walking top-level box headers, without reading the media data. */
+async function readMoov(blob: Blob): Promise<Uint8Array | undefined> {
+  let offset = 0;
+  while (offset + 8 <= blob.size) {
+    const header = await readBytes(blob, offset, offset + 16);
+    const view = new DataView(header.buffer);
+    let size = view.getUint32(0);
+    const type = latin1(header.subarray(4, 8));
+    if (size === 1 && header.length >= 16) {
+      size = Number(view.getBigUint64(8));
+    } else if (size === 0) {
+      size = blob.size - offset;
+    }
+    if (size < 8) return undefined;
+    if (type === "moov") {
+      return size <= MAX_MOOV_BYTES ? readBytes(blob, offset, offset + size) : undefined;
+    }
+    offset += size;
+  }
+  return undefined;
+}
+
+async function mp4Codecs(blob: Blob): Promise<string[]> {
+  const moov = await readMoov(blob);
+  if (!moov) return [];
+  const text = latin1(moov);
+  const codecs: string[] = [];
+  // Each stsd box lists its track's sample entries; the first one names the codec.
+  for (let index = text.indexOf("stsd"); index >= 0; index = text.indexOf("stsd", index + 4)) {
+    const codec = MP4_CODECS[text.slice(index + 16, index + 20)];
+    if (codec && !codecs.includes(codec)) codecs.push(codec);
+  }
+  return codecs;
+}
+
+async function matroskaCodecs(blob: Blob): Promise<string[]> {
+  const text = latin1(await readBytes(blob, 0, MATROSKA_HEADER_BYTES));
+  return MATROSKA_CODECS.filter(([id]) => text.includes(id)).map(([, label]) => label);
+}
+
+/** Video codec first, then audio, e.g. "H.264 / AAC". */
+async function readCodecs(blob: Blob): Promise<string | undefined> {
+  const header = await readBytes(blob, 0, 12);
+  let codecs: string[] = [];
+  if (latin1(header.subarray(4, 8)) === "ftyp") {
+    codecs = await mp4Codecs(blob);
+  } else if (header[0] === 0x1a && header[1] === 0x45 && header[2] === 0xdf && header[3] === 0xa3) {
+    codecs = await matroskaCodecs(blob);
+  }
+  return codecs.length ? codecs.join(" / ") : undefined;
+}
+
+function loadVideo(blob: Blob): { video: HTMLVideoElement; release: () => void } {
+  const url = URL.createObjectURL(blob);
+  const video = document.createElement("video");
+  video.muted = true;
+  video.playsInline = true;
+  video.preload = "metadata";
+  video.src = url;
+  return {
+    video,
+    release: () => {
+      video.removeAttribute("src");
+      video.load();
+      URL.revokeObjectURL(url);
+    }
+  };
+}
+
+function readElementInfo(blob: Blob): Promise<MediaInfo> {
+  const { video, release } = loadVideo(blob);
+  return new Promise<MediaInfo>((resolve, reject) => {
+    const timer = window.setTimeout(
+      () => reject(new VideoError("Timed out reading video metadata")),
+      PROBE_TIMEOUT_MS
+    );
+    const finish = () => {
+      window.clearTimeout(timer);
+      resolve({
+        duration: Number.isFinite(video.duration) ? video.duration : undefined,
+        width: video.videoWidth || undefined,
+        height: video.videoHeight || undefined
+      });
+    };
+    video.onloadedmetadata = () => {
+      if (Number.isFinite(video.duration)) {
+        finish();
+        return;
+      }
+      // Recorded WebM files carry no duration; seeking past the end makes the browser find it.
+      video.ondurationchange = () => {
+        if (Number.isFinite(video.duration)) finish();
+      };
+      video.currentTime = Number.MAX_SAFE_INTEGER;
+    };
+    video.onerror = () => {
+      window.clearTimeout(timer);
+      reject(new VideoError("This video format cannot be decoded"));
+    };
+  }).finally(release);
+}
+
+/** Duration and resolution from the browser, codecs from the container header. */
+export async function probeVideo(blob: Blob): Promise<MediaInfo> {
+  const [info, codec] = await Promise.all([
+    readElementInfo(blob),
+    readCodecs(blob).catch(() => undefined)
+  ]);
+  return { ...info, codec };
+}
+
+/** The frame the element is showing, at its full resolution. */
+export function captureFrame(video: HTMLVideoElement): Promise<Blob> {
+  const canvas = document.createElement("canvas");
+  canvas.width = video.videoWidth;
+  canvas.height = video.videoHeight;
+  const context = canvas.getContext("2d");
+  if (!context || !canvas.width) {
+    return Promise.reject(new VideoError("No frame is loaded yet."));
+  }
+  context.drawImage(video, 0, 0);
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new VideoError("Canvas export failed"))),
+      "image/png"
+    );
+  });
+}
+
+function clipMimeType(): string | undefined {
+  if (typeof MediaRecorder === "undefined") return undefined;
+  return CLIP_TYPES.find((type) => MediaRecorder.isTypeSupported(type));
+}
+
+export function canRecordClips(): boolean {
+  if (typeof document === "undefined" || !clipMimeType()) return false;
+  const video = document.createElement("video") as CapturableVideo;
+  return Boolean(video.captureStream ?? video.mozCaptureStream);
+}
+
+function waitFor(video: HTMLVideoElement, event: "loadedmetadata" | "seeked"): Promise<void> {
+  return new Promise((resolve, reject) => {
+    video.addEventListener(event, () => resolve(), { once: true });
+    video.addEventListener(
+      "error",
+      () => reject(new VideoError("This video format cannot be decoded")),
+      { once: true }
+    );
+  });
+}
+
+/**
+ * Records the segment between start and end (in seconds) into a new file.
+ * The element plays muted; captured streams keep their audio regardless.
+ */
+export async function recordClip(
+  blob: Blob,
+  start: number,
+  end: number,
+  onProgress?: (fraction: number) => void
+): Promise<Blob> {
+  const mimeType = clipMimeType();
+  if (!mimeType || !canRecordClips()) {
+    throw new VideoError("This browser cannot record video clips.");
+  }
+  const { video, release } = loadVideo(blob);
+  const capturable = video as CapturableVideo;
+  video.preload = "auto";
+  let stream: MediaStream | undefined;
+  let recorder: MediaRecorder | undefined;
+  let timer: number | undefined;
+  try {
+    const capture = capturable.captureStream ?? capturable.mozCaptureStream;
+    if (!capture) {
+      throw new VideoError("This browser cannot record video clips.");
+    }
+    await waitFor(video, "loadedmetadata");
+    video.currentTime = start;
+    await waitFor(video, "seeked");
+
+    stream = capture.call(video);
+    const active = new MediaRecorder(stream, { mimeType });
+    recorder = active;
+    const chunks: Blob[] = [];
+    active.ondataavailable = (event) => {
+      if (event.data.size) chunks.push(event.data);
+    };
+
+    const recorded = new Promise<Blob>((resolve, reject) => {
+      timer = window.setTimeout(() => {
+        active.stop();
+        reject(new VideoError("Timed out recording the clip"));
+      }, (end - start) * 1000 + RECORD_TIMEOUT_MS);
+      active.onstop = () => {
+        window.clearTimeout(timer);
+        resolve(new Blob(chunks, { type: mimeType.split(";")[0] }));
+      };
+      active.onerror = () => {
+        window.clearTimeout(timer);
+        reject(new VideoError("Recording the clip failed"));
+      };
+    });
+
+    const stop = () => {
+      video.pause();
+      if (active.state !== "inactive") active.stop();
+    };
+    // timeupdate fires a few times a second, so clips can run a fraction long.
+    video.ontimeupdate = () => {
+      onProgress?.(Math.min(1, (video.currentTime - start) / (end - start)));
+      if (video.currentTime >= end) stop();
+    };
+    video.onended = stop;
+
+    active.start();
+    await video.play();
+    return await recorded;
+  } finally {
+    // If play() rejected, nothing is awaiting the recording any more; its
+    // timer must not fire later and reject with nobody listening.
+    window.clearTimeout(timer);
+    if (recorder && recorder.state !== "inactive") recorder.stop();
+    stream?.getTracks().forEach((track) => track.stop());
+    release();
+  }
+}
+
+/** Seconds with one decimal, e.g. "1:02.5", for in and out points. */
+export function formatTimestamp(seconds: number): string {
+  const tenths = Math.round(seconds * 10);
+  const minutes = Math.floor(tenths / 600);
+  const rest = ((tenths % 600) / 10).toFixed(1).padStart(4, "0");
+  return `${minutes}:${rest}`;
+}
+
+/** File name stem without the extension, for naming clips and frames. */
+export function baseName(source: SourceRecord): string {
+  return source.name.replace(/\.[^.]+$/, "") || source.name;
+}
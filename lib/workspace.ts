@@ -0,0 +1,378 @@
+import {
+  SourceRecord,
+  contentBlobKey,
+  createSourceId,
+  deleteBlob,
+  persistBlob,
+  readBlob,
+  sourceBlobKeys
+} from "@/lib/sources";
+import type { Collection } from "@/lib/collections";
+import type { SmartCollection } from "@/lib/smartCollections";
+import { computeContentHash } from "@/lib/signing";
+import { indexSourceText, removeSourceText } from "@/lib/textIndex";
+import { removeEmbedding } from "@/lib/embeddings";
+import { deleteThumbnail, thumbnailKey } from "@/lib/thumbnails";
+import { deleteRevisions } from "@/lib/revisions";
+import { ZipEntry, ZipInput, createZip, readZip } from "@/lib/zip";
+
+/**
+ * Workspace archives are ZIP files with a manifest.json at the root and one
+ * entry per stored blob under blobs/. Bump WORKSPACE_VERSION when the manifest
+ * changes in a way older builds could not import.
+ */
+export const WORKSPACE_FORMAT = "agentic-source-hub-workspace";
+export const WORKSPACE_VERSION = 1;
+const MANIFEST_PATH = "manifest.json";
+
+export type ImportMode = "merge" | "replace";
+
+export type ArchivedSource = SourceRecord & {
+  contentHash: string;
+};
+
+export type WorkspaceManifest = {
+  format: typeof WORKSPACE_FORMAT;
+  version: number;
+  exportedAt: string;
+  sources: ArchivedSource[];
+  collections: Collection[];
+  smartCollections: SmartCollection[];
+  // Blob key -> path of its entry inside the archive.
+  blobs: Record<string, string>;
+};
+
+export type WorkspaceArchive = {
+  manifest: WorkspaceManifest;
+  entries: Map<string, ZipEntry>;
+};
+
+export type WorkspaceSnapshot = {
+  sources: SourceRecord[];
+  collections: Collection[];
+  smartCollections: SmartCollection[];
+};
+
+export type WorkspaceImportResult = WorkspaceSnapshot & {
+  added: SourceRecord[];
+  removed: SourceRecord[];
+  // Same id and same content as a local source, or same content under another id.
+  skipped: number;
+  // Same id but different content; imported as a copy under a new id.
+  conflicts: number;
+};
+
+export class WorkspaceImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "WorkspaceImportError";
+  }
+}
+
+function blobPath(key: string): string {
+  return `blobs/${key.split("::").map(encodeURIComponent).join("/")}`;
+}
+
+export async function exportWorkspace(snapshot: WorkspaceSnapshot): Promise<Blob> {
+  const files: { name: string; data: Blob }[] = [];
+  const blobs: Record<string, string> = {};
+  const sources: ArchivedSource[] = [];
+
+  for (const source of snapshot.sources) {
+    for (const key of sourceBlobKeys(source)) {
+      // Content-addressed blobs can be shared by several sources.
+      if (blobs[key]) continue;
+      const blob = await readBlob(key);
+      if (!blob) {
+        console.error(`Blob ${key} is missing; exporting ${source.name} without it`);
+        continue;
+      }
+      blobs[key] = blobPath(key);
+      files.push({ name: blobs[key], data: blob });
+    }
+    sources.push({ ...source, contentHash: await computeContentHash(source) });
+  }
+
+  const manifest: WorkspaceManifest = {
+    format: WORKSPACE_FORMAT,
+    version: WORKSPACE_VERSION,
+    exportedAt: new Date().toISOString(),
+    sources,
+    collections: snapshot.collections,
+    smartCollections: snapshot.smartCollections,
+    blobs
+  };
+
+  return createZip([
+    { name: MANIFEST_PATH, data: JSON.stringify(manifest, null, 2) },
+    ...files
+  ]);
+}
+
+/**
+ * Plain ZIP of the original files (and note bodies as .txt) for use outside
+ * the app. URL-only sources have nothing to download and are skipped.
+ */
+export async function exportSourceFiles(
+  sources: SourceRecord[]
+): Promise<{ archive: Blob; count: number }> {
+  const files: ZipInput[] = [];
+  const used = new Set<string>();
+  const uniqueName = (name: string) => {
+    const safe = name.replace(/[\\/:*?"<>|]+/g, "_").trim() || "untitled";
+    const dot = safe.lastIndexOf(".");
+    const stem = dot > 0 ? safe.slice(0, dot) : safe;
+    const extension = dot > 0 ? safe.slice(dot) : "";
+    let candidate = safe;
+    for (let copy = 2; used.has(candidate.toLowerCase()); copy += 1) {
+      candidate = `${stem} (${copy})${extension}`;
+    }
+    used.add(candidate.toLowerCase());
+    return candidate;
+  };
+
+  for (const source of sources) {
+    const key = source.fileKey ?? source.textKey;
+    if (!key) continue;
+    const blob = await readBlob(key);
+    if (!blob) {
+      console.error(`Blob ${key} is missing; skipping ${source.name}`);
+      continue;
+    }
+    const name =
+      source.fileKey || /\.[a-z0-9]+$/i.test(source.name) ? source.name : `${source.name}.txt`;
+    files.push({ name: uniqueName(name), data: blob, modifiedAt: new Date(source.createdAt) });
+  }
+
+  return { archive: await createZip(files), count: files.length };
+}
+
+function validateManifest(value: unknown, entries: Map<string, ZipEntry>): WorkspaceManifest {
+  if (!value || typeof value !== "object") {
+    throw new WorkspaceImportError("The manifest is not a JSON object.");
+  }
+  const manifest = value as Partial<WorkspaceManifest>;
+  if (manifest.format !== WORKSPACE_FORMAT) {
+    throw new WorkspaceImportError("This archive is not a Source Hub workspace export.");
+  }
+  if (!Number.isInteger(manifest.version) || (manifest.version as number) < 1) {
+    throw new WorkspaceImportError("The manifest has no valid version.");
+  }
+  if ((manifest.version as number) > WORKSPACE_VERSION) {
+    throw new WorkspaceImportError(
+      `This archive uses workspace version ${manifest.version}; update the app to import it.`
+    );
+  }
+  if (!Array.isArray(manifest.sources)) {
+    throw new WorkspaceImportError("The manifest does not list any sources.");
+  }
+  manifest.sources.forEach((source, index) => {
+    if (
+      typeof source?.id !== "string" ||
+      typeof source.name !== "string" ||
+      typeof source.kind !== "string" ||
+      typeof source.category !== "string" ||
+      typeof source.contentHash !== "string" ||
+      !Array.isArray(source.tags)
+    ) {
+      throw new WorkspaceImportError(`Source #${index + 1} in the manifest is malformed.`);
+    }
+  });
+  const blobs = manifest.blobs ?? {};
+  for (const [key, path] of Object.entries(blobs)) {
+    if (!entries.has(path)) {
+      throw new WorkspaceImportError(`The archive is missing ${path} (${key}).`);
+    }
+  }
+  return {
+    format: WORKSPACE_FORMAT,
+    version: manifest.version as number,
+    exportedAt: manifest.exportedAt ?? "",
+    sources: manifest.sources,
+    collections: Array.isArray(manifest.collections) ? manifest.collections : [],
+    smartCollections: Array.isArray(manifest.smartCollections)
+      ? manifest.smartCollections
+      : [],
+    blobs
+  };
+}
+
+/** Opens an archive and checks its manifest without touching local storage. */
+export async function readWorkspaceArchive(file: Blob): Promise<WorkspaceArchive> {
+  const entries = await readZip(file);
+  const manifestEntry = entries.get(MANIFEST_PATH);
+  if (!manifestEntry) {
+    throw new WorkspaceImportError("The archive has no manifest.json.");
+  }
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(await (await manifestEntry.read()).text());
+  } catch (error) {
+    throw new WorkspaceImportError("manifest.json is not valid JSON.");
+  }
+  return { manifest: validateManifest(parsed, entries), entries };
+}
+
+function rekey(key: string | undefined, id: string): string | undefined {
+  return key ? `${key.split("::")[0]}::${id}` : undefined;
+}
+
+async function restoreSource(
+  archive: WorkspaceArchive,
+  archived: ArchivedSource,
+  target: SourceRecord
+): Promise<void> {
+  const pairs: [string | undefined, string | undefined][] = [
+    [archived.fileKey, target.fileKey],
+    [archived.textKey, target.textKey],
+    [archived.extractKey, target.extractKey]
+  ];
+  for (const [from, to] of pairs) {
+    if (!from || !to) continue;
+    const path = archive.manifest.blobs[from];
+    const entry = path ? archive.entries.get(path) : undefined;
+    if (entry) {
+      await persistBlob(to, await entry.read());
+    }
+  }
+
+  const textKey = target.extractKey ?? target.textKey;
+  const text = textKey ? await readBlob(textKey) : null;
+  if (text) {
+    await indexSourceText(target.id, await text.text()).catch((error) => {
+      console.error(`Failed to index imported source ${target.name}`, error);
+    });
+  }
+}
+
+/**
+ * Drops what a replaced source leaves behind once the imported workspace is in
+ * place. Blobs and thumbnails the import still uses are kept, and so are the
+ * search index entry and history of a source that was imported under the same
+ * id; its embedding is always dropped because the content may have changed.
+ */
+async function discardSource(source: SourceRecord, imported: SourceRecord[]): Promise<void> {
+  const keysInUse = new Set(imported.flatMap(sourceBlobKeys));
+  for (const key of sourceBlobKeys(source)) {
+    if (!keysInUse.has(key)) {
+      await deleteBlob(key);
+    }
+  }
+  // Only content-hash thumbnails are known to still match; id-keyed ones may
+  // show the replaced file.
+  const thumbnailsInUse = new Set(
+    imported.filter((item) => item.sha256).map((item) => thumbnailKey(item))
+  );
+  if (!thumbnailsInUse.has(thumbnailKey(source))) {
+    await deleteThumbnail(thumbnailKey(source)).catch((error) => {
+      console.error("Failed to drop thumbnail", error);
+    });
+  }
+  await removeEmbedding(source.id).catch((error) => {
+    console.error("Failed to drop source embedding", error);
+  });
+  if (imported.some((item) => item.id === source.id)) return;
+  await removeSourceText(source.id).catch((error) => {
+    console.error("Failed to drop source from search index", error);
+  });
+  await deleteRevisions(source.id).catch((error) => {
+    console.error("Failed to drop source history", error);
+  });
+}
+
+function mergeById<T extends { id: string }>(current: T[], incoming: T[]): T[] {
+  const known = new Set(current.map((item) => item.id));
+  return [...current, ...incoming.filter((item) => !known.has(item.id))];
+}
+
+/**
+ * Writes an archive into local storage. "replace" swaps the current workspace
+ * for the archive's; "merge" keeps it and only adds what is new.
+ */
+export async function importWorkspace(
+  archive: WorkspaceArchive,
+  current: WorkspaceSnapshot,
+  mode: ImportMode
+): Promise<WorkspaceImportResult> {
+  const { manifest } = archive;
+  const added: SourceRecord[] = [];
+  let skipped = 0;
+  let conflicts = 0;
+
+  if (mode === "replace") {
+    // Checksum every entry before writing anything, and only clean up the old
+    // workspace once the new one is fully restored: a corrupt entry or a full
+    // quota then leaves the current records with their files intact.
+    for (const path of new Set(Object.values(manifest.blobs))) {
+      await archive.entries.get(path)?.read();
+    }
+    for (const archived of manifest.sources) {
+      const { contentHash: _hash, ...record } = archived;
+      await restoreSource(archive, archived, record);
+      added.push(record);
+    }
+    for (const source of current.sources) {
+      await discardSource(source, added);
+    }
+    return {
+      sources: added,
+      collections: manifest.collections,
+      smartCollections: manifest.smartCollections,
+      added,
+      removed: current.sources,
+      skipped,
+      conflicts
+    };
+  }
+
+  const localHashes = new Map<string, string>();
+  for (const source of current.sources) {
+    localHashes.set(source.id, await computeContentHash(source));
+  }
+  const knownHashes = new Set(localHashes.values());
+  const collections = mergeById(current.collections, manifest.collections);
+  const collectionIds = new Set(collections.map((collection) => collection.id));
+
+  for (const archived of manifest.sources) {
+    const { contentHash, ...record } = archived;
+    const localHash = localHashes.get(record.id);
+    if (localHash === contentHash || (localHash === undefined && knownHashes.has(contentHash))) {
+      skipped += 1;
+      continue;
+    }
+
+    let target: SourceRecord = {
+      ...record,
+      collectionIds: record.collectionIds?.filter((id) => collectionIds.has(id))
+    };
+    if (localHash !== undefined) {
+      conflicts += 1;
+      const id = createSourceId();
+      target = {
+        ...target,
+        id,
+        name: `${record.name} (imported)`,
+        // Content-addressed keys already point at this exact file.
+        fileKey:
+          record.sha256 && record.fileKey === contentBlobKey(record.sha256)
+            ? record.fileKey
+            : rekey(record.fileKey, id),
+        textKey: rekey(record.textKey, id),
+        extractKey: rekey(record.extractKey, id)
+      };
+    }
+    await restoreSource(archive, archived, target);
+    knownHashes.add(contentHash);
+    added.push(target);
+  }
+
+  return {
+    sources: [...added, ...current.sources],
+    collections,
+    smartCollections: mergeById(current.smartCollections, manifest.smartCollections),
+    added,
+    removed: [],
+    skipped,
+    conflicts
+  };
+}
@@ -0,0 +1,249 @@
+/**
+ * Minimal ZIP support for workspace archives. Entries are written uncompressed
+ * ("stored") so large media never has to be held in memory twice; reading
+ * also accepts deflated entries, which is what most archivers produce when a
+ * user re-zips an exported folder.
+ */
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+const END_OF_CENTRAL_DIRECTORY_SIZE = 22;
+const MAX_COMMENT_SIZE = 0xffff;
+const UTF8_FLAG = 0x0800;
+const METHOD_STORED = 0;
+const METHOD_DEFLATED = 8;
+const ZIP_VERSION = 20;
+// Without ZIP64 extensions every size and offset must fit in 32 bits.
+const MAX_ZIP_OFFSET = 0xffffffff;
+
+export type ZipInput = {
+  name: string;
+  data: Blob | string;
+  modifiedAt?: Date;
+};
+
+export type ZipEntry = {
+  name: string;
+  size: number;
+  read: () => Promise<Blob>;
+};
+
+export class ZipFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ZipFormatError";
+  }
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+let crcTable: Uint32Array | null = null;
+
+function getCrcTable(): Uint32Array {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let index = 0; index < 256; index += 1) {
+      let value = index;
+      for (let bit = 0; bit < 8; bit += 1) {
+        value = value & 1 ? 0xedb88320 ^ (value >>> 1) : value >>> 1;
+      }
+      crcTable[index] = value >>> 0;
+    }
+  }
+  return crcTable;
+}
+
+/** CRC-32 of a blob, read chunk by chunk. */
+async function crc32(blob: Blob): Promise<number> {
+  const table = getCrcTable();
+  let crc = 0xffffffff;
+  const reader = blob.stream().getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    for (let index = 0; index < value.length; index += 1) {
+      crc = table[(crc ^ value[index]) & 0xff] ^ (crc >>> 8);
+    }
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function toDosDateTime(date: Date): { time: number; date: number } {
+  const year = Math.max(1980, date.getFullYear());
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  };
+}
+
+function localHeader(
+  name: Uint8Array,
+  crc: number,
+  size: number,
+  stamp: { time: number; date: number }
+): ArrayBuffer {
+  const header = new Uint8Array(30 + name.length);
+  const view = new DataView(header.buffer);
+  view.setUint32(0, LOCAL_HEADER_SIGNATURE, true);
+  view.setUint16(4, ZIP_VERSION, true);
+  view.setUint16(6, UTF8_FLAG, true);
+  view.setUint16(8, METHOD_STORED, true);
+  view.setUint16(10, stamp.time, true);
+  view.setUint16(12, stamp.date, true);
+  view.setUint32(14, crc, true);
+  view.setUint32(18, size, true);
+  view.setUint32(22, size, true);
+  view.setUint16(26, name.length, true);
+  view.setUint16(28, 0, true);
+  header.set(name, 30);
+  return header.buffer;
+}
+
+function centralHeader(
+  name: Uint8Array,
+  crc: number,
+  size: number,
+  stamp: { time: number; date: number },
+  offset: number
+): ArrayBuffer {
+  const header = new Uint8Array(46 + name.length);
+  const view = new DataView(header.buffer);
+  view.setUint32(0, CENTRAL_HEADER_SIGNATURE, true);
+  view.setUint16(4, ZIP_VERSION, true);
+  view.setUint16(6, ZIP_VERSION, true);
+  view.setUint16(8, UTF8_FLAG, true);
+  view.setUint16(10, METHOD_STORED, true);
+  view.setUint16(12, stamp.time, true);
+  view.setUint16(14, stamp.date, true);
+  view.setUint32(16, crc, true);
+  view.setUint32(20, size, true);
+  view.setUint32(24, size, true);
+  view.setUint16(28, name.length, true);
+  // Extra field, comment, disk number and attributes stay zero.
+  view.setUint32(42, offset, true);
+  header.set(name, 46);
+  return header.buffer;
+}
+
+/**
+ * Builds a stored ZIP. The result is assembled from blob parts, so file
+ * contents are referenced rather than copied.
+ */
+export async function createZip(inputs: ZipInput[]): Promise<Blob> {
+  if (inputs.length > 0xffff) {
+    throw new ZipFormatError("Too many files for a single archive.");
+  }
+  const parts: BlobPart[] = [];
+  const central: ArrayBuffer[] = [];
+  let offset = 0;
+
+  for (const input of inputs) {
+    const data = typeof input.data === "string" ? new Blob([input.data]) : input.data;
+    const name = encoder.encode(input.name);
+    const stamp = toDosDateTime(input.modifiedAt ?? new Date());
+    const crc = await crc32(data);
+    const header = localHeader(name, crc, data.size, stamp);
+    central.push(centralHeader(name, crc, data.size, stamp, offset));
+    parts.push(header, data);
+    offset += header.byteLength + data.size;
+    if (offset > MAX_ZIP_OFFSET) {
+      throw new ZipFormatError("Archive exceeds 4 GB, which this exporter does not support.");
+    }
+  }
+
+  const centralSize = central.reduce((total, header) => total + header.byteLength, 0);
+  const end = new Uint8Array(END_OF_CENTRAL_DIRECTORY_SIZE);
+  const view = new DataView(end.buffer);
+  view.setUint32(0, END_OF_CENTRAL_DIRECTORY_SIGNATURE, true);
+  view.setUint16(8, inputs.length, true);
+  view.setUint16(10, inputs.length, true);
+  view.setUint32(12, centralSize, true);
+  view.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...central, end.buffer], { type: "application/zip" });
+}
+
+async function readView(blob: Blob, start: number, end: number): Promise<DataView> {
+  return new DataView(await blob.slice(start, end).arrayBuffer());
+}
+
+async function findEndOfCentralDirectory(blob: Blob): Promise<DataView> {
+  const start = Math.max(0, blob.size - END_OF_CENTRAL_DIRECTORY_SIZE - MAX_COMMENT_SIZE);
+  const tail = await readView(blob, start, blob.size);
+  for (let index = tail.byteLength - END_OF_CENTRAL_DIRECTORY_SIZE; index >= 0; index -= 1) {
+    if (tail.getUint32(index, true) === END_OF_CENTRAL_DIRECTORY_SIGNATURE) {
+      return new DataView(tail.buffer, index, END_OF_CENTRAL_DIRECTORY_SIZE);
+    }
+  }
+  throw new ZipFormatError("Not a ZIP archive.");
+}
+
+/** Lists the entries of a ZIP archive. Contents are only read on demand. */
+export async function readZip(blob: Blob): Promise<Map<string, ZipEntry>> {
+  const end = await findEndOfCentralDirectory(blob);
+  const count = end.getUint16(10, true);
+  const centralSize = end.getUint32(12, true);
+  const centralOffset = end.getUint32(16, true);
+  if (centralOffset + centralSize > blob.size) {
+    throw new ZipFormatError("ZIP central directory is truncated.");
+  }
+
+  const directory = await readView(blob, centralOffset, centralOffset + centralSize);
+  const entries = new Map<string, ZipEntry>();
+  let cursor = 0;
+
+  for (let index = 0; index < count; index += 1) {
+    if (directory.getUint32(cursor, true) !== CENTRAL_HEADER_SIGNATURE) {
+      throw new ZipFormatError("ZIP central directory is corrupt.");
+    }
+    const flags = directory.getUint16(cursor + 8, true);
+    const method = directory.getUint16(cursor + 10, true);
+    const crc = directory.getUint32(cursor + 16, true);
+    const compressedSize = directory.getUint32(cursor + 20, true);
+    const size = directory.getUint32(cursor + 24, true);
+    const nameLength = directory.getUint16(cursor + 28, true);
+    const extraLength = directory.getUint16(cursor + 30, true);
+    const commentLength = directory.getUint16(cursor + 32, true);
+    const localOffset = directory.getUint32(cursor + 42, true);
+    const name = decoder.decode(
+      new Uint8Array(directory.buffer, directory.byteOffset + cursor + 46, nameLength)
+    );
+    cursor += 46 + nameLength + extraLength + commentLength;
+
+    if (flags & 0x1) {
+      throw new ZipFormatError(`"${name}" is encrypted.`);
+    }
+    if (method !== METHOD_STORED && method !== METHOD_DEFLATED) {
+      throw new ZipFormatError(`"${name}" uses an unsupported compression method.`);
+    }
+    if (name.endsWith("/")) continue;
+
+    entries.set(name, {
+      name,
+      size,
+      read: async () => {
+        const local = await readView(blob, localOffset, localOffset + 30);
+        if (local.getUint32(0, true) !== LOCAL_HEADER_SIGNATURE) {
+          throw new ZipFormatError(`"${name}" has a corrupt header.`);
+        }
+        const dataStart =
+          localOffset + 30 + local.getUint16(26, true) + local.getUint16(28, true);
+        const raw = blob.slice(dataStart, dataStart + compressedSize);
+        const data =
+          method === METHOD_STORED
+            ? raw
+            : await new Response(
+                raw.stream().pipeThrough(new DecompressionStream("deflate-raw"))
+              ).blob();
+        if ((await crc32(data)) !== crc) {
+          throw new ZipFormatError(`"${name}" failed its checksum.`);
+        }
+        return data;
+      }
+    });
+  }
+
+  return entries;
+}
@@ -5,6 +5,17 @@ const nextConfig = {
       allowedOrigins: ["https://agentic-e2dcf846.vercel.app"],
       bodySizeLimit: "8mb"
     }
+  },
+  webpack: (config) => {
+    // transformers.js only ever runs in the browser, on its WASM backend. Its
+    // Node-only dependencies (native onnxruntime bindings, sharp) must stay out
+    // of the client bundle and of the server render of the same components.
+    config.resolve.alias = {
+      ...config.resolve.alias,
+      "onnxruntime-node": false,
+      sharp: false
+    };
+    return config;
   }
 };
 
@@ -0,0 +1,43 @@
+// Puts everything the semantic search embedder loads under public/models, so
+// it runs fully offline: the quantized model from the Hugging Face Hub and the
+// ONNX Runtime WASM binaries from the installed @xenova/transformers. Files
+// that already exist are left alone. Commit the result.
+import { copyFile, mkdir, stat, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+const MODEL = "Xenova/all-MiniLM-L6-v2";
+const MODEL_FILES = [
+  "config.json",
+  "tokenizer.json",
+  "tokenizer_config.json",
+  "onnx/model_quantized.onnx"
+];
+// The embedder runs single-threaded, so only the non-threaded builds are loaded.
+const WASM_FILES = ["ort-wasm.wasm", "ort-wasm-simd.wasm"];
+
+const root = path.resolve(path.dirname(new URL(import.meta.url).pathname), "..");
+const modelsDir = path.join(root, "public", "models");
+
+const exists = (file) => stat(file).then(() => true, () => false);
+
+for (const file of MODEL_FILES) {
+  const target = path.join(modelsDir, MODEL, file);
+  if (await exists(target)) continue;
+  const url = `https://huggingface.co/${MODEL}/resolve/main/${file}`;
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Downloading ${url} failed with ${response.status}`);
+  }
+  await mkdir(path.dirname(target), { recursive: true });
+  await writeFile(target, Buffer.from(await response.arrayBuffer()));
+  console.log(`Fetched ${path.relative(root, target)}`);
+}
+
+const wasmSource = path.join(root, "node_modules", "@xenova", "transformers", "dist");
+await mkdir(path.join(modelsDir, "onnxruntime"), { recursive: true });
+for (const file of WASM_FILES) {
+  const target = path.join(modelsDir, "onnxruntime", file);
+  if (await exists(target)) continue;
+  await copyFile(path.join(wasmSource, file), target);
+  console.log(`Copied ${path.relative(root, target)}`);
+}